@@ -5,16 +5,20 @@ import Signup from "./pages/Signup";
 import Vouchers from "./pages/Vouchers";
 import TopBar from "./components/TopBar";
 import Home from "./pages/Home";
+import SharedVoucher from "./pages/SharedVoucher";
 import { supabase } from "./supabase";
+import { usesLocalBackend } from "./data";
 import { useEffect, useState } from "react";
 import type { JSX } from "react";
 
 function ProtectedRoute({ children }: { children: JSX.Element }) {
-  const [loading, setLoading] = useState(true);
-  const [hasSession, setHasSession] = useState(false);
+  const [loading, setLoading] = useState(!usesLocalBackend);
+  const [hasSession, setHasSession] = useState(usesLocalBackend);
   const location = useLocation();
 
   useEffect(() => {
+    // the in-memory backend has a built-in local user
+    if (usesLocalBackend) return;
     let mounted = true;
 
     supabase.auth.getSession().then(({ data }) => {
@@ -82,6 +86,9 @@ export default function App() {
           <Route path="/login" element={<Login />} />
           <Route path="/signup" element={<Signup />} />
 
+          {/* Public: a voucher opened from a share link */}
+          <Route path="/s/:shareId" element={<SharedVoucher />} />
+
           {/* ✅ Fallback */}
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import type { Voucher } from "../types";
+import { vouchersRepo } from "../data";
+import type { BulkAction, BulkResult } from "../data/bulk";
+import { runBulk } from "../data/bulk";
+import { categories } from "../lib/voucher";
+
+const controlClass =
+  "rounded-lg bg-neutral-900 border border-neutral-700 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-sky-600";
+
+const plural = (n: number) => `${n} voucher${n === 1 ? "" : "s"}`;
+
+// Select-all for the filtered list and the actions that apply to every
+// selected voucher. Failures are listed per voucher.
+export default function BulkActionsBar({
+  selected,
+  shown,
+  canEdit,
+  onToggleAll,
+  onClear,
+  onExport,
+  onDone,
+}: {
+  selected: Voucher[];
+  // how many vouchers the filters currently show
+  shown: number;
+  canEdit: boolean;
+  onToggleAll: () => void;
+  onClear: () => void;
+  onExport: (vouchers: Voucher[]) => void;
+  onDone: (action: BulkAction, result: BulkResult) => void;
+}) {
+  const [category, setCategory] = useState("");
+  const [expiry, setExpiry] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [report, setReport] = useState<{ verb: string; result: BulkResult } | null>(null);
+  const n = selected.length;
+
+  async function run(action: BulkAction, question: string, verb: string) {
+    if (!confirm(question)) return;
+    setBusy(true);
+    setReport(null);
+    const result = await runBulk(vouchersRepo, selected, action);
+    setBusy(false);
+    setReport({ verb, result });
+    onDone(action, result);
+  }
+
+  return (
+    <div className="mb-3 space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-neutral-300">
+          <input type="checkbox" checked={n > 0 && n === shown} onChange={onToggleAll} />
+          {n ? `${n} of ${shown} selected` : `Select all ${shown}`}
+        </label>
+
+        {n > 0 && (
+          <>
+            <button onClick={onClear} className="text-neutral-400 hover:text-neutral-200">
+              Clear
+            </button>
+            <button
+              disabled={busy}
+              onClick={() => onExport(selected)}
+              className="px-2 py-1 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50"
+            >
+              Export
+            </button>
+          </>
+        )}
+
+        {n > 0 && canEdit && (
+          <>
+            <button
+              disabled={busy}
+              onClick={() =>
+                run(
+                  { type: "mark", used: true },
+                  `Mark ${plural(n)} as used? Whatever is left on them is recorded as spent.`,
+                  "Marked as used"
+                )
+              }
+              className="px-2 py-1 rounded-lg bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50"
+            >
+              Mark used
+            </button>
+            <button
+              disabled={busy}
+              onClick={() =>
+                run(
+                  { type: "mark", used: false },
+                  `Mark ${plural(n)} as unused? Their used amounts are reset to 0.`,
+                  "Marked as unused"
+                )
+              }
+              className="px-2 py-1 rounded-lg bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50"
+            >
+              Mark unused
+            </button>
+
+            <select
+              disabled={busy}
+              className={controlClass}
+              value={category}
+              onChange={(e) => {
+                const c = e.target.value;
+                setCategory("");
+                if (c)
+                  run({ type: "update", patch: { category: c } }, `Move ${plural(n)} to ${c}?`, `Moved to ${c}`);
+              }}
+              title="Change category"
+            >
+              <option value="">Category…</option>
+              {categories.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+
+            <span className="flex items-center gap-1">
+              <input
+                type="date"
+                disabled={busy}
+                className={controlClass}
+                value={expiry}
+                onChange={(e) => setExpiry(e.target.value)}
+                title="New expiry date; leave empty to remove it"
+              />
+              <button
+                disabled={busy}
+                onClick={() =>
+                  run(
+                    { type: "update", patch: { expires_on: expiry || null } },
+                    expiry
+                      ? `Set the expiry of ${plural(n)} to ${new Date(expiry).toLocaleDateString()}?`
+                      : `Remove the expiry date from ${plural(n)}?`,
+                    expiry ? "Expiry set" : "Expiry removed"
+                  )
+                }
+                className="px-2 py-1 rounded-lg bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50"
+              >
+                Set expiry
+              </button>
+            </span>
+
+            <button
+              disabled={busy}
+              onClick={() =>
+                run({ type: "delete" }, `Move ${plural(n)} to the trash?`, "Moved to the trash")
+              }
+              className="px-2 py-1 rounded-lg bg-red-600 hover:bg-red-500 disabled:opacity-50"
+            >
+              Delete
+            </button>
+          </>
+        )}
+
+        {busy && <span className="text-neutral-400 animate-pulse">Working…</span>}
+      </div>
+
+      {report && (
+        <div
+          className={`rounded-lg border px-3 py-2 space-y-1 ${
+            report.result.failed.length
+              ? "border-amber-500/30 bg-amber-500/10 text-amber-200"
+              : "border-neutral-800 bg-neutral-900/60 text-neutral-300"
+          }`}
+        >
+          <div className="flex items-center gap-2">
+            <span className="flex-1">
+              {report.verb}: {plural(report.result.done.length)}
+              {report.result.unchanged > 0 && ` · ${report.result.unchanged} already that way`}
+              {report.result.failed.length > 0 && ` · ${report.result.failed.length} failed`}
+            </span>
+            <button onClick={() => setReport(null)} className="text-neutral-400 hover:text-neutral-200">
+              ✕
+            </button>
+          </div>
+          {report.result.failed.map((f) => (
+            <div key={f.voucher.id} className="text-xs">
+              {f.voucher.name}: {f.error}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
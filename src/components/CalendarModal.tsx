@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import type { Voucher } from "../types";
+import type { CalendarFeedMeta } from "../data";
+import { calendarFeed, vouchersRepo } from "../data";
+import {
+  ALARM_CHOICES,
+  DEFAULT_ALARMS,
+  alarmLabel,
+  buildExpiryCalendar,
+  calendarVouchers,
+} from "../lib/ics";
+
+export default function CalendarModal({ list, onClose }: { list: Voucher[]; onClose: () => void }) {
+  // local const so the null check below carries into the click handlers
+  const feedApi = calendarFeed;
+  const [alarms, setAlarms] = useState<number[]>(DEFAULT_ALARMS);
+  const [feed, setFeed] = useState<CalendarFeedMeta | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    vouchersRepo.currentUserId().then(setUserId);
+    calendarFeed?.load().then((meta) => {
+      setFeed(meta);
+      if (meta) setAlarms(meta.alarms);
+    });
+  }, []);
+
+  const count = calendarVouchers(list).length;
+  const feedUrl = feed && userId && feedApi ? feedApi.url(userId, feed) : null;
+
+  function toggleAlarm(days: number) {
+    setAlarms((a) =>
+      a.includes(days) ? a.filter((d) => d !== days) : [...a, days].sort((x, y) => x - y)
+    );
+  }
+
+  async function download() {
+    const { saveAs } = await import("file-saver");
+    saveAs(
+      new Blob([buildExpiryCalendar(list, alarms)], { type: "text/calendar;charset=utf-8" }),
+      "voucher-expiries.ics"
+    );
+  }
+
+  async function run(action: () => Promise<CalendarFeedMeta | null>) {
+    setBusy(true);
+    try {
+      setFeed(await action());
+    } catch (e) {
+      alert((e as Error).message);
+    }
+    setBusy(false);
+  }
+
+  async function copyUrl() {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch {
+      alert("Couldn't access the clipboard");
+    }
+  }
+
+  const alarmsChanged = !!feed && feed.alarms.join() !== alarms.join();
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-neutral-950 border border-neutral-800 p-6 rounded-2xl w-[90%] max-w-lg space-y-4 max-h-[90vh] overflow-auto">
+        <h3 className="text-lg font-semibold">Expiry calendar</h3>
+        <p className="text-sm text-neutral-400">
+          {count} active vouchers in this wallet have an expiry date. Each becomes an all-day event
+          showing the remaining balance.
+        </p>
+
+        <div className="space-y-2">
+          <div className="text-sm text-neutral-300">Reminders</div>
+          <div className="flex flex-wrap gap-2">
+            {ALARM_CHOICES.map((d) => (
+              <label
+                key={d}
+                className="flex items-center gap-2 rounded-lg border border-neutral-800 px-2 py-1 text-sm"
+              >
+                <input type="checkbox" checked={alarms.includes(d)} onChange={() => toggleAlarm(d)} />
+                {alarmLabel(d)}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <button
+          onClick={download}
+          disabled={count === 0}
+          className="w-full bg-sky-600 hover:bg-sky-500 disabled:opacity-50 py-2 rounded-lg"
+        >
+          Download .ics
+        </button>
+
+        {feedApi && (
+          <div className="rounded-xl border border-neutral-800 p-4 space-y-3 text-sm">
+            <div className="font-medium">Subscribe from a calendar app</div>
+            <p className="text-neutral-400">
+              A private link that updates whenever your vouchers change, covering all of your
+              wallets. Anyone with the link sees voucher names and balances (never codes or PINs).
+            </p>
+            {!feed ? (
+              <button
+                disabled={busy}
+                onClick={() => run(() => feedApi.enable(alarms))}
+                className="px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50"
+              >
+                Create feed link
+              </button>
+            ) : (
+              <>
+                {feedUrl && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      readOnly
+                      value={feedUrl}
+                      className="flex-1 rounded-lg bg-neutral-900 border border-neutral-700 px-2 py-1 font-mono text-xs"
+                      onFocus={(e) => e.currentTarget.select()}
+                    />
+                    <button onClick={copyUrl} className="text-xs text-neutral-400 hover:text-neutral-200">
+                      {copied ? "Copied" : "Copy"}
+                    </button>
+                    <a
+                      href={feedUrl.replace(/^https?:/, "webcal:")}
+                      className="text-xs text-neutral-400 hover:text-neutral-200"
+                    >
+                      Open
+                    </a>
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {alarmsChanged && (
+                    <button
+                      disabled={busy}
+                      onClick={() => run(() => feedApi.setAlarms(alarms))}
+                      className="px-3 py-1.5 rounded-lg bg-sky-600 hover:bg-sky-500 disabled:opacity-50"
+                    >
+                      Use these reminders in the feed
+                    </button>
+                  )}
+                  <button
+                    disabled={busy}
+                    onClick={() =>
+                      confirm("Create a new link? The current one stops working.") &&
+                      run(() => feedApi.reset())
+                    }
+                    className="px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50"
+                  >
+                    New link
+                  </button>
+                  <button
+                    disabled={busy}
+                    onClick={() =>
+                      run(async () => {
+                        await feedApi.disable();
+                        return null;
+                      })
+                    }
+                    className="px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50"
+                  >
+                    Turn off
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full bg-neutral-800 hover:bg-neutral-700 py-2 rounded-lg"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import type { Draft } from "../lib/drafts";
+import { cleanNumString } from "../lib/format";
+import { categories } from "../lib/voucher";
+
+const inputCls =
+  "rounded-lg bg-neutral-900 border border-neutral-700 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-sky-600";
+
+// Review grid for vouchers read from messages: tick, correct, then insert
+export default function DraftTable({
+  drafts,
+  onChange,
+}: {
+  drafts: Draft[];
+  onChange: (i: number, patch: Partial<Draft>) => void;
+}) {
+  return (
+    <div className="overflow-auto">
+      <table className="w-full text-sm">
+        <thead className="text-neutral-400 text-left">
+          <tr>
+            <th className="py-1 pr-2"></th>
+            <th className="py-1 pr-2">Name</th>
+            <th className="py-1 pr-2">Value</th>
+            <th className="py-1 pr-2">Category</th>
+            <th className="py-1 pr-2">Code</th>
+            <th className="py-1 pr-2">PIN</th>
+            <th className="py-1 pr-2">Expiry</th>
+          </tr>
+        </thead>
+        <tbody>
+          {drafts.map((d, i) => (
+            <tr key={i} className="border-t border-neutral-800 align-top">
+              <td className="py-2 pr-2">
+                <input
+                  type="checkbox"
+                  checked={d.include}
+                  onChange={(e) => onChange(i, { include: e.target.checked })}
+                />
+              </td>
+              <td className="py-2 pr-2">
+                <input
+                  className={inputCls}
+                  value={d.name}
+                  onChange={(e) => onChange(i, { name: e.target.value })}
+                />
+                <div className="mt-1 text-xs text-neutral-500">
+                  {d.source}
+                  {d.duplicate && <span className="text-amber-300"> · already in wallet</span>}
+                </div>
+              </td>
+              <td className="py-2 pr-2">
+                <input
+                  className={`${inputCls} w-24 ${d.value ? "" : "border-amber-500"}`}
+                  inputMode="decimal"
+                  value={d.value}
+                  onChange={(e) => onChange(i, { value: cleanNumString(e.target.value) })}
+                />
+              </td>
+              <td className="py-2 pr-2">
+                <select
+                  className={inputCls}
+                  value={d.category}
+                  onChange={(e) => onChange(i, { category: e.target.value })}
+                >
+                  {categories.map((c) => (
+                    <option key={c} value={c}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+              </td>
+              <td className="py-2 pr-2">
+                <input
+                  className={`${inputCls} font-mono`}
+                  value={d.code}
+                  onChange={(e) => onChange(i, { code: e.target.value })}
+                />
+              </td>
+              <td className="py-2 pr-2">
+                <input
+                  className={`${inputCls} font-mono w-24`}
+                  value={d.pin}
+                  onChange={(e) => onChange(i, { pin: e.target.value })}
+                />
+              </td>
+              <td className="py-2 pr-2">
+                <input
+                  type="date"
+                  className={`${inputCls} ${d.expires_on ? "" : "border-amber-500"}`}
+                  value={d.expires_on}
+                  onChange={(e) => onChange(i, { expires_on: e.target.value })}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import type { Voucher } from "../types";
+import type { VoucherInput } from "../data";
+import type { DuplicateChoice } from "../lib/duplicates";
+import { MASKED, inr, maskSecret } from "../lib/format";
+import { isEncrypted } from "../lib/crypto";
+import { remaining } from "../lib/voucher";
+import { usePrivacyMode } from "../hooks/usePrivacyMode";
+
+type Props = {
+  existing: Voucher;
+  incoming: VoucherInput;
+  // what "Overwrite" does differs between adding and editing
+  overwriteHint: string;
+  onChoose: (choice: DuplicateChoice) => void;
+};
+
+export default function DuplicateModal({ existing, incoming, overwriteHint, onChoose }: Props) {
+  const privacy = usePrivacyMode();
+  const money = (n: number) => (privacy ? MASKED : inr(n));
+  const code = (c: string | null) => (!c ? "-" : isEncrypted(c) ? "🔒 Locked" : maskSecret(c, 4));
+
+  const rows: [string, string, string][] = [
+    ["Name", existing.name, incoming.name],
+    ["Value", money(existing.value), money(incoming.value)],
+    [
+      "Remaining",
+      money(remaining(existing)),
+      money(remaining({ value: incoming.value, spent: incoming.spent ?? 0 })),
+    ],
+    ["Code", code(existing.code), code(incoming.code)],
+    ["Expiry", existing.expires_on?.slice(0, 10) ?? "-", incoming.expires_on ?? "-"],
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-neutral-950 border border-neutral-800 p-6 rounded-2xl w-[90%] max-w-lg space-y-4">
+        <h3 className="text-lg font-semibold">Looks like a duplicate</h3>
+        <p className="text-sm text-neutral-400">
+          {existing.code ? "A voucher with the same code" : "A voucher with the same name, value and expiry"}{" "}
+          is already in your wallet.
+        </p>
+
+        <table className="w-full text-sm">
+          <thead className="text-neutral-400">
+            <tr>
+              <th />
+              <th className="text-left py-1">In wallet</th>
+              <th className="text-left py-1">New</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(([label, a, b]) => (
+              <tr key={label} className="border-t border-neutral-800">
+                <td className="py-1 text-neutral-500">{label}</td>
+                <td className="py-1">{a}</td>
+                <td className={`py-1 ${a !== b ? "text-amber-300" : ""}`}>{b}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="text-xs text-neutral-500">Overwrite: {overwriteHint}</p>
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => onChoose("skip")}
+            className="flex-1 bg-neutral-800 hover:bg-neutral-700 py-2 rounded-lg"
+          >
+            Skip
+          </button>
+          <button
+            onClick={() => onChoose("overwrite")}
+            className="flex-1 bg-amber-600 hover:bg-amber-500 py-2 rounded-lg"
+          >
+            Overwrite
+          </button>
+          <button
+            onClick={() => onChoose("keep")}
+            className="flex-1 bg-sky-600 hover:bg-sky-500 py-2 rounded-lg"
+          >
+            Keep both
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useMemo, useState } from "react";
+import type { Voucher } from "../types";
+import { vouchersRepo } from "../data";
+import { mergeDuplicates } from "../data/dedupe";
+import { duplicateGroups, mergePlan } from "../lib/duplicates";
+import { MASKED, inr, maskSecret } from "../lib/format";
+import { useVaultStatus } from "../hooks/useVaultStatus";
+import { usePrivacyMode } from "../hooks/usePrivacyMode";
+
+// Cleanup screen: lists vouchers that look like the same card and merges each
+// group into the one the user keeps
+export default function DuplicatesModal({
+  list,
+  onMerged,
+  onClose,
+}: {
+  list: Voucher[];
+  onMerged: () => void;
+  onClose: () => void;
+}) {
+  const groups = useMemo(() => duplicateGroups(list), [list]);
+  // group key (oldest id) -> id of the voucher to keep; defaults to the oldest
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const vaultStatus = useVaultStatus();
+  const privacy = usePrivacyMode();
+  const money = (n: number) => (privacy ? MASKED : inr(n));
+
+  async function merge(group: Voucher[]) {
+    const keepId = keepIds[group[0].id] ?? group[0].id;
+    const keep = group.find((v) => v.id === keepId)!;
+    const others = group.filter((v) => v.id !== keepId);
+    if (!confirm(`Merge ${others.length} duplicate(s) into "${keep.name}"? The duplicates go to the trash.`))
+      return;
+    setBusy(group[0].id);
+    try {
+      await mergeDuplicates(vouchersRepo, keep, others);
+    } catch (e) {
+      alert((e as Error).message);
+    }
+    setBusy(null);
+    onMerged();
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-neutral-950 border border-neutral-800 p-6 rounded-2xl w-[95%] max-w-3xl space-y-4 max-h-[90vh] overflow-auto">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold">Duplicates</h3>
+            <div className="text-sm text-neutral-400">
+              Pick the voucher to keep in each group. Used amounts from the others are added to it.
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-sm"
+          >
+            Close
+          </button>
+        </div>
+
+        {vaultStatus === "locked" && (
+          <p className="text-sm text-amber-300">Unlock encryption to also compare encrypted codes.</p>
+        )}
+        {groups.length === 0 && <p className="text-neutral-400 text-sm">No duplicates found.</p>}
+
+        {groups.map((group) => {
+          const keepId = keepIds[group[0].id] ?? group[0].id;
+          const keep = group.find((v) => v.id === keepId)!;
+          const { entries } = mergePlan(keep, group.filter((v) => v.id !== keepId));
+          const carried = entries.reduce((a, t) => a + t.amount, 0);
+          return (
+            <div key={group[0].id} className="rounded-xl border border-neutral-800 p-4 space-y-2">
+              <div className="text-sm text-neutral-400">
+                {group[0].code ? `Code ${maskSecret(group[0].code, 4)}` : "Same name, value and expiry"}
+              </div>
+              {group.map((v) => (
+                <label key={v.id} className="flex items-center gap-3 text-sm">
+                  <input
+                    type="radio"
+                    name={`keep-${group[0].id}`}
+                    checked={v.id === keepId}
+                    onChange={() => setKeepIds((m) => ({ ...m, [group[0].id]: v.id }))}
+                  />
+                  <span className="flex-1 truncate">{v.name}</span>
+                  <span className="text-neutral-400">{money(v.value)}</span>
+                  <span className="text-neutral-400">used {money(v.spent)}</span>
+                  <span className="text-neutral-500">
+                    added {new Date(v.created_at).toLocaleDateString()}
+                  </span>
+                </label>
+              ))}
+              <div className="flex items-center justify-between pt-1">
+                <span className="text-xs text-neutral-500">
+                  Adds {money(carried)} used to “{keep.name}”
+                </span>
+                <button
+                  disabled={busy !== null}
+                  onClick={() => merge(group)}
+                  className="px-3 py-1.5 rounded-lg bg-sky-600 hover:bg-sky-500 disabled:opacity-50 text-sm"
+                >
+                  {busy === group[0].id ? "Merging…" : "Merge"}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import type { VoucherTransfer } from "../types";
+
+// Read-only record of vouchers this wallet gave away
+export default function GiftedVouchers({
+  gifts,
+  money,
+}: {
+  gifts: VoucherTransfer[];
+  money: (n: number) => string;
+}) {
+  if (!gifts.length) return null;
+
+  return (
+    <details className="mt-6 rounded-2xl border border-neutral-800 bg-neutral-950/60 p-5">
+      <summary className="cursor-pointer font-semibold">Gifted ({gifts.length})</summary>
+      <div className="mt-3 divide-y divide-neutral-800 text-sm">
+        {gifts.map((t) => (
+          <div key={t.id} className="py-2 flex flex-wrap gap-x-3 gap-y-1">
+            <span className="font-medium">{t.snapshot.name}</span>
+            <span className="text-neutral-400">
+              {money(t.snapshot.value - t.snapshot.spent)} of {money(t.snapshot.value)} handed over
+            </span>
+            <span className="text-neutral-400">to {t.to_email}</span>
+            <span className="text-neutral-500">
+              {new Date(t.responded_at ?? t.created_at).toLocaleDateString()}
+              {t.from_email && ` · by ${t.from_email}`}
+            </span>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
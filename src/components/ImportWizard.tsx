@@ -0,0 +1,342 @@
+import { useEffect, useMemo, useState } from "react";
+import type { Voucher } from "../types";
+import { vouchersRepo } from "../data";
+import { overwriteVoucher } from "../data/dedupe";
+import type { DuplicateChoice } from "../lib/duplicates";
+import { duplicateChoiceLabels, duplicateKey } from "../lib/duplicates";
+import type { ColumnMapping, ImportField, PreviewRow, Sheet, ValidRow } from "../lib/importer";
+import { fieldLabels, guessMapping, importFields, readSheet, validateRows } from "../lib/importer";
+import { inr } from "../lib/format";
+
+type Step = "map" | "preview" | "report";
+
+type Report = {
+  inserted: ValidRow[];
+  overwritten: ValidRow[];
+  skipped: { row: PreviewRow; reason: string }[];
+  failed: { row: ValidRow; reason: string }[];
+};
+
+const CHUNK = 50;
+
+// A row that matches a voucher already in the wallet, or an earlier row of the file
+type RowDuplicate = { existing: Voucher } | { line: number };
+
+const selectCls =
+  "rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600";
+
+export default function ImportWizard({
+  file,
+  existing,
+  onClose,
+  onImported,
+}: {
+  file: File;
+  existing: Voucher[];
+  onClose: () => void;
+  onImported: () => void;
+}) {
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [step, setStep] = useState<Step>("map");
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [report, setReport] = useState<Report | null>(null);
+  const [onDuplicate, setOnDuplicate] = useState<DuplicateChoice>("skip");
+
+  useEffect(() => {
+    readSheet(file)
+      .then((s) => {
+        setSheet(s);
+        setMapping(guessMapping(s.headers));
+      })
+      .catch((e) => setReadError((e as Error).message));
+  }, [file]);
+
+  const preview = useMemo(
+    () => (sheet && mapping ? validateRows(sheet, mapping) : []),
+    [sheet, mapping]
+  );
+  const valid = preview.filter((r): r is ValidRow => r.ok);
+  const selected = valid.filter((r) => !excluded.has(r.line));
+
+  const duplicates = useMemo(() => {
+    const byKey = new Map<string, RowDuplicate>();
+    for (const v of existing) {
+      const key = duplicateKey(v);
+      if (key && !byKey.has(key)) byKey.set(key, { existing: v });
+    }
+    const out = new Map<number, RowDuplicate>();
+    for (const r of preview) {
+      if (!r.ok) continue;
+      const key = duplicateKey(r.input);
+      if (!key) continue;
+      const hit = byKey.get(key);
+      if (hit) out.set(r.line, hit);
+      else byKey.set(key, { line: r.line });
+    }
+    return out;
+  }, [existing, preview]);
+
+  const describeDuplicate = (d: RowDuplicate) =>
+    "existing" in d ? `Already in wallet as "${d.existing.name}"` : `Same voucher as row ${d.line}`;
+
+  function toggle(line: number) {
+    setExcluded((s) => {
+      const next = new Set(s);
+      if (next.has(line)) next.delete(line);
+      else next.add(line);
+      return next;
+    });
+  }
+
+  // Inserts in chunks; a failed chunk is retried row by row to pin down the bad rows
+  async function runImport() {
+    setBusy(true);
+    const out: Report = {
+      inserted: [],
+      overwritten: [],
+      skipped: preview
+        .filter((r) => !r.ok || excluded.has(r.line))
+        .map((row) => ({
+          row,
+          // `=== false` narrows in the build's non-strict config too
+          reason: row.ok === false ? row.errors.join("; ") : "Excluded in preview",
+        })),
+      failed: [],
+    };
+
+    // Duplicates of earlier rows in the file only go in with "Keep both"
+    const toCreate: ValidRow[] = [];
+    for (const row of selected) {
+      const dup = onDuplicate === "keep" ? undefined : duplicates.get(row.line);
+      if (!dup) toCreate.push(row);
+      else if (onDuplicate === "overwrite" && "existing" in dup) {
+        try {
+          await overwriteVoucher(vouchersRepo, dup.existing, row.input);
+          out.overwritten.push(row);
+        } catch (e) {
+          out.failed.push({ row, reason: (e as Error).message });
+        }
+      } else out.skipped.push({ row, reason: describeDuplicate(dup) });
+    }
+
+    // Ids are fixed up front: a chunk can fail after some of its rows went in
+    // (the offline queue inserts one at a time, PINs follow the insert), and
+    // the retry must find those rows instead of inserting them again
+    const pending = toCreate.map((row) => ({ row, input: { ...row.input, id: crypto.randomUUID() } }));
+    for (let i = 0; i < pending.length; i += CHUNK) {
+      const chunk = pending.slice(i, i + CHUNK);
+      try {
+        await vouchersRepo.createMany(chunk.map((c) => c.input));
+        out.inserted.push(...chunk.map((c) => c.row));
+      } catch {
+        for (const { row, input } of chunk) {
+          try {
+            const existing = await vouchersRepo.get(input.id);
+            if (!existing) await vouchersRepo.create(input);
+            else if (input.pin && existing.pin !== input.pin)
+              await vouchersRepo.update(input.id, { pin: input.pin });
+            out.inserted.push(row);
+          } catch (e) {
+            out.failed.push({ row, reason: (e as Error).message });
+          }
+        }
+      }
+    }
+
+    setReport(out);
+    setStep("report");
+    setBusy(false);
+    if (out.inserted.length || out.overwritten.length) onImported();
+  }
+
+  const rowName = (r: PreviewRow) => (r.ok ? r.input.name : String(r.raw[mapping?.name ?? ""] ?? ""));
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-neutral-950 border border-neutral-800 p-6 rounded-2xl w-[95%] max-w-4xl space-y-4 max-h-[90vh] overflow-auto">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold">Import — {file.name}</h3>
+            <div className="text-sm text-neutral-400">
+              {step === "map" && "Step 1 of 3: match your columns to voucher fields"}
+              {step === "preview" && "Step 2 of 3: check every row before importing"}
+              {step === "report" && "Step 3 of 3: import result"}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-sm"
+          >
+            Close
+          </button>
+        </div>
+
+        {readError && <p className="text-red-400 text-sm">Couldn't read this file: {readError}</p>}
+        {!sheet && !readError && <div className="animate-pulse text-neutral-400">Reading…</div>}
+        {sheet && sheet.rows.length === 0 && <p className="text-neutral-400 text-sm">No rows found.</p>}
+
+        {/* Step 1: mapping */}
+        {step === "map" && sheet && mapping && sheet.rows.length > 0 && (
+          <>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {importFields.map((f: ImportField) => (
+                <label key={f} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-neutral-300">
+                    {fieldLabels[f]}
+                    {(f === "name" || f === "value") && <span className="text-red-400"> *</span>}
+                  </span>
+                  <select
+                    className={`${selectCls} w-56`}
+                    value={mapping[f]}
+                    onChange={(e) => setMapping({ ...mapping, [f]: e.target.value })}
+                  >
+                    <option value="">— not in file —</option>
+                    {sheet.headers.map((h) => (
+                      <option key={h} value={h}>
+                        {h}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <button
+                disabled={!mapping.name || !mapping.value}
+                onClick={() => setStep("preview")}
+                className="px-4 py-2 rounded-xl bg-sky-600 hover:bg-sky-500 disabled:opacity-50"
+              >
+                Preview {sheet.rows.length} rows
+              </button>
+            </div>
+          </>
+        )}
+
+        {/* Step 2: preview */}
+        {step === "preview" && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-neutral-300">
+              <span>
+                {valid.length} valid, {preview.length - valid.length} with errors, {duplicates.size}{" "}
+                duplicates. {selected.length} selected.
+              </span>
+              {duplicates.size > 0 && (
+                <label className="flex items-center gap-2">
+                  Duplicates:
+                  <select
+                    className={selectCls}
+                    value={onDuplicate}
+                    onChange={(e) => setOnDuplicate(e.target.value as DuplicateChoice)}
+                  >
+                    {(["skip", "overwrite", "keep"] as const).map((c) => (
+                      <option key={c} value={c}>
+                        {duplicateChoiceLabels[c]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+            <div className="overflow-auto max-h-[55vh]">
+              <table className="w-full text-sm">
+                <thead className="text-neutral-300 sticky top-0 bg-neutral-950">
+                  <tr>
+                    <th className="text-left py-2">Row</th>
+                    <th className="text-left py-2">Import</th>
+                    <th className="text-left py-2">Name</th>
+                    <th className="text-left py-2">Value</th>
+                    <th className="text-left py-2">Used</th>
+                    <th className="text-left py-2">Category</th>
+                    <th className="text-left py-2">Expiry</th>
+                    <th className="text-left py-2">Problems</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((r) => (
+                    <tr key={r.line} className={`border-t border-neutral-800 ${r.ok ? "" : "text-red-300"}`}>
+                      <td className="py-2">{r.line}</td>
+                      <td className="py-2">
+                        <input
+                          type="checkbox"
+                          disabled={!r.ok}
+                          checked={r.ok && !excluded.has(r.line)}
+                          onChange={() => toggle(r.line)}
+                        />
+                      </td>
+                      <td className="py-2">{rowName(r) || "-"}</td>
+                      {r.ok === false ? (
+                        <td className="py-2" colSpan={5}>
+                          {r.errors.join("; ")}
+                        </td>
+                      ) : (
+                        <>
+                          <td className="py-2">{inr(r.input.value)}</td>
+                          <td className="py-2">{inr(r.input.spent ?? 0)}</td>
+                          <td className="py-2">{r.input.category}</td>
+                          <td className="py-2">{r.input.expires_on ?? "-"}</td>
+                          <td className="py-2 text-amber-300">
+                            {duplicates.has(r.line) && describeDuplicate(duplicates.get(r.line)!)}
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex justify-between">
+              <button
+                onClick={() => setStep("map")}
+                className="px-4 py-2 rounded-xl bg-neutral-800 hover:bg-neutral-700"
+              >
+                Back
+              </button>
+              <button
+                disabled={busy || selected.length === 0}
+                onClick={runImport}
+                className="px-4 py-2 rounded-xl bg-sky-600 hover:bg-sky-500 disabled:opacity-50"
+              >
+                {busy ? "Importing…" : `Import ${selected.length} vouchers`}
+              </button>
+            </div>
+          </>
+        )}
+
+        {/* Step 3: report */}
+        {step === "report" && report && (
+          <div className="space-y-3 text-sm">
+            <div className="flex gap-4">
+              <span className="text-emerald-300">{report.inserted.length} inserted</span>
+              {report.overwritten.length > 0 && (
+                <span className="text-amber-300">{report.overwritten.length} overwritten</span>
+              )}
+              <span className="text-neutral-300">{report.skipped.length} skipped</span>
+              <span className="text-red-300">{report.failed.length} failed</span>
+            </div>
+            {[
+              { title: "Failed", items: report.failed },
+              { title: "Skipped", items: report.skipped },
+            ].map(
+              ({ title, items }) =>
+                items.length > 0 && (
+                  <div key={title}>
+                    <h4 className="font-semibold mb-1">{title}</h4>
+                    <ul className="space-y-1 text-neutral-400">
+                      {items.map(({ row, reason }) => (
+                        <li key={row.line}>
+                          Row {row.line} ({rowName(row) || "no name"}): {reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
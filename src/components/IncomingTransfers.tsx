@@ -0,0 +1,83 @@
+import { useState } from "react";
+import type { VoucherTransfer } from "../types";
+import { transfers } from "../data";
+import { useWallets } from "../hooks/useWallets";
+
+// Vouchers other people are offering the signed-in user
+export default function IncomingTransfers({
+  offers,
+  money,
+  onChanged,
+}: {
+  offers: VoucherTransfer[];
+  money: (n: number) => string;
+  // after an accept / decline; `walletId` is where an accepted voucher went
+  onChanged: (walletId?: string) => void;
+}) {
+  const { wallets: list, activeId } = useWallets();
+  const writable = list.filter((w) => w.role !== "viewer");
+  const fallback = writable.find((w) => w.id === activeId)?.id ?? writable[0]?.id ?? "";
+  const [target, setTarget] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+
+  async function respond(t: VoucherTransfer, accept: boolean) {
+    if (!transfers) return;
+    const walletId = target[t.id] || fallback;
+    setBusy(t.id);
+    try {
+      if (accept) await transfers.accept(t.id, walletId);
+      else await transfers.close(t.id);
+      onChanged(accept ? walletId : undefined);
+    } catch (e) {
+      alert((e as Error).message);
+      onChanged();
+    }
+    setBusy(null);
+  }
+
+  if (!offers.length) return null;
+
+  return (
+    <div className="mb-6 rounded-2xl border border-sky-800 bg-sky-950/30 p-4 space-y-3">
+      <h2 className="font-semibold">Vouchers offered to you</h2>
+      {offers.map((t) => (
+        <div key={t.id} className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="flex-1 min-w-60">
+            <span className="font-medium">{t.snapshot.name}</span> ·{" "}
+            {money(t.snapshot.value - t.snapshot.spent)} left
+            {t.snapshot.expires_on && ` · expires ${new Date(t.snapshot.expires_on).toLocaleDateString()}`}
+            <span className="text-neutral-400"> · from {t.from_email ?? "someone"}</span>
+          </span>
+          {writable.length > 1 && (
+            <select
+              className="rounded-lg bg-neutral-900 border border-neutral-700 px-2 py-1"
+              value={target[t.id] || fallback}
+              onChange={(e) => setTarget((m) => ({ ...m, [t.id]: e.target.value }))}
+              title="Wallet to add it to"
+            >
+              {writable.map((w) => (
+                <option key={w.id} value={w.id}>
+                  {w.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            disabled={busy !== null || !fallback}
+            onClick={() => respond(t, true)}
+            className="px-3 py-1.5 rounded-lg bg-sky-600 hover:bg-sky-500 disabled:opacity-50"
+          >
+            Accept
+          </button>
+          <button
+            disabled={busy !== null}
+            onClick={() => respond(t, false)}
+            className="px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50"
+          >
+            Decline
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import type { TransactionKind, Voucher, VoucherTransaction } from "../types";
+import type { NewTransaction } from "../lib/ledger";
+import { isReversed, kindLabel, signedAmount, withRunningBalance } from "../lib/ledger";
+import { cleanNumString, inr } from "../lib/format";
+
+type Props = {
+  voucher: Voucher;
+  entries: VoucherTransaction[];
+  loading: boolean;
+  onRecord: (entry: NewTransaction) => Promise<boolean>;
+  onReverse: (entry: VoucherTransaction) => void;
+  onClose: () => void;
+};
+
+const inputCls =
+  "rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600";
+
+export default function LedgerModal({ voucher, entries, loading, onRecord, onReverse, onClose }: Props) {
+  const [kind, setKind] = useState<TransactionKind>("credit");
+  const [amount, setAmount] = useState("");
+  const [merchant, setMerchant] = useState("");
+  const [note, setNote] = useState("");
+  const [when, setWhen] = useState("");
+
+  const rows = withRunningBalance(voucher.value, entries);
+
+  async function submit() {
+    const amt = Number(amount);
+    if (!Number.isFinite(amt) || amt <= 0) return alert("Amount must be > 0");
+    const ok = await onRecord({
+      kind,
+      // adjustments entered here reduce spent (e.g. a correction), use Usage to add
+      amount: kind === "adjustment" ? -amt : amt,
+      merchant: merchant.trim() || null,
+      note: note.trim() || null,
+      occurred_at: when ? new Date(when).toISOString() : undefined,
+    });
+    if (!ok) return;
+    setAmount("");
+    setMerchant("");
+    setNote("");
+    setWhen("");
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-neutral-950 border border-neutral-800 p-6 rounded-2xl w-[95%] max-w-2xl space-y-4 max-h-[90vh] overflow-auto">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold">History — {voucher.name}</h3>
+            <div className="text-sm text-neutral-400">
+              {inr(voucher.value)} • Used {inr(voucher.spent)} • Remaining{" "}
+              {inr(Math.max(0, (voucher.value || 0) - (voucher.spent || 0)))}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-sm"
+          >
+            Close
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="animate-pulse text-neutral-400">Loading…</div>
+        ) : rows.length === 0 ? (
+          <div className="text-neutral-400 text-sm">No transactions yet.</div>
+        ) : (
+          <div className="overflow-auto">
+            <table className="w-full text-sm">
+              <thead className="text-neutral-300">
+                <tr>
+                  <th className="text-left py-2">When</th>
+                  <th className="text-left py-2">Type</th>
+                  <th className="text-left py-2">Amount</th>
+                  <th className="text-left py-2">Merchant / Note</th>
+                  <th className="text-left py-2">Balance</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ entry: t, balance }) => {
+                  const reversed = isReversed(t, entries);
+                  const delta = signedAmount(t);
+                  return (
+                    <tr
+                      key={t.id}
+                      className={`border-t border-neutral-800 ${reversed ? "text-neutral-500 line-through" : ""}`}
+                    >
+                      <td className="py-2">{new Date(t.occurred_at).toLocaleString()}</td>
+                      <td className="py-2">{kindLabel[t.kind]}</td>
+                      <td className={`py-2 ${delta > 0 ? "text-rose-300" : "text-emerald-300"}`}>
+                        {delta > 0 ? "−" : "+"} {inr(Math.abs(delta))}
+                      </td>
+                      <td className="py-2">
+                        {t.merchant && <div>{t.merchant}</div>}
+                        {t.note && <div className="text-neutral-400">{t.note}</div>}
+                      </td>
+                      <td className="py-2">{inr(balance)}</td>
+                      <td className="py-2 text-right">
+                        {!reversed && !t.reverses && (
+                          <button
+                            onClick={() => onReverse(t)}
+                            className="px-2 py-1 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-xs"
+                          >
+                            Reverse
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* New entry */}
+        <div className="border-t border-neutral-800 pt-4 grid gap-3 sm:grid-cols-2">
+          <select className={inputCls} value={kind} onChange={(e) => setKind(e.target.value as TransactionKind)}>
+            <option value="credit">Refund (adds balance)</option>
+            <option value="debit">Usage (spends balance)</option>
+            <option value="adjustment">Correction (adds balance)</option>
+          </select>
+          <input
+            className={inputCls}
+            placeholder="Amount"
+            type="text"
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => setAmount(cleanNumString(e.target.value))}
+          />
+          <input
+            className={inputCls}
+            placeholder="Merchant (optional)"
+            value={merchant}
+            onChange={(e) => setMerchant(e.target.value)}
+          />
+          <input
+            className={inputCls}
+            type="datetime-local"
+            value={when}
+            onChange={(e) => setWhen(e.target.value)}
+          />
+          <input
+            className={`${inputCls} sm:col-span-2`}
+            placeholder="Note (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <button
+            onClick={submit}
+            className="sm:col-span-2 bg-sky-600 hover:bg-sky-500 py-2 rounded-lg"
+          >
+            Add entry
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
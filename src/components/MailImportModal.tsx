@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import type { Voucher } from "../types";
+import { vouchersRepo } from "../data";
+import type { Draft } from "../lib/drafts";
+import { draftInputs, toDraft } from "../lib/drafts";
+import { bytesToBinary, mailCandidates, parseMail, splitMbox } from "../lib/mail";
+import type { Mail, MailCandidate } from "../lib/mail";
+import DraftTable from "./DraftTable";
+
+const CHUNK = 50;
+
+const sourceOf = (c: MailCandidate) =>
+  [c.source, c.mail.subject || "(no subject)", c.mail.date && new Date(c.mail.date).toLocaleDateString()]
+    .filter(Boolean)
+    .join(" · ");
+
+// Reads an .eml / .mbox export in the browser and lists the vouchers found
+// in it for review; nothing leaves the device until the user adds them
+export default function MailImportModal({
+  file,
+  existing,
+  onClose,
+  onImported,
+}: {
+  file: File;
+  existing: Voucher[];
+  onClose: () => void;
+  onImported: () => void;
+}) {
+  const [drafts, setDrafts] = useState<Draft[] | null>(null);
+  const [scanned, setScanned] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // parsing runs once per file; the wallet it was checked against is the one at open time
+  const [against] = useState(existing);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        const raw = splitMbox(bytesToBinary(new Uint8Array(await file.arrayBuffer())));
+        const mails: Mail[] = [];
+        for (let i = 0; i < raw.length && alive; i++) {
+          mails.push(parseMail(raw[i]));
+          // let the progress count paint on big archives
+          if (i % 100 === 99) {
+            setScanned(i + 1);
+            await new Promise((r) => setTimeout(r));
+          }
+        }
+        if (!alive) return;
+        setScanned(mails.length);
+        setDrafts(mailCandidates(mails).map((c) => toDraft(c, against, sourceOf(c))));
+      } catch (e) {
+        if (alive) setError((e as Error).message);
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [file, against]);
+
+  const update = (i: number, patch: Partial<Draft>) =>
+    setDrafts((ds) => ds!.map((d, j) => (j === i ? { ...d, ...patch } : d)));
+
+  async function save() {
+    const inputs = draftInputs(drafts!);
+    if (typeof inputs === "string") return alert(inputs);
+    setProgress({ done: 0, total: inputs.length });
+    for (let i = 0; i < inputs.length; i += CHUNK) {
+      try {
+        await vouchersRepo.createMany(inputs.slice(i, i + CHUNK));
+      } catch (e) {
+        alert(`Stopped after ${i} voucher(s): ${(e as Error).message}`);
+        break;
+      }
+      setProgress({ done: Math.min(i + CHUNK, inputs.length), total: inputs.length });
+    }
+    onImported();
+    onClose();
+  }
+
+  const selected = drafts?.filter((d) => d.include).length ?? 0;
+  const duplicates = drafts?.filter((d) => d.duplicate).length ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-neutral-950 border border-neutral-800 p-6 rounded-2xl w-[95%] max-w-5xl space-y-4 max-h-[90vh] overflow-auto">
+        <div>
+          <h3 className="text-lg font-semibold">Import from mail — {file.name}</h3>
+          <div className="text-sm text-neutral-400">
+            {error
+              ? error
+              : drafts
+                ? `${scanned} message(s) read · ${drafts.length} voucher(s) found${
+                    duplicates ? ` · ${duplicates} already in your wallet` : ""
+                  }`
+                : `Reading messages… ${scanned || ""}`}
+          </div>
+        </div>
+
+        {drafts?.length === 0 && (
+          <p className="text-sm text-amber-300">No voucher codes found in these messages.</p>
+        )}
+        {drafts && drafts.length > 0 && <DraftTable drafts={drafts} onChange={update} />}
+
+        <div className="flex gap-3">
+          <button
+            disabled={!selected || progress !== null}
+            onClick={save}
+            className="flex-1 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 py-2 rounded-lg"
+          >
+            {progress ? `Adding… ${progress.done}/${progress.total}` : `Add ${selected} voucher(s)`}
+          </button>
+          <button onClick={onClose} className="flex-1 bg-neutral-800 hover:bg-neutral-700 py-2 rounded-lg">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useNotifications } from "../hooks/useNotifications";
+import { notificationState } from "../lib/notificationState";
+import type { NotificationRule } from "../lib/notifications";
+import { ruleLabels } from "../lib/notifications";
+
+const DAY = 86_400_000;
+
+const snoozeOptions = [
+  { label: "1 day", ms: DAY },
+  { label: "1 week", ms: 7 * DAY },
+];
+
+const inputCls =
+  "w-20 rounded-lg bg-neutral-900 border border-neutral-700 px-2 py-1 focus:outline-none focus:ring-2 focus:ring-sky-600";
+
+// Bell + dropdown in the TopBar
+export default function NotificationCenter({ userKey }: { userKey: string | null }) {
+  const { items, unread, settings } = useNotifications(userKey);
+  const [open, setOpen] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const panel = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+
+  // close on outside click
+  useEffect(() => {
+    if (!open) return;
+    const onDown = (e: MouseEvent) => {
+      if (panel.current && !panel.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", onDown);
+    return () => document.removeEventListener("mousedown", onDown);
+  }, [open]);
+
+  async function setBrowser(on: boolean) {
+    if (on && typeof Notification !== "undefined" && Notification.permission !== "granted") {
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") return alert("Notifications are blocked for this site");
+    }
+    notificationState.setSettings({ browser: on });
+  }
+
+  const setNumber = (key: "expiringDays" | "lowBalance" | "staleMonths", raw: string) => {
+    const n = Number(raw);
+    if (Number.isFinite(n) && n >= 0) notificationState.setSettings({ [key]: n });
+  };
+
+  return (
+    <div className="relative" ref={panel}>
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="relative px-3 py-2 rounded-xl text-neutral-300 hover:bg-neutral-800"
+        title="Notifications"
+      >
+        🔔
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] rounded-full bg-red-600 px-1 text-[0.65rem] leading-[1.1rem] text-white">
+            {unread > 99 ? "99+" : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-96 max-h-[70vh] overflow-auto rounded-2xl border border-neutral-800 bg-neutral-950 p-3 shadow-xl space-y-2 z-20">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold">Notifications</span>
+            <div className="flex gap-3 text-xs text-neutral-400">
+              {unread > 0 && (
+                <button
+                  onClick={() => notificationState.markRead(items.map((n) => n.id))}
+                  className="hover:text-neutral-200"
+                >
+                  Mark all read
+                </button>
+              )}
+              <button onClick={() => setShowSettings((s) => !s)} className="hover:text-neutral-200">
+                {showSettings ? "Done" : "Settings"}
+              </button>
+            </div>
+          </div>
+
+          {showSettings ? (
+            <div className="space-y-2 text-sm">
+              {(Object.keys(ruleLabels) as NotificationRule[]).map((rule) => (
+                <label key={rule} className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={settings.rules[rule]}
+                      onChange={(e) =>
+                        notificationState.setSettings({
+                          rules: { ...settings.rules, [rule]: e.target.checked },
+                        })
+                      }
+                    />
+                    {ruleLabels[rule]}
+                  </span>
+                  {rule === "expiring" && (
+                    <span className="text-neutral-400">
+                      within{" "}
+                      <input
+                        className={inputCls}
+                        type="number"
+                        min={0}
+                        value={settings.expiringDays}
+                        onChange={(e) => setNumber("expiringDays", e.target.value)}
+                      />{" "}
+                      days
+                    </span>
+                  )}
+                  {rule === "lowBalance" && (
+                    <span className="text-neutral-400">
+                      below ₹{" "}
+                      <input
+                        className={inputCls}
+                        type="number"
+                        min={0}
+                        value={settings.lowBalance}
+                        onChange={(e) => setNumber("lowBalance", e.target.value)}
+                      />
+                    </span>
+                  )}
+                  {rule === "stale" && (
+                    <span className="text-neutral-400">
+                      over{" "}
+                      <input
+                        className={inputCls}
+                        type="number"
+                        min={1}
+                        value={settings.staleMonths}
+                        onChange={(e) => setNumber("staleMonths", e.target.value)}
+                      />{" "}
+                      months
+                    </span>
+                  )}
+                </label>
+              ))}
+              <label className="flex items-center gap-2 pt-2 border-t border-neutral-800">
+                <input
+                  type="checkbox"
+                  checked={settings.browser}
+                  onChange={(e) => setBrowser(e.target.checked)}
+                />
+                Browser alerts while the app is open
+              </label>
+            </div>
+          ) : items.length === 0 ? (
+            <p className="text-sm text-neutral-400 py-4 text-center">Nothing needs your attention.</p>
+          ) : (
+            items.map((n) => (
+              <div
+                key={n.id}
+                className={`rounded-xl border border-neutral-800 p-3 text-sm ${
+                  n.read ? "opacity-70" : "bg-neutral-900"
+                }`}
+              >
+                <button
+                  className="block w-full text-left"
+                  onClick={() => {
+                    notificationState.markRead([n.id]);
+                    setOpen(false);
+                    navigate(`/vouchers?focus=${n.voucherId}`);
+                  }}
+                >
+                  <div className="flex items-center gap-2">
+                    {!n.read && <span className="h-2 w-2 rounded-full bg-sky-400" />}
+                    <span className="font-medium">{n.title}</span>
+                  </div>
+                  <div className="text-neutral-400">{n.body}</div>
+                </button>
+                <div className="mt-2 flex gap-3 text-xs text-neutral-400">
+                  {snoozeOptions.map((o) => (
+                    <button
+                      key={o.label}
+                      onClick={() => notificationState.snooze(n.id, Date.now() + o.ms)}
+                      className="hover:text-neutral-200"
+                    >
+                      Snooze {o.label}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => notificationState.dismiss(n.id)}
+                    className="ml-auto hover:text-neutral-200"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import type { Voucher } from "../types";
+import { vouchersRepo } from "../data";
+import type { Draft } from "../lib/drafts";
+import { draftInputs, toDraft } from "../lib/drafts";
+import { parseMessage } from "../lib/messages";
+import DraftTable from "./DraftTable";
+
+// "Paste message": pulls vouchers out of a gift card email / SMS and lets the
+// user check every field before they are added
+export default function PasteMessageModal({
+  existing,
+  onClose,
+  onAdded,
+}: {
+  existing: Voucher[];
+  onClose: () => void;
+  onAdded: () => void;
+}) {
+  const [message, setMessage] = useState("");
+  const [drafts, setDrafts] = useState<Draft[] | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const update = (i: number, patch: Partial<Draft>) =>
+    setDrafts((ds) => ds!.map((d, j) => (j === i ? { ...d, ...patch } : d)));
+
+  function parse() {
+    setDrafts(parseMessage(message).map((p) => toDraft(p, existing)));
+  }
+
+  async function save() {
+    const inputs = draftInputs(drafts!);
+    if (typeof inputs === "string") return alert(inputs);
+    setSaving(true);
+    try {
+      await vouchersRepo.createMany(inputs);
+    } catch (e) {
+      setSaving(false);
+      return alert((e as Error).message);
+    }
+    onAdded();
+    onClose();
+  }
+
+  const selected = drafts?.filter((d) => d.include).length ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-neutral-950 border border-neutral-800 p-6 rounded-2xl w-[95%] max-w-4xl space-y-4 max-h-[90vh] overflow-auto">
+        <h3 className="text-lg font-semibold">Paste message</h3>
+
+        <textarea
+          className="w-full h-40 rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-600"
+          placeholder="Paste the gift card email or SMS here"
+          value={message}
+          onChange={(e) => {
+            setMessage(e.target.value);
+            setDrafts(null);
+          }}
+        />
+
+        {drafts?.length === 0 && (
+          <p className="text-sm text-amber-300">No voucher codes found in this message.</p>
+        )}
+
+        {drafts && drafts.length > 0 && (
+          <DraftTable drafts={drafts} onChange={update} />
+        )}
+
+        <div className="flex gap-3">
+          {drafts && drafts.length > 0 ? (
+            <button
+              disabled={saving || !selected}
+              onClick={save}
+              className="flex-1 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 py-2 rounded-lg"
+            >
+              {saving ? "Adding…" : `Add ${selected} voucher(s)`}
+            </button>
+          ) : (
+            <button
+              disabled={!message.trim()}
+              onClick={parse}
+              className="flex-1 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 py-2 rounded-lg"
+            >
+              Find vouchers
+            </button>
+          )}
+          <button onClick={onClose} className="flex-1 bg-neutral-800 hover:bg-neutral-700 py-2 rounded-lg">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
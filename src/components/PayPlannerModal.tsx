@@ -0,0 +1,162 @@
+import { useMemo, useState } from "react";
+import type { Voucher } from "../types";
+import { vouchersRepo } from "../data";
+import { applyPaymentPlan } from "../data/checkout";
+import { MASKED, cleanNumString, inr } from "../lib/format";
+import { planPayment } from "../lib/planner";
+import { categories, daysUntilExpiry, remaining } from "../lib/voucher";
+import { usePrivacyMode } from "../hooks/usePrivacyMode";
+
+const inputCls =
+  "rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600";
+
+// Checkout helper: suggests which vouchers to combine for a purchase and
+// records all the usages at once
+export default function PayPlannerModal({
+  list,
+  onApplied,
+  onClose,
+}: {
+  list: Voucher[];
+  onApplied: () => void;
+  onClose: () => void;
+}) {
+  const [amount, setAmount] = useState("");
+  const [merchant, setMerchant] = useState("");
+  const [category, setCategory] = useState("");
+  const [note, setNote] = useState("");
+  const [exclude, setExclude] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const privacy = usePrivacyMode();
+  const money = (n: number) => (privacy ? MASKED : inr(n));
+
+  const total = Number(amount.replace(/^0+(?=\d)/, "")) || 0;
+  const plan = useMemo(
+    () => planPayment(list, { amount: total, merchant: merchant.trim(), category, exclude }),
+    [list, total, merchant, category, exclude]
+  );
+
+  async function apply() {
+    if (!plan.lines.length) return;
+    const summary = plan.lines.map((l) => `${l.voucher.name}: ${inr(l.amount)}`).join("\n");
+    if (!confirm(`Record these usages?\n\n${summary}`)) return;
+    setBusy(true);
+    try {
+      await applyPaymentPlan(vouchersRepo, plan.lines, {
+        merchant: merchant.trim() || null,
+        note: note.trim() || `Split payment of ${inr(total)}`,
+      });
+      onApplied();
+      onClose();
+    } catch (e) {
+      // balances moved underneath the plan; refresh so it is re-planned
+      alert((e as Error).message);
+      onApplied();
+    }
+    setBusy(false);
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-neutral-950 border border-neutral-800 p-6 rounded-2xl w-[95%] max-w-lg space-y-4 max-h-[90vh] overflow-auto">
+        <h3 className="text-lg font-semibold">Pay with vouchers</h3>
+
+        <div className="grid grid-cols-2 gap-3">
+          <input
+            className={inputCls}
+            placeholder="Amount to pay"
+            type="text"
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => setAmount(cleanNumString(e.target.value))}
+          />
+          <select className={inputCls} value={category} onChange={(e) => setCategory(e.target.value)}>
+            <option value="">Any category</option>
+            {categories.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+          <input
+            className={inputCls}
+            placeholder="Merchant (optional)"
+            value={merchant}
+            onChange={(e) => setMerchant(e.target.value)}
+          />
+          <input
+            className={inputCls}
+            placeholder="Note (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </div>
+
+        {total > 0 && (
+          <div className="space-y-2">
+            {plan.lines.length === 0 ? (
+              <p className="text-sm text-neutral-400">No active vouchers match this purchase.</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {plan.lines.map(({ voucher: v, amount: a }) => {
+                  const days = daysUntilExpiry(v);
+                  return (
+                    <li key={v.id} className="flex items-center gap-3 rounded-xl border border-neutral-800 px-3 py-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate">{v.name}</div>
+                        <div className="text-xs text-neutral-500">
+                          {money(remaining(v))} left
+                          {days !== null && ` · expires ${days === 0 ? "today" : `in ${days}d`}`}
+                        </div>
+                      </div>
+                      <span className="font-medium">{money(a)}</span>
+                      {a < remaining(v) && (
+                        <span className="text-xs text-neutral-500">leaves {money(remaining(v) - a)}</span>
+                      )}
+                      <button
+                        onClick={() => setExclude((x) => [...x, v.id])}
+                        className="text-neutral-500 hover:text-neutral-200"
+                        title="Don't use this voucher"
+                      >
+                        ✕
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            <div className="flex justify-between text-sm">
+              <span className="text-neutral-400">Covered by vouchers</span>
+              <span>{money(plan.covered)}</span>
+            </div>
+            {plan.shortfall > 0 && (
+              <div className="flex justify-between text-sm text-amber-300">
+                <span>Still to pay</span>
+                <span>{money(plan.shortfall)}</span>
+              </div>
+            )}
+            {exclude.length > 0 && (
+              <button onClick={() => setExclude([])} className="text-xs text-sky-400 hover:text-sky-300">
+                Include {exclude.length} skipped voucher(s) again
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            disabled={busy || !plan.lines.length}
+            onClick={apply}
+            className="flex-1 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 py-2 rounded-lg"
+          >
+            {busy ? "Recording…" : "Apply"}
+          </button>
+          <button onClick={onClose} className="flex-1 bg-neutral-800 hover:bg-neutral-700 py-2 rounded-lg">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from "react";
+import JsBarcode from "jsbarcode";
+import QRCode from "qrcode";
+import type { BarcodeFormat, Voucher } from "../types";
+import { vouchersRepo } from "../data";
+import { useWalletRole } from "../hooks/useWallets";
+import { barcodeFormatOf, barcodeFormats, barcodeProblem } from "../lib/barcode";
+import { isEncrypted } from "../lib/crypto";
+import { inr } from "../lib/format";
+import { remaining } from "../lib/voucher";
+
+// Full-screen, black-on-white view for showing a voucher at the till:
+// scannable code, PIN and balance in large type, screen kept awake
+export default function RedeemView({
+  voucher,
+  onChanged,
+  onClose,
+}: {
+  voucher: Voucher;
+  onChanged: (v: Voucher) => void;
+  onClose: () => void;
+}) {
+  const code = voucher.code ?? "";
+  const locked = isEncrypted(voucher.code) || isEncrypted(voucher.pin);
+  const format = barcodeFormatOf(voucher);
+  const problem = locked ? null : barcodeProblem(format, code);
+  const [saving, setSaving] = useState(false);
+  const canEdit = useWalletRole() !== "viewer";
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (locked || problem) return;
+    if (format === "qr") {
+      if (canvasRef.current)
+        QRCode.toCanvas(canvasRef.current, code, { width: 320, margin: 2, errorCorrectionLevel: "M" }).catch(
+          () => {}
+        );
+    } else if (svgRef.current) {
+      JsBarcode(svgRef.current, code, {
+        format: format === "ean13" ? "EAN13" : "CODE128",
+        width: 3,
+        height: 140,
+        margin: 16,
+        displayValue: false,
+        background: "#ffffff",
+        lineColor: "#000000",
+      });
+    }
+  }, [code, format, locked, problem]);
+
+  // keep the display on and take over the screen while the cashier scans
+  useEffect(() => {
+    let lock: WakeLockSentinel | null = null;
+    let closed = false;
+    navigator.wakeLock
+      ?.request("screen")
+      .then((l) => {
+        if (closed) l.release().catch(() => {});
+        else lock = l;
+      })
+      .catch(() => {});
+    document.documentElement.requestFullscreen?.().catch(() => {});
+    return () => {
+      closed = true;
+      lock?.release().catch(() => {});
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  async function chooseFormat(next: BarcodeFormat) {
+    if (next === format) return;
+    // viewers can switch the symbology for this showing, but not save it
+    if (!canEdit) return onChanged({ ...voucher, barcode_format: next });
+    setSaving(true);
+    try {
+      onChanged(
+        await vouchersRepo.update(voucher.id, { barcode_format: next }, { expectedVersion: voucher.version })
+      );
+    } catch (e) {
+      alert((e as Error).message);
+    }
+    setSaving(false);
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-white text-black overflow-auto">
+      <div className="min-h-full max-w-xl mx-auto flex flex-col items-center gap-6 p-6 text-center">
+        <div className="w-full flex items-center justify-between">
+          <h2 className="text-2xl font-bold truncate">{voucher.name}</h2>
+          <button onClick={onClose} className="px-4 py-2 rounded-lg border-2 border-black font-semibold">
+            Done
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          {barcodeFormats.map((f) => (
+            <button
+              key={f.key}
+              disabled={saving}
+              onClick={() => chooseFormat(f.key)}
+              className={`px-3 py-1.5 rounded-lg border-2 border-black text-sm font-semibold ${
+                f.key === format ? "bg-black text-white" : "bg-white text-black"
+              }`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="min-h-[200px] w-full grid place-items-center">
+          {locked ? (
+            <p className="text-lg">Unlock encryption to show the code.</p>
+          ) : problem ? (
+            <p className="text-lg">{problem}</p>
+          ) : format === "qr" ? (
+            <canvas ref={canvasRef} className="max-w-full" />
+          ) : (
+            <svg ref={svgRef} className="max-w-full h-auto" />
+          )}
+        </div>
+
+        {!locked && (
+          <div className="space-y-4 w-full">
+            {code && (
+              <div>
+                <div className="text-sm uppercase tracking-widest">Code</div>
+                <div className="font-mono text-3xl font-bold break-all">{code}</div>
+              </div>
+            )}
+            {voucher.pin && (
+              <div>
+                <div className="text-sm uppercase tracking-widest">PIN</div>
+                <div className="font-mono text-4xl font-bold tracking-widest">{voucher.pin}</div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div>
+          <div className="text-sm uppercase tracking-widest">Balance</div>
+          <div className="text-5xl font-extrabold">{inr(remaining(voucher))}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from "react";
+import type { Voucher } from "../types";
+import { vouchersRepo } from "../data";
+import type { RestoreResult } from "../data/backup";
+import { applyRestore } from "../data/backup";
+import type { Backup, RestoreMode } from "../lib/backup";
+import { parseBackup, planRestore } from "../lib/backup";
+import { isTrashed } from "../lib/trash";
+import { useWallets } from "../hooks/useWallets";
+
+const modeHelp: Record<RestoreMode, string> = {
+  merge: "Add vouchers from the backup that aren't in your wallets yet. Nothing is deleted.",
+  replace: "Move every voucher in your wallets to the trash, then restore the backup exactly.",
+};
+
+export default function RestoreModal({
+  file,
+  onClose,
+  onRestored,
+}: {
+  file: File;
+  onClose: () => void;
+  onRestored: () => void;
+}) {
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  // like the backup itself, the restore covers every wallet the user can write to
+  const [current, setCurrent] = useState<Voucher[] | null>(null);
+  const { wallets, activeId: walletId } = useWallets();
+  const writable = useMemo(
+    () => wallets.filter((w) => w.role !== "viewer").map((w) => w.id),
+    [wallets]
+  );
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [progress, setProgress] = useState<[number, number] | null>(null);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+
+  useEffect(() => {
+    file
+      .text()
+      .then(parseBackup)
+      .then(setBackup)
+      .catch((e) => setReadError((e as Error).message));
+    vouchersRepo.currentUserId().then(setUserId);
+    vouchersRepo
+      .listEditable()
+      .then((all) => setCurrent(all.filter((v) => !isTrashed(v))))
+      .catch((e) => setReadError((e as Error).message));
+  }, [file]);
+
+  // dry run, recomputed as the mode changes
+  const plan = useMemo(
+    () =>
+      backup && current ? planRestore(backup, current, mode, userId, writable, walletId) : null,
+    [backup, current, mode, userId, writable, walletId]
+  );
+
+  async function restore() {
+    if (!plan) return;
+    if (
+      plan.remove.length &&
+      !confirm(`Delete all ${plan.remove.length} vouchers in your wallets and restore the backup?`)
+    )
+      return;
+    setProgress([0, plan.remove.length + plan.create.length]);
+    const r = await applyRestore(vouchersRepo, plan, (done, total) => setProgress([done, total]));
+    setProgress(null);
+    setResult(r);
+    onRestored();
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-neutral-950 border border-neutral-800 p-6 rounded-2xl w-[90%] max-w-lg space-y-4 max-h-[90vh] overflow-auto">
+        <h3 className="text-lg font-semibold">Restore — {file.name}</h3>
+
+        {readError && <p className="text-red-400 text-sm">{readError}</p>}
+        {(!backup || !current) && !readError && (
+          <div className="animate-pulse text-neutral-400">Reading…</div>
+        )}
+
+        {backup && plan && !result && (
+          <>
+            <div className="text-sm text-neutral-400">
+              Backup from {new Date(backup.exported_at).toLocaleString()} with{" "}
+              {backup.vouchers.length} vouchers (format v{backup.version}).
+              {!plan.keepIds && " It comes from another account, so vouchers get new ids."}
+            </div>
+
+            <div className="grid gap-2">
+              {(["merge", "replace"] as const).map((m) => (
+                <label key={m} className="flex items-start gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="restore-mode"
+                    className="mt-1"
+                    checked={mode === m}
+                    onChange={() => setMode(m)}
+                  />
+                  <span>
+                    <span className="font-medium capitalize">{m}</span>
+                    <span className="block text-neutral-400">{modeHelp[m]}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <div className="rounded-xl border border-neutral-800 p-3 text-sm space-y-1">
+              <div className="font-medium">Dry run</div>
+              <div className="text-emerald-300">{plan.create.length} to restore</div>
+              {plan.remove.length > 0 && (
+                <div className="text-red-300">{plan.remove.length} current vouchers moved to the trash</div>
+              )}
+              {plan.skip.length > 0 && (
+                <details className="text-neutral-400">
+                  <summary>{plan.skip.length} skipped</summary>
+                  <ul className="mt-1 space-y-0.5">
+                    {plan.skip.map(({ voucher, reason }) => (
+                      <li key={voucher.id}>
+                        {voucher.name}: {reason}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          </>
+        )}
+
+        {result && (
+          <div className="text-sm space-y-1">
+            <div className="text-emerald-300">{result.restored} restored</div>
+            {result.removed > 0 && <div className="text-neutral-300">{result.removed} moved to the trash</div>}
+            {result.failed.length > 0 && (
+              <ul className="text-red-300 space-y-0.5">
+                {result.failed.map(({ voucher, reason }) => (
+                  <li key={voucher.id}>
+                    {voucher.name}: {reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          {!result && (
+            <button
+              disabled={!plan || progress !== null || plan.create.length + plan.remove.length === 0}
+              onClick={restore}
+              className="flex-1 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 py-2 rounded-lg"
+            >
+              {progress ? `Restoring ${progress[0]}/${progress[1]}…` : "Restore"}
+            </button>
+          )}
+          <button
+            disabled={progress !== null}
+            onClick={onClose}
+            className="flex-1 bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50 py-2 rounded-lg"
+          >
+            {result ? "Done" : "Cancel"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
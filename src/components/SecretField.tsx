@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { isEncrypted } from "../lib/crypto";
+import { copySecret, CLIPBOARD_CLEAR_MS } from "../lib/clipboard";
+import { maskSecret } from "../lib/format";
+
+const REVEAL_MS = 10_000;
+
+type Props = {
+  label: string;
+  value: string | null;
+  // characters left visible while masked (e.g. last 4 of a code)
+  keepLast?: number;
+};
+
+// Code / PIN display: masked by default, reveal hides again after REVEAL_MS
+export default function SecretField({ label, value, keepLast = 0 }: Props) {
+  const [revealed, setRevealed] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!revealed) return;
+    const t = window.setTimeout(() => setRevealed(false), REVEAL_MS);
+    return () => window.clearTimeout(t);
+  }, [revealed]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const t = window.setTimeout(() => setCopied(false), 2000);
+    return () => window.clearTimeout(t);
+  }, [copied]);
+
+  async function copy() {
+    if (!value) return;
+    try {
+      await copySecret(value);
+      setCopied(true);
+    } catch {
+      alert("Couldn't access the clipboard");
+    }
+  }
+
+  const locked = isEncrypted(value);
+
+  return (
+    <div className="rounded-lg bg-neutral-900 border border-neutral-800 px-3 py-2 flex items-center gap-2">
+      <span className="text-neutral-500">{label}:</span>
+      <span className="font-mono truncate flex-1">
+        {!value ? "-" : locked ? "🔒 Locked" : revealed ? value : maskSecret(value, keepLast)}
+      </span>
+      {value && !locked && (
+        <>
+          <button
+            onClick={() => setRevealed((r) => !r)}
+            className="text-xs text-neutral-400 hover:text-neutral-200"
+            title={revealed ? "Hide" : `Show for ${REVEAL_MS / 1000}s`}
+          >
+            {revealed ? "Hide" : "Show"}
+          </button>
+          <button
+            onClick={copy}
+            className="text-xs text-neutral-400 hover:text-neutral-200"
+            title={`Copy (clipboard clears after ${CLIPBOARD_CLEAR_MS / 1000}s)`}
+          >
+            {copied ? "Copied" : "Copy"}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
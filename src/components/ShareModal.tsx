@@ -0,0 +1,321 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Voucher } from "../types";
+import type { ShareWithOpens } from "../data";
+import { voucherShares } from "../data";
+import { isEncrypted } from "../lib/crypto";
+import { cleanNumString } from "../lib/format";
+import type { ShareChannel } from "../lib/shareChannels";
+import { SHARE_CHANNELS, canShareNatively, sendTo } from "../lib/shareChannels";
+import {
+  DEFAULT_SHARE_HOURS,
+  SHARE_EXPIRY_CHOICES,
+  SHARE_STATE_LABELS,
+  shareState,
+} from "../lib/shareLinks";
+import type { ShareLinkInfo } from "../lib/shareTemplates";
+import { renderTemplate, templateValues, usesLink } from "../lib/shareTemplates";
+import { shareTemplateState } from "../lib/shareTemplateState";
+import { useShareTemplates } from "../hooks/useShareTemplates";
+import ShareTemplateEditor from "./ShareTemplateEditor";
+
+const inputClass =
+  "rounded-lg bg-neutral-900 border border-neutral-700 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-sky-600";
+
+const when = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+// the most recent opens listed under each link
+const OPENS_SHOWN = 5;
+
+// Sends a voucher through a message template on the chosen channel. Templates
+// with a {link} create an expiring link to a read-only page with the code and
+// PIN; earlier links are listed with when they were opened.
+export default function ShareModal({ voucher, onClose }: { voucher: Voucher; onClose: () => void }) {
+  // local const so the null check below carries into the click handlers
+  const sharesApi = voucherShares;
+  const { templates, lastUsed } = useShareTemplates();
+  const [editing, setEditing] = useState(false);
+  const [hours, setHours] = useState(DEFAULT_SHARE_HOURS);
+  const [maxViews, setMaxViews] = useState("");
+  const [passcode, setPasscode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [link, setLink] = useState<ShareLinkInfo | null>(null);
+  const [shares, setShares] = useState<ShareWithOpens[]>([]);
+  const [copied, setCopied] = useState<"url" | "message" | null>(null);
+
+  const template = templates.find((t) => t.id === lastUsed) ?? templates[0];
+  // without the backend the link lines are simply left out
+  const needsLink = usesLink(template) && !!sharesApi;
+  const message = renderTemplate(template, voucher, link);
+  const values = templateValues(template, voucher, link);
+  const lockedOut =
+    (template.includeCode && isEncrypted(voucher.code)) || (template.includePin && isEncrypted(voucher.pin));
+  const channels = SHARE_CHANNELS.filter((c) => c.key !== "native" || canShareNatively());
+
+  const reload = useCallback(async () => {
+    if (voucherShares) setShares(await voucherShares.list(voucher.id));
+  }, [voucher.id]);
+
+  useEffect(() => {
+    reload().catch(() => {
+      // offline: the list just stays empty
+    });
+  }, [reload]);
+
+  async function create() {
+    if (!sharesApi) return;
+    const views = maxViews ? Math.floor(Number(maxViews)) : null;
+    if (views !== null && !(views > 0)) return alert("View limit must be at least 1");
+    setBusy(true);
+    try {
+      const share = await sharesApi.create(voucher, {
+        hours,
+        maxViews: views,
+        passcode: passcode.trim(),
+      });
+      setLink({ url: share.url, expiresAt: share.expiresAt, passcode: !!passcode.trim() });
+      setPasscode("");
+      await reload();
+    } catch (e) {
+      alert((e as Error).message);
+    }
+    setBusy(false);
+  }
+
+  async function revoke(id: string) {
+    if (!sharesApi || !confirm("Revoke this link? It stops working straight away.")) return;
+    try {
+      await sharesApi.revoke(id);
+      await reload();
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  }
+
+  function flashCopied(what: "url" | "message") {
+    setCopied(what);
+    window.setTimeout(() => setCopied(null), 2000);
+  }
+
+  async function copyUrl() {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      flashCopied("url");
+    } catch {
+      alert("Couldn't access the clipboard");
+    }
+  }
+
+  async function send(channel: ShareChannel) {
+    try {
+      if ((await sendTo(channel, message)) && channel === "clipboard") flashCopied("message");
+    } catch {
+      alert(channel === "clipboard" ? "Couldn't access the clipboard" : "Couldn't share the message");
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-neutral-950 border border-neutral-800 p-6 rounded-2xl w-[90%] max-w-lg space-y-4 max-h-[90vh] overflow-auto">
+        <h3 className="text-lg font-semibold">Share {voucher.name}</h3>
+
+        {editing ? (
+          <ShareTemplateEditor
+            voucher={voucher}
+            initialId={template.id}
+            onDone={(id) => {
+              shareTemplateState.use(id);
+              setEditing(false);
+            }}
+          />
+        ) : (
+          <>
+            <div className="flex items-center gap-2 text-sm">
+              <select
+                className={`${inputClass} flex-1`}
+                value={template.id}
+                onChange={(e) => shareTemplateState.use(e.target.value)}
+              >
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setEditing(true)}
+                className="shrink-0 px-3 py-1 rounded-lg bg-neutral-800 hover:bg-neutral-700"
+              >
+                Edit templates
+              </button>
+            </div>
+
+            {usesLink(template) && !sharesApi && (
+              <p className="text-sm text-neutral-400">
+                Share links need the hosted backend, so the link lines are left out of the message.
+              </p>
+            )}
+
+            {needsLink && !link && (
+              <>
+                <p className="text-sm text-neutral-400">
+                  This template sends a private link to a read-only page with the code and PIN. The
+                  key to read them is part of the link, so only people you send it to can open it.
+                </p>
+
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <label className="space-y-1">
+                    <div className="text-neutral-300">Link expires after</div>
+                    <select
+                      className={`${inputClass} w-full`}
+                      value={hours}
+                      onChange={(e) => setHours(Number(e.target.value))}
+                    >
+                      {SHARE_EXPIRY_CHOICES.map((c) => (
+                        <option key={c.hours} value={c.hours}>
+                          {c.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="space-y-1">
+                    <div className="text-neutral-300">View limit</div>
+                    <input
+                      className={`${inputClass} w-full`}
+                      inputMode="numeric"
+                      placeholder="No limit"
+                      value={maxViews}
+                      onChange={(e) => setMaxViews(cleanNumString(e.target.value).replace(".", ""))}
+                    />
+                  </label>
+                  <label className="space-y-1 col-span-2">
+                    <div className="text-neutral-300">Passcode (optional)</div>
+                    <input
+                      className={`${inputClass} w-full`}
+                      placeholder="Send it separately, e.g. by phone"
+                      value={passcode}
+                      onChange={(e) => setPasscode(e.target.value)}
+                    />
+                  </label>
+                </div>
+
+                <button
+                  disabled={busy}
+                  onClick={create}
+                  className="w-full bg-sky-600 hover:bg-sky-500 disabled:opacity-50 py-2 rounded-lg"
+                >
+                  {busy ? "Creating…" : "Create link"}
+                </button>
+              </>
+            )}
+
+            {link && (
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <input
+                    readOnly
+                    value={link.url}
+                    className="flex-1 rounded-lg bg-neutral-900 border border-neutral-700 px-2 py-1 font-mono text-xs"
+                    onFocus={(e) => e.currentTarget.select()}
+                  />
+                  <button onClick={copyUrl} className="text-xs text-neutral-400 hover:text-neutral-200">
+                    {copied === "url" ? "Copied" : "Copy"}
+                  </button>
+                </div>
+                <p className="text-xs text-neutral-400">
+                  The link is only shown now; create a new one if you lose it.
+                </p>
+              </div>
+            )}
+
+            {lockedOut && (
+              <p className="text-sm text-amber-300">
+                Unlock encryption to include the code and PIN; they are left out for now.
+              </p>
+            )}
+            {(values.code || values.pin) && (
+              <p className="text-sm text-amber-300">
+                This message has the {values.code && values.pin ? "code and PIN" : values.code ? "code" : "PIN"}{" "}
+                in plain text. Anyone who can read the chat can spend the voucher.
+              </p>
+            )}
+
+            <div className="space-y-1 text-sm">
+              <div className="text-neutral-300">Preview</div>
+              <pre className="whitespace-pre-wrap break-words rounded-lg border border-neutral-800 bg-neutral-900/60 p-3 text-xs">
+                {message}
+              </pre>
+              {needsLink && !link && (
+                <p className="text-xs text-neutral-500">The link is added once you create it.</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm">
+              {channels.map((c) => (
+                <button
+                  key={c.key}
+                  disabled={needsLink && !link}
+                  onClick={() => send(c.key)}
+                  className={`py-2 rounded-lg disabled:opacity-50 ${
+                    c.key === "whatsapp"
+                      ? "bg-green-600 hover:bg-green-500"
+                      : "bg-neutral-800 hover:bg-neutral-700"
+                  }`}
+                >
+                  {c.key === "clipboard" && copied === "message" ? "Copied" : c.label}
+                </button>
+              ))}
+            </div>
+
+            {shares.length > 0 && (
+              <div className="space-y-2 text-sm">
+                <div className="text-neutral-300">Links</div>
+                {shares.map((s) => {
+                  const state = shareState(s);
+                  return (
+                    <div key={s.id} className="rounded-lg border border-neutral-800 px-3 py-2 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="flex-1">
+                          {when(s.created_at)}
+                          <span className={state === "active" ? "text-emerald-400" : "text-neutral-500"}>
+                            {" "}
+                            · {SHARE_STATE_LABELS[state]}
+                          </span>
+                        </span>
+                        {state === "active" && (
+                          <button
+                            onClick={() => revoke(s.id)}
+                            className="text-xs text-red-400 hover:text-red-300"
+                          >
+                            Revoke
+                          </button>
+                        )}
+                      </div>
+                      <div className="text-xs text-neutral-400">
+                        {s.views} view{s.views === 1 ? "" : "s"}
+                        {s.max_views !== null && ` of ${s.max_views}`} · expires {when(s.expires_at)}
+                        {s.has_passcode && " · passcode"}
+                        {s.failed_attempts > 0 && ` · ${s.failed_attempts} wrong passcode(s)`}
+                      </div>
+                      {s.opens.length > 0 && (
+                        <div className="text-xs text-neutral-500">
+                          Opened {s.opens.slice(0, OPENS_SHOWN).map(when).join(", ")}
+                          {s.opens.length > OPENS_SHOWN && ` and ${s.opens.length - OPENS_SHOWN} more`}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+
+        <button onClick={onClose} className="w-full bg-neutral-800 hover:bg-neutral-700 py-2 rounded-lg">
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useRef, useState } from "react";
+import type { Voucher } from "../types";
+import type { ShareTemplate } from "../lib/shareTemplates";
+import { TEMPLATE_FIELDS, renderTemplate, usesLink } from "../lib/shareTemplates";
+import { DEFAULT_SHARE_HOURS } from "../lib/shareLinks";
+import { shareTemplateState } from "../lib/shareTemplateState";
+import { useShareTemplates } from "../hooks/useShareTemplates";
+
+const inputClass =
+  "w-full rounded-lg bg-neutral-900 border border-neutral-700 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-sky-600";
+
+const blank = (): ShareTemplate => ({
+  id: crypto.randomUUID(),
+  name: "",
+  body: "🎁 *{name}*\n💵 Remaining: {remaining}",
+  includeCode: false,
+  includePin: false,
+});
+
+// Edits the saved share templates; the preview is filled from `voucher`
+export default function ShareTemplateEditor({
+  voucher,
+  initialId,
+  onDone,
+}: {
+  voucher: Voucher;
+  initialId: string;
+  // the template to select when leaving the editor
+  onDone: (id: string) => void;
+}) {
+  const { templates } = useShareTemplates();
+  const [draft, setDraft] = useState<ShareTemplate>(
+    () => templates.find((t) => t.id === initialId) ?? templates[0]
+  );
+  const body = useRef<HTMLTextAreaElement>(null);
+  const saved = templates.some((t) => t.id === draft.id);
+
+  // stand-in link so the preview shows where it goes
+  const sampleLink = usesLink(draft)
+    ? {
+        url: `${window.location.origin}/s/…`,
+        expiresAt: new Date(Date.now() + DEFAULT_SHARE_HOURS * 3600_000).toISOString(),
+        passcode: false,
+      }
+    : null;
+
+  function insert(field: string) {
+    const el = body.current;
+    const at = el ? el.selectionStart : draft.body.length;
+    const end = el ? el.selectionEnd : at;
+    const text = `{${field}}`;
+    setDraft((d) => ({ ...d, body: d.body.slice(0, at) + text + d.body.slice(end) }));
+    window.requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(at + text.length, at + text.length);
+    });
+  }
+
+  // Putting a secret in the message is an explicit choice, made past the warning
+  function include(field: "includeCode" | "includePin", on: boolean) {
+    const what = field === "includeCode" ? "code" : "PIN";
+    if (
+      on &&
+      !confirm(
+        `Messages from this template will carry the ${what} in plain text. ` +
+          "Anyone who can read the chat can spend the voucher. Include it anyway?"
+      )
+    )
+      return;
+    setDraft((d) => ({ ...d, [field]: on }));
+  }
+
+  function save() {
+    if (!draft.name.trim()) return alert("Give the template a name");
+    if (!draft.body.trim()) return alert("The message can't be empty");
+    shareTemplateState.save({ ...draft, name: draft.name.trim() });
+    onDone(draft.id);
+  }
+
+  function remove() {
+    if (!confirm(`Delete the "${draft.name}" template?`)) return;
+    shareTemplateState.remove(draft.id);
+    onDone(shareTemplateState.get().lastUsed);
+  }
+
+  function reset() {
+    if (!confirm("Replace all templates with the built-in ones?")) return;
+    shareTemplateState.reset();
+    onDone(shareTemplateState.get().lastUsed);
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex gap-2">
+        <select
+          className={inputClass}
+          value={saved ? draft.id : ""}
+          onChange={(e) => setDraft(templates.find((t) => t.id === e.target.value) ?? blank())}
+        >
+          {!saved && <option value="">New template</option>}
+          {templates.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setDraft(blank())}
+          className="shrink-0 px-3 rounded-lg bg-neutral-800 hover:bg-neutral-700"
+        >
+          New
+        </button>
+      </div>
+
+      <input
+        className={inputClass}
+        placeholder="Template name"
+        value={draft.name}
+        onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))}
+      />
+      <textarea
+        ref={body}
+        rows={7}
+        className={`${inputClass} font-mono text-xs`}
+        value={draft.body}
+        onChange={(e) => setDraft((d) => ({ ...d, body: e.target.value }))}
+      />
+      <div className="flex flex-wrap gap-1">
+        {TEMPLATE_FIELDS.map((f) => (
+          <button
+            key={f.key}
+            title={f.label}
+            onClick={() => insert(f.key)}
+            className="px-2 py-0.5 rounded-full bg-neutral-800 hover:bg-neutral-700 font-mono text-xs"
+          >
+            {`{${f.key}}`}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-neutral-500">
+        A line is left out when all of its placeholders are empty, e.g. no PIN or no link.
+      </p>
+
+      <div className="flex gap-4">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={draft.includeCode}
+            onChange={(e) => include("includeCode", e.target.checked)}
+          />
+          Include code
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={draft.includePin}
+            onChange={(e) => include("includePin", e.target.checked)}
+          />
+          Include PIN
+        </label>
+      </div>
+      {(draft.includeCode || draft.includePin) && (
+        <p className="text-xs text-amber-300">
+          Prefer {"{link}"}: it hands the code and PIN over through an expiring share link instead of
+          the chat itself.
+        </p>
+      )}
+
+      <div className="space-y-1">
+        <div className="text-neutral-300">Preview</div>
+        <pre className="whitespace-pre-wrap break-words rounded-lg border border-neutral-800 bg-neutral-900/60 p-3 text-xs">
+          {renderTemplate(draft, voucher, sampleLink)}
+        </pre>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button onClick={save} className="flex-1 bg-sky-600 hover:bg-sky-500 py-2 rounded-lg">
+          Save template
+        </button>
+        <button
+          onClick={() => onDone(saved ? draft.id : initialId)}
+          className="flex-1 bg-neutral-800 hover:bg-neutral-700 py-2 rounded-lg"
+        >
+          Back
+        </button>
+      </div>
+      <div className="flex justify-between text-xs">
+        {saved && templates.length > 1 ? (
+          <button onClick={remove} className="text-red-400 hover:text-red-300">
+            Delete template
+          </button>
+        ) : (
+          <span />
+        )}
+        <button onClick={reset} className="text-neutral-400 hover:text-neutral-200">
+          Restore built-in templates
+        </button>
+      </div>
+    </div>
+  );
+}
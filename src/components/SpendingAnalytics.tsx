@@ -0,0 +1,227 @@
+import type { ReactElement } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Bar,
+  BarChart,
+  Cell,
+  ComposedChart,
+  Line,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { Voucher, VoucherTransaction } from "../types";
+import { vouchersRepo } from "../data";
+import type { DateRange } from "../lib/analytics";
+import {
+  redemptionVelocity,
+  remainingByCategory,
+  remainingByName,
+  spendByMonth,
+  spendEntries,
+} from "../lib/analytics";
+
+const PALETTE = ["#38bdf8", "#34d399", "#fbbf24", "#f472b6", "#a78bfa", "#fb7185", "#2dd4bf"];
+
+const presets = [
+  { label: "3 months", months: 3 },
+  { label: "6 months", months: 6 },
+  { label: "12 months", months: 12 },
+  { label: "All time", months: 0 },
+];
+
+const tooltipStyle = { background: "#0a0a0a", border: "1px solid #262626" };
+const axis = { stroke: "#737373", fontSize: 12 };
+
+const inputCls =
+  "rounded-lg bg-neutral-900 border border-neutral-700 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-sky-600";
+
+function presetRange(months: number): DateRange {
+  if (!months) return { from: null, to: null };
+  const from = new Date();
+  from.setMonth(from.getMonth() - months + 1, 1);
+  return { from: from.toISOString().slice(0, 10), to: null };
+}
+
+// Where the money goes: spend over time, what's left where, and how fast
+// vouchers get used. Clicking a segment opens Vouchers filtered to it.
+export default function SpendingAnalytics({
+  vouchers,
+  money,
+}: {
+  vouchers: Voucher[];
+  money: (n: number) => string;
+}) {
+  const navigate = useNavigate();
+  const [entries, setEntries] = useState<VoucherTransaction[]>([]);
+  const [range, setRange] = useState<DateRange>(() => presetRange(6));
+
+  // the ledger changes whenever a voucher does
+  useEffect(() => {
+    let alive = true;
+    vouchersRepo
+      .allTransactions()
+      .then((e) => alive && setEntries(e))
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [vouchers]);
+
+  const all = useMemo(() => spendEntries(vouchers, entries), [vouchers, entries]);
+  const monthly = useMemo(() => spendByMonth(all, range), [all, range]);
+  const velocity = useMemo(() => redemptionVelocity(vouchers, all, range), [vouchers, all, range]);
+  const byCategory = useMemo(() => remainingByCategory(vouchers), [vouchers]);
+  const byName = useMemo(() => remainingByName(vouchers), [vouchers]);
+  const totalSpent = monthly.reduce((a, m) => a + m.spent, 0);
+
+  const openMonth = (month: string) => navigate(`/vouchers?active=${month}`);
+
+  return (
+    <div className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="font-semibold">Spending</h3>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {presets.map((p) => {
+            const r = presetRange(p.months);
+            const selected = r.from === range.from && r.to === range.to;
+            return (
+              <button
+                key={p.label}
+                onClick={() => setRange(r)}
+                className={`px-2 py-1 rounded-lg ${
+                  selected ? "bg-sky-600 text-white" : "bg-neutral-800 hover:bg-neutral-700"
+                }`}
+              >
+                {p.label}
+              </button>
+            );
+          })}
+          <input
+            type="date"
+            className={inputCls}
+            value={range.from ?? ""}
+            onChange={(e) => setRange((r) => ({ ...r, from: e.target.value || null }))}
+          />
+          <span className="text-neutral-500">to</span>
+          <input
+            type="date"
+            className={inputCls}
+            value={range.to ?? ""}
+            onChange={(e) => setRange((r) => ({ ...r, to: e.target.value || null }))}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Chart title="Spend per month" note={`${money(totalSpent)} in range`} empty={!monthly.length}>
+          <BarChart data={monthly}>
+            <XAxis dataKey="label" {...axis} />
+            <YAxis {...axis} width={80} tickFormatter={(n: number) => money(n)} />
+            <Tooltip formatter={(n) => money(Number(n))} contentStyle={tooltipStyle} />
+            <Bar
+              dataKey="spent"
+              name="Spent"
+              fill="#38bdf8"
+              cursor="pointer"
+              onClick={(_, i) => openMonth(monthly[i].month)}
+            />
+          </BarChart>
+        </Chart>
+
+        <Chart title="Redemption velocity" empty={!velocity.length}>
+          <ComposedChart data={velocity}>
+            <XAxis dataKey="label" {...axis} />
+            <YAxis yAxisId="count" {...axis} allowDecimals={false} />
+            <YAxis yAxisId="days" orientation="right" {...axis} unit="d" />
+            <Tooltip contentStyle={tooltipStyle} />
+            <Bar
+              yAxisId="count"
+              dataKey="redemptions"
+              name="Redemptions"
+              fill="#34d399"
+              cursor="pointer"
+              onClick={(_, i) => openMonth(velocity[i].month)}
+            />
+            <Line
+              yAxisId="days"
+              dataKey="daysToUseUp"
+              name="Avg days to use up"
+              stroke="#fbbf24"
+              connectNulls
+            />
+          </ComposedChart>
+        </Chart>
+
+        <Chart title="Remaining by category" empty={!byCategory.length}>
+          <PieChart>
+            <Pie
+              data={byCategory}
+              dataKey="value"
+              nameKey="name"
+              innerRadius={50}
+              outerRadius={90}
+              paddingAngle={3}
+              cursor="pointer"
+              onClick={(_, i) =>
+                navigate(`/vouchers?category=${encodeURIComponent(byCategory[i].name)}`)
+              }
+            >
+              {byCategory.map((c, i) => (
+                <Cell key={c.name} fill={PALETTE[i % PALETTE.length]} />
+              ))}
+            </Pie>
+            <Tooltip formatter={(n) => money(Number(n))} contentStyle={tooltipStyle} />
+          </PieChart>
+        </Chart>
+
+        <Chart title="Remaining by voucher" empty={!byName.length}>
+          <BarChart data={byName} layout="vertical">
+            <XAxis type="number" {...axis} tickFormatter={(n: number) => money(n)} />
+            <YAxis type="category" dataKey="name" {...axis} width={100} />
+            <Tooltip formatter={(n) => money(Number(n))} contentStyle={tooltipStyle} />
+            <Bar
+              dataKey="value"
+              name="Remaining"
+              fill="#a78bfa"
+              cursor="pointer"
+              onClick={(_, i) => navigate(`/vouchers?q=${encodeURIComponent(byName[i].name)}`)}
+            />
+          </BarChart>
+        </Chart>
+      </div>
+    </div>
+  );
+}
+
+function Chart({
+  title,
+  note,
+  empty,
+  children,
+}: {
+  title: string;
+  note?: string;
+  empty: boolean;
+  children: ReactElement;
+}) {
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-2">
+        <span className="text-neutral-400">{title}</span>
+        {note && <span className="text-neutral-300">{note}</span>}
+      </div>
+      {empty ? (
+        <div className="h-56 grid place-items-center text-sm text-neutral-500">No data in range</div>
+      ) : (
+        <div className="h-56">
+          <ResponsiveContainer>{children}</ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,48 @@
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { supabase } from "../supabase";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { usesLocalBackend, vault, wallets } from "../data";
+import { useVaultStatus } from "../hooks/useVaultStatus";
+import { usePrivacyMode } from "../hooks/usePrivacyMode";
+import { useWallets } from "../hooks/useWallets";
+import { privacyMode } from "../lib/privacy";
+import VaultModal from "./VaultModal";
+import NotificationCenter from "./NotificationCenter";
+import WalletsModal from "./WalletsModal";
+import type { VaultModalMode } from "./VaultModal";
 
 export default function TopBar() {
   const loc = useLocation();
   const navigate = useNavigate();
   const [email, setEmail] = useState<string | null>(null);
+  const vaultStatus = useVaultStatus();
+  const [vaultModal, setVaultModal] = useState<VaultModalMode | null>(null);
+  const vaultUser = useRef<string | null | undefined>(undefined);
+  const privacy = usePrivacyMode();
+  const walletState = useWallets();
+  const [walletsOpen, setWalletsOpen] = useState(false);
 
   useEffect(() => {
+    // encryption settings and wallets are per user: reload them (and drop the key) when the user changes
+    const loadVault = (userId: string | null) => {
+      if (vaultUser.current === userId) return;
+      vaultUser.current = userId;
+      vault.load();
+      wallets?.load();
+    };
+    if (usesLocalBackend) loadVault("local");
+
     supabase.auth.getUser().then(({ data }) => setEmail(data.user?.email ?? null));
     const { data: sub } = supabase.auth.onAuthStateChange((_e, session) => {
       setEmail(session?.user?.email ?? null);
+      if (!usesLocalBackend) loadVault(session?.user?.id ?? null);
     });
     return () => sub.subscription.unsubscribe();
   }, []);
 
   async function logout() {
+    vault.lock();
     await supabase.auth.signOut();
     navigate("/login");
   }
@@ -48,6 +75,85 @@ export default function TopBar() {
           </Link>
         </nav>
         <div className="flex items-center gap-3">
+          {wallets && email && walletState.loaded && (
+            <div className="flex items-center gap-1">
+              {walletState.wallets.length > 1 && (
+                <select
+                  value={walletState.activeId ?? ""}
+                  onChange={(e) => wallets?.switchTo(e.target.value)}
+                  className="rounded-xl bg-neutral-900 border border-neutral-700 px-2 py-2 text-sm"
+                  title="Open wallet"
+                >
+                  {walletState.wallets.map((w) => (
+                    <option key={w.id} value={w.id}>
+                      {w.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={() => setWalletsOpen(true)}
+                className="relative px-3 py-2 rounded-xl text-sm text-neutral-300 hover:bg-neutral-800"
+                title="Members, roles and invitations"
+              >
+                👥 {walletState.wallets.length > 1 ? "Wallets" : "Share"}
+                {walletState.invites.length > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] rounded-full bg-sky-600 px-1 text-[0.65rem] leading-[1.1rem] text-white">
+                    {walletState.invites.length}
+                  </span>
+                )}
+              </button>
+            </div>
+          )}
+          {(email || usesLocalBackend) && <NotificationCenter userKey={email} />}
+          <button
+            onClick={() => privacyMode.toggle()}
+            aria-pressed={privacy}
+            className={`px-3 py-2 rounded-xl text-sm transition-colors ${
+              privacy ? "bg-sky-600 text-white" : "text-neutral-300 hover:bg-neutral-800"
+            }`}
+            title="Hide balances and amounts"
+          >
+            {privacy ? "🙈 Private" : "👁 Private"}
+          </button>
+          {(email || usesLocalBackend) && vaultStatus !== "loading" && (
+            <div className="flex items-center gap-1">
+              {vaultStatus === "off" && (
+                <button
+                  onClick={() => setVaultModal("setup")}
+                  className="px-3 py-2 rounded-xl text-sm text-neutral-300 hover:bg-neutral-800"
+                  title="Encrypt codes and PINs with a passphrase"
+                >
+                  🔓 Encrypt
+                </button>
+              )}
+              {vaultStatus === "locked" && (
+                <button
+                  onClick={() => setVaultModal("unlock")}
+                  className="px-3 py-2 rounded-xl text-sm bg-amber-600/20 text-amber-300 hover:bg-amber-600/30"
+                >
+                  🔒 Unlock
+                </button>
+              )}
+              {vaultStatus === "unlocked" && (
+                <>
+                  <button
+                    onClick={() => vault.lock()}
+                    className="px-3 py-2 rounded-xl text-sm text-neutral-300 hover:bg-neutral-800"
+                    title="Forget the key until you unlock again"
+                  >
+                    🔐 Lock
+                  </button>
+                  <button
+                    onClick={() => setVaultModal("change")}
+                    className="px-2 py-2 rounded-xl text-xs text-neutral-400 hover:bg-neutral-800"
+                  >
+                    Passphrase
+                  </button>
+                </>
+              )}
+            </div>
+          )}
           {email ? (
             <>
               <span className="text-sm text-neutral-300">{email}</span>
@@ -68,6 +174,15 @@ export default function TopBar() {
           )}
         </div>
       </div>
+
+      {/* portal: the header's backdrop blur would otherwise contain the fixed overlay */}
+      {vaultModal &&
+        createPortal(
+          <VaultModal mode={vaultModal} onClose={() => setVaultModal(null)} />,
+          document.body
+        )}
+      {walletsOpen &&
+        createPortal(<WalletsModal onClose={() => setWalletsOpen(false)} />, document.body)}
     </header>
   );
 }
@@ -0,0 +1,67 @@
+import { useState } from "react";
+import type { Voucher, VoucherTransfer } from "../types";
+import { transfers } from "../data";
+import { useVaultStatus } from "../hooks/useVaultStatus";
+
+// Offers a voucher to another account by email
+export default function TransferModal({
+  voucher,
+  onClose,
+  onOffered,
+}: {
+  voucher: Voucher;
+  onClose: () => void;
+  onOffered: (t: VoucherTransfer) => void;
+}) {
+  const [email, setEmail] = useState("");
+  const [busy, setBusy] = useState(false);
+  const vaultStatus = useVaultStatus();
+
+  async function offer() {
+    if (!transfers) return;
+    setBusy(true);
+    try {
+      onOffered(await transfers.offer(voucher, email));
+      onClose();
+    } catch (e) {
+      setBusy(false);
+      alert((e as Error).message);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-neutral-950 border border-neutral-800 p-6 rounded-2xl w-[90%] max-w-md space-y-4">
+        <h3 className="text-lg font-semibold">Transfer {voucher.name}</h3>
+        <p className="text-sm text-neutral-400">
+          They accept or decline after signing in with this address. Once accepted, the voucher
+          moves to their wallet with its history and PIN, and you keep a read-only record of the
+          gift.
+          {vaultStatus !== "off" &&
+            " Its code and PIN are saved without your passphrase encryption so they can read them."}
+        </p>
+        <input
+          type="email"
+          autoFocus
+          className="w-full rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
+          placeholder="Recipient's email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && email.trim() && offer()}
+        />
+        <div className="flex gap-3">
+          <button
+            disabled={busy || !email.trim()}
+            onClick={offer}
+            className="flex-1 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 py-2 rounded-lg"
+          >
+            {busy ? "Sending…" : "Offer voucher"}
+          </button>
+          <button onClick={onClose} className="flex-1 bg-neutral-800 hover:bg-neutral-700 py-2 rounded-lg">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Voucher } from "../types";
+import { voucherShares, vouchersRepo } from "../data";
+import { TRASH_RETENTION_DAYS, daysUntilPurge } from "../lib/trash";
+import { remaining } from "../lib/voucher";
+
+// Deleted vouchers, with restore and delete-for-good. Anything left here is
+// purged automatically after the retention period.
+export default function TrashModal({
+  money,
+  onChanged,
+  onClose,
+}: {
+  money: (n: number) => string;
+  // after a restore, so the list picks it up
+  onChanged: () => void;
+  onClose: () => void;
+}) {
+  const [items, setItems] = useState<Voucher[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setItems(await vouchersRepo.trash());
+    } catch (e) {
+      alert((e as Error).message);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  async function restore(v: Voucher) {
+    setBusy(v.id);
+    try {
+      await vouchersRepo.restore(v.id);
+      onChanged();
+    } catch (e) {
+      alert((e as Error).message);
+    }
+    setBusy(null);
+    reload();
+  }
+
+  async function purge(vs: Voucher[]) {
+    const question =
+      vs.length === 1
+        ? `Delete "${vs[0].name}" for good? Its code, PIN and history can't be recovered.`
+        : `Delete all ${vs.length} vouchers in the trash for good? This can't be undone.`;
+    if (!confirm(question)) return;
+    setBusy(vs.length === 1 ? vs[0].id : "all");
+    const failed: string[] = [];
+    for (const v of vs) {
+      try {
+        await vouchersRepo.purge(v.id);
+      } catch (e) {
+        failed.push(`${v.name}: ${(e as Error).message}`);
+      }
+    }
+    if (failed.length) alert(`Couldn't delete:\n${failed.join("\n")}`);
+    setBusy(null);
+    reload();
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-neutral-950 border border-neutral-800 p-6 rounded-2xl w-[90%] max-w-lg space-y-4 max-h-[90vh] overflow-auto">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold">Trash</h3>
+            <div className="text-sm text-neutral-400">
+              Deleted vouchers are kept for {TRASH_RETENTION_DAYS} days, then removed for good.
+              {voucherShares && " Restoring one doesn't bring back its share links or transfer offer."}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-sm"
+          >
+            Close
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="animate-pulse text-neutral-400">Loading…</div>
+        ) : items.length === 0 ? (
+          <p className="text-neutral-400 text-sm">The trash is empty.</p>
+        ) : (
+          <>
+            <div className="divide-y divide-neutral-800 text-sm">
+              {items.map((v) => {
+                const days = daysUntilPurge(v);
+                return (
+                  <div key={v.id} className="py-2 flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{v.name}</div>
+                      <div className="text-xs text-neutral-400">
+                        {money(remaining(v))} left · deleted{" "}
+                        {new Date(v.deleted_at!).toLocaleDateString()} ·{" "}
+                        {days ? `removed in ${days} day${days === 1 ? "" : "s"}` : "removed soon"}
+                      </div>
+                    </div>
+                    <button
+                      disabled={busy !== null}
+                      onClick={() => restore(v)}
+                      className="px-3 py-1.5 rounded-lg bg-sky-600 hover:bg-sky-500 disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      disabled={busy !== null}
+                      onClick={() => purge([v])}
+                      className="text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+                    >
+                      Delete forever
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            <button
+              disabled={busy !== null}
+              onClick={() => purge(items)}
+              className="w-full bg-red-600 hover:bg-red-500 disabled:opacity-50 py-2 rounded-lg text-sm"
+            >
+              Empty trash
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
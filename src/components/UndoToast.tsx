@@ -0,0 +1,22 @@
+// Bottom-of-screen notice with an Undo button; the page decides when it goes away
+export default function UndoToast({
+  message,
+  onUndo,
+  onDismiss,
+}: {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}) {
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 rounded-xl border border-neutral-700 bg-neutral-900 px-4 py-3 text-sm shadow-lg">
+      <span>{message}</span>
+      <button onClick={onUndo} className="font-semibold text-sky-400 hover:text-sky-300">
+        Undo
+      </button>
+      <button onClick={onDismiss} className="text-neutral-500 hover:text-neutral-300" aria-label="Dismiss">
+        ✕
+      </button>
+    </div>
+  );
+}
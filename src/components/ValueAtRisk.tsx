@@ -0,0 +1,120 @@
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { Area, AreaChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import type { Voucher } from "../types";
+import type { ExpiryWindow } from "../lib/risk";
+import { balanceByWindow, lostValueByMonth, spendFirst } from "../lib/risk";
+import { remaining } from "../lib/voucher";
+
+const windowColors: Record<ExpiryWindow, string> = {
+  lapsed: "bg-rose-500",
+  week: "bg-amber-500",
+  month: "bg-yellow-400",
+  quarter: "bg-sky-500",
+  later: "bg-emerald-500",
+};
+
+// Dashboard panel: how much money is about to be lost, and what to spend first
+export default function ValueAtRisk({
+  vouchers,
+  money,
+}: {
+  vouchers: Voucher[];
+  money: (n: number) => string;
+}) {
+  const windows = useMemo(() => balanceByWindow(vouchers), [vouchers]);
+  const first = useMemo(() => spendFirst(vouchers), [vouchers]);
+  const lost = useMemo(() => lostValueByMonth(vouchers), [vouchers]);
+  const largest = Math.max(1, ...windows.map((w) => w.amount));
+  const totalLost = lost[lost.length - 1]?.cumulative ?? 0;
+
+  return (
+    <div className="rounded-2xl border border-neutral-800 bg-neutral-900 p-4 space-y-5">
+      <h3 className="font-semibold">Value at risk</h3>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {/* Remaining balance by expiry window */}
+        <div className="space-y-2">
+          {windows.map((w) => (
+            <div key={w.key} className="text-sm">
+              <div className="flex justify-between">
+                <span className="text-neutral-300">
+                  {w.label} <span className="text-neutral-500">({w.count})</span>
+                </span>
+                <span>{money(w.amount)}</span>
+              </div>
+              <div className="mt-1 h-2 rounded-full bg-neutral-800">
+                <div
+                  className={`h-2 rounded-full ${windowColors[w.key]}`}
+                  style={{ width: `${(w.amount / largest) * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Use these first */}
+        <div>
+          <div className="text-sm text-neutral-400 mb-2">Use these first</div>
+          {first.length === 0 ? (
+            <div className="text-sm text-neutral-500">Nothing with an upcoming expiry.</div>
+          ) : (
+            <ol className="space-y-2 text-sm">
+              {first.map(({ voucher: v, days }) => (
+                <li key={v.id} className="flex items-center gap-3">
+                  <span className="flex-1 truncate">{v.name}</span>
+                  <span className={days < 7 ? "text-amber-300" : "text-neutral-400"}>
+                    {days === 0 ? "today" : `${days}d`}
+                  </span>
+                  <span>{money(remaining(v))}</span>
+                  <Link
+                    to={`/vouchers?focus=${v.id}`}
+                    className="px-2 py-1 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-xs"
+                  >
+                    Open
+                  </Link>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+
+      {/* Lost value over time */}
+      <div>
+        <div className="flex justify-between text-sm">
+          <span className="text-neutral-400">Lost to expiry</span>
+          <span className="text-rose-300">{money(totalLost)}</span>
+        </div>
+        {lost.length > 0 ? (
+          <div className="h-40 mt-2">
+            <ResponsiveContainer>
+              <AreaChart data={lost}>
+                <XAxis dataKey="month" stroke="#737373" fontSize={12} />
+                <YAxis
+                  stroke="#737373"
+                  fontSize={12}
+                  tickFormatter={(n: number) => money(n)}
+                  width={80}
+                />
+                <Tooltip
+                  formatter={(n) => money(Number(n))}
+                  contentStyle={{ background: "#0a0a0a", border: "1px solid #262626" }}
+                />
+                <Area
+                  type="stepAfter"
+                  dataKey="cumulative"
+                  name="Total lost"
+                  stroke="#f43f5e"
+                  fill="#f43f5e33"
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <div className="text-sm text-neutral-500 mt-1">Nothing has expired unspent.</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import type { FormEvent } from "react";
+import { useState } from "react";
+import { vault } from "../data";
+
+export type VaultModalMode = "setup" | "unlock" | "change";
+
+const inputCls =
+  "w-full rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600";
+
+const titles: Record<VaultModalMode, string> = {
+  setup: "Encrypt codes & PINs",
+  unlock: "Unlock codes & PINs",
+  change: "Change passphrase",
+};
+
+export default function VaultModal({ mode, onClose }: { mode: VaultModalMode; onClose: () => void }) {
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirmNext, setConfirmNext] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    setMsg(null);
+    if (mode !== "unlock") {
+      if (next.length < 8) return setMsg("Use at least 8 characters");
+      if (next !== confirmNext) return setMsg("Passphrases don't match");
+    }
+    setBusy(true);
+    try {
+      if (mode === "setup") await vault.setup(next);
+      else if (mode === "unlock") await vault.unlock(current);
+      else await vault.changePassphrase(current, next);
+      onClose();
+    } catch (err) {
+      setMsg((err as Error).message);
+    }
+    setBusy(false);
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <form
+        onSubmit={onSubmit}
+        className="bg-neutral-950 border border-neutral-800 p-6 rounded-2xl w-[90%] max-w-sm space-y-4"
+      >
+        <h3 className="text-lg font-semibold">{titles[mode]}</h3>
+
+        {mode === "setup" && (
+          <p className="text-sm text-neutral-400">
+            Codes and PINs will be encrypted on this device before they are saved. The passphrase
+            is never sent anywhere — if you forget it, encrypted codes can't be recovered.
+          </p>
+        )}
+        {mode === "change" && (
+          <p className="text-sm text-neutral-400">
+            Every code and PIN is re-encrypted with the new passphrase.
+          </p>
+        )}
+
+        {mode !== "setup" && (
+          <input
+            className={inputCls}
+            type="password"
+            placeholder={mode === "change" ? "Current passphrase" : "Passphrase"}
+            value={current}
+            onChange={(e) => setCurrent(e.target.value)}
+            autoFocus
+            required
+          />
+        )}
+        {mode !== "unlock" && (
+          <>
+            <input
+              className={inputCls}
+              type="password"
+              placeholder="New passphrase"
+              value={next}
+              onChange={(e) => setNext(e.target.value)}
+              autoFocus={mode === "setup"}
+              required
+            />
+            <input
+              className={inputCls}
+              type="password"
+              placeholder="Repeat new passphrase"
+              value={confirmNext}
+              onChange={(e) => setConfirmNext(e.target.value)}
+              required
+            />
+          </>
+        )}
+
+        {msg && <p className="text-red-400 text-sm">{msg}</p>}
+
+        <div className="flex gap-3">
+          <button
+            disabled={busy}
+            className="flex-1 bg-sky-600 hover:bg-sky-500 disabled:opacity-60 py-2 rounded-lg"
+          >
+            {busy ? "Working…" : mode === "unlock" ? "Unlock" : "Save"}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 bg-neutral-800 hover:bg-neutral-700 py-2 rounded-lg"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
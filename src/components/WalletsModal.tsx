@@ -0,0 +1,301 @@
+import { useCallback, useEffect, useState } from "react";
+import type { WalletInvite, WalletMember, WalletRole } from "../types";
+import { vouchersRepo, wallets as walletsApi } from "../data";
+import { useVaultStatus } from "../hooks/useVaultStatus";
+import { useWallets } from "../hooks/useWallets";
+
+const ROLE_LABELS: Record<WalletRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+const inputClass =
+  "rounded-lg bg-neutral-900 border border-neutral-700 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-sky-600";
+const smallButton =
+  "px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50 text-sm";
+
+// Manage wallets: members and their roles, invitations, and who sees PINs
+export default function WalletsModal({ onClose }: { onClose: () => void }) {
+  const { wallets: list, activeId, invites } = useWallets();
+  const [selectedId, setSelectedId] = useState(activeId);
+  const [members, setMembers] = useState<WalletMember[]>([]);
+  const [sent, setSent] = useState<WalletInvite[]>([]);
+  const [me, setMe] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [newName, setNewName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<WalletInvite["role"]>("editor");
+  const [busy, setBusy] = useState(false);
+  const vaultStatus = useVaultStatus();
+
+  const selected = list.find((w) => w.id === selectedId) ?? list[0] ?? null;
+  const isOwner = selected?.role === "owner";
+  // ids, not the wallet object: the store hands out a new one on every change
+  const walletId = selected?.id;
+
+  const reload = useCallback(async () => {
+    if (!walletsApi || !walletId) return;
+    const [m, i] = await Promise.all([
+      walletsApi.members(walletId),
+      isOwner ? walletsApi.sentInvites(walletId) : Promise.resolve([]),
+    ]);
+    setMembers(m);
+    setSent(i);
+  }, [walletId, isOwner]);
+
+  useEffect(() => {
+    vouchersRepo.currentUserId().then(setMe);
+  }, []);
+
+  const walletName = selected?.name ?? "";
+  useEffect(() => setName(walletName), [walletName]);
+
+  useEffect(() => {
+    reload().catch((e) => alert((e as Error).message));
+  }, [reload]);
+
+  if (!walletsApi) return null;
+  const api = walletsApi;
+
+  async function run(action: () => Promise<unknown>) {
+    setBusy(true);
+    try {
+      await action();
+      await reload();
+    } catch (e) {
+      alert((e as Error).message);
+    }
+    setBusy(false);
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-neutral-950 border border-neutral-800 p-6 rounded-2xl w-[90%] max-w-2xl space-y-4 max-h-[90vh] overflow-auto">
+        <h3 className="text-lg font-semibold">Wallets</h3>
+
+        {invites.length > 0 && (
+          <div className="rounded-xl border border-sky-800 bg-sky-950/30 p-4 space-y-2 text-sm">
+            <div className="font-medium">Invitations</div>
+            {invites.map((i) => (
+              <div key={i.id} className="flex items-center gap-2">
+                <span className="flex-1">
+                  {i.wallet_name ?? "A wallet"} · as {ROLE_LABELS[i.role].toLowerCase()}
+                </span>
+                <button
+                  disabled={busy}
+                  onClick={() => run(() => api.acceptInvite(i.id))}
+                  className="px-3 py-1.5 rounded-lg bg-sky-600 hover:bg-sky-500 disabled:opacity-50"
+                >
+                  Join
+                </button>
+                <button
+                  disabled={busy}
+                  onClick={() => run(() => api.declineInvite(i.id))}
+                  className={smallButton}
+                >
+                  Decline
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {list.map((w) => (
+            <button
+              key={w.id}
+              onClick={() => setSelectedId(w.id)}
+              className={`px-3 py-1.5 rounded-lg text-sm border ${
+                w.id === selected?.id
+                  ? "border-sky-600 bg-sky-600/20"
+                  : "border-neutral-800 hover:bg-neutral-800"
+              }`}
+            >
+              {w.name} <span className="text-neutral-500">· {ROLE_LABELS[w.role]}</span>
+            </button>
+          ))}
+        </div>
+
+        {selected && (
+          <div className="rounded-xl border border-neutral-800 p-4 space-y-4 text-sm">
+            {isOwner ? (
+              <div className="flex gap-2">
+                <input
+                  className={`${inputClass} flex-1`}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+                <button
+                  disabled={busy || !name.trim() || name.trim() === selected.name}
+                  onClick={() => run(() => api.rename(selected.id, name))}
+                  className={smallButton}
+                >
+                  Rename
+                </button>
+              </div>
+            ) : (
+              <div className="font-medium">{selected.name}</div>
+            )}
+
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                disabled={!isOwner || busy}
+                checked={selected.viewers_see_pins}
+                onChange={(e) => run(() => api.setViewersSeePins(selected.id, e.target.checked))}
+              />
+              Viewers can see PINs
+            </label>
+
+            <div className="space-y-2">
+              <div className="text-neutral-300">Members</div>
+              {members.map((m) => (
+                <div key={m.user_id} className="flex items-center gap-2">
+                  <span className="flex-1 truncate">
+                    {m.email ?? m.user_id}
+                    {m.user_id === me && <span className="text-neutral-500"> (you)</span>}
+                  </span>
+                  {isOwner ? (
+                    <select
+                      className={inputClass}
+                      disabled={busy}
+                      value={m.role}
+                      onChange={(e) =>
+                        run(() => api.setRole(selected.id, m.user_id, e.target.value as WalletRole))
+                      }
+                    >
+                      {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                        <option key={role} value={role}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-neutral-400">{ROLE_LABELS[m.role]}</span>
+                  )}
+                  {m.user_id === me ? (
+                    <button
+                      disabled={busy}
+                      onClick={() =>
+                        confirm(`Leave ${selected.name}? You'll lose access to its vouchers.`) &&
+                        run(() => api.leave(selected.id))
+                      }
+                      className={smallButton}
+                    >
+                      Leave
+                    </button>
+                  ) : (
+                    isOwner && (
+                      <button
+                        disabled={busy}
+                        onClick={() => run(() => api.removeMember(selected.id, m.user_id))}
+                        className={smallButton}
+                      >
+                        Remove
+                      </button>
+                    )
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {isOwner && (
+              <div className="space-y-2">
+                <div className="text-neutral-300">Invite by email</div>
+                <p className="text-neutral-500 text-xs">
+                  They'll find the invitation here after signing in with that address.
+                  {vaultStatus !== "off" &&
+                    " Codes and PINs you encrypted before sharing stay unreadable to them until" +
+                      " you next change your passphrase; in a shared wallet they are saved unencrypted."}
+                </p>
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    run(async () => {
+                      await api.invite(selected.id, inviteEmail, inviteRole);
+                      setInviteEmail("");
+                    });
+                  }}
+                >
+                  <input
+                    type="email"
+                    className={`${inputClass} flex-1`}
+                    placeholder="name@example.com"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                  />
+                  <select
+                    className={inputClass}
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as WalletInvite["role"])}
+                  >
+                    <option value="editor">Editor</option>
+                    <option value="viewer">Viewer</option>
+                  </select>
+                  <button disabled={busy || !inviteEmail.trim()} className={smallButton}>
+                    Invite
+                  </button>
+                </form>
+                {sent.map((i) => (
+                  <div key={i.id} className="flex items-center gap-2 text-neutral-400">
+                    <span className="flex-1 truncate">
+                      {i.email} · {ROLE_LABELS[i.role]} · pending
+                    </span>
+                    <button
+                      disabled={busy}
+                      onClick={() => run(() => api.revokeInvite(i.id))}
+                      className={smallButton}
+                    >
+                      Revoke
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {isOwner && (
+              <button
+                disabled={busy}
+                onClick={() =>
+                  confirm(`Delete ${selected.name} and every voucher in it for all members?`) &&
+                  run(() => api.remove(selected.id))
+                }
+                className="text-xs text-red-400 hover:text-red-300"
+              >
+                Delete wallet
+              </button>
+            )}
+          </div>
+        )}
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            run(async () => {
+              const w = await api.create(newName);
+              setNewName("");
+              setSelectedId(w.id);
+            });
+          }}
+        >
+          <input
+            className={`${inputClass} flex-1`}
+            placeholder="New wallet name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <button disabled={busy || !newName.trim()} className={smallButton}>
+            Create wallet
+          </button>
+        </form>
+
+        <button onClick={onClose} className="w-full bg-neutral-800 hover:bg-neutral-700 py-2 rounded-lg">
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import type { Voucher, VoucherTransaction } from "../types";
+import type { Backup, BackupVoucher, RestorePlan } from "../lib/backup";
+import { makeBackup } from "../lib/backup";
+import { isTrashed } from "../lib/trash";
+import type { VoucherRepository } from "./repository";
+
+// Every voucher in the wallets the user can write to (the trash left out),
+// with its ledger exactly as stored: reading it must not seed opening entries
+export async function createBackup(repo: VoucherRepository): Promise<Backup> {
+  const userId = await repo.currentUserId();
+  const vouchers = (await repo.listEditable()).filter((v) => !isTrashed(v));
+  const ledgers = new Map<string, VoucherTransaction[]>();
+  for (const t of await repo.ledgers(vouchers.map((v) => v.id)))
+    ledgers.set(t.voucher_id, [...(ledgers.get(t.voucher_id) ?? []), t]);
+  return makeBackup(
+    userId,
+    vouchers.map<BackupVoucher>((v) => ({ ...v, transactions: ledgers.get(v.id) ?? [] }))
+  );
+}
+
+const sameEntry = (a: VoucherTransaction, b: VoucherTransaction) =>
+  a.kind === b.kind &&
+  a.amount === b.amount &&
+  new Date(a.occurred_at).getTime() === new Date(b.occurred_at).getTime();
+
+// Recreates one voucher and replays its ledger in chronological runs, so every
+// prefix passes the balance check. A run ends before a reversal of one of its
+// own entries, whose new id is only known once the run is written. If the
+// ledger can't be replayed the copy is removed again rather than left with a
+// partial history.
+async function restoreVoucher(repo: VoucherRepository, b: BackupVoucher, id: string | undefined) {
+  const created = await repo.create({
+    id,
+    wallet_id: b.wallet_id,
+    name: b.name,
+    value: b.value,
+    category: b.category,
+    code: b.code,
+    pin: b.pin,
+    expires_on: b.expires_on,
+    barcode_format: b.barcode_format,
+    created_at: b.created_at,
+    // archives from before the ledger was loaded only carry the total
+    spent: b.transactions.length ? 0 : b.spent,
+  });
+
+  const ids = new Map<string, string>(); // backup entry id -> restored entry id
+  const known = new Set<string>();
+  let run: VoucherTransaction[] = [];
+
+  async function flush() {
+    if (!run.length) return;
+    const { entries } = await repo.record(
+      created.id,
+      run.map((t) => ({
+        kind: t.kind,
+        amount: t.amount,
+        merchant: t.merchant,
+        note: t.note,
+        occurred_at: t.occurred_at,
+        reverses: t.reverses ? (ids.get(t.reverses) ?? null) : null,
+      }))
+    );
+    const fresh = entries.filter((e) => !known.has(e.id));
+    for (const t of run) {
+      const match = fresh.find((e) => !known.has(e.id) && sameEntry(e, t));
+      if (!match) continue;
+      known.add(match.id);
+      ids.set(t.id, match.id);
+    }
+    run = [];
+  }
+
+  const sorted = [...b.transactions].sort(
+    (x, y) =>
+      new Date(x.occurred_at).getTime() - new Date(y.occurred_at).getTime() ||
+      x.created_at.localeCompare(y.created_at)
+  );
+  try {
+    for (const t of sorted) {
+      if (t.reverses && run.some((r) => r.id === t.reverses)) await flush();
+      run.push(t);
+    }
+    await flush();
+  } catch (e) {
+    try {
+      await repo.delete(created.id);
+      await repo.purge(created.id);
+    } catch {
+      throw new Error(
+        `${(e as Error).message}. The partly restored copy couldn't be removed; delete it by hand.`
+      );
+    }
+    throw e;
+  }
+}
+
+export type RestoreResult = {
+  restored: number;
+  removed: number;
+  failed: { voucher: Voucher; reason: string }[];
+};
+
+// Applies a plan from planRestore; keeps going past individual failures.
+// Removed vouchers go to the trash.
+export async function applyRestore(
+  repo: VoucherRepository,
+  plan: RestorePlan,
+  onProgress?: (done: number, total: number) => void
+): Promise<RestoreResult> {
+  const result: RestoreResult = { restored: 0, removed: 0, failed: [] };
+  const total = plan.remove.length + plan.create.length;
+  let done = 0;
+
+  for (const v of plan.remove) {
+    try {
+      await repo.delete(v.id);
+      result.removed++;
+    } catch (e) {
+      result.failed.push({ voucher: v, reason: (e as Error).message });
+    }
+    onProgress?.(++done, total);
+  }
+
+  // A trashed voucher with the same id (this includes the ones just removed)
+  // blocks re-creating it. The backup copy then gets a fresh id, and the
+  // trashed original is only purged once the copy is fully restored.
+  const trashed = plan.keepIds ? new Set((await repo.trash()).map((v) => v.id)) : new Set<string>();
+
+  for (const v of plan.create) {
+    try {
+      const clash = trashed.has(v.id);
+      await restoreVoucher(repo, v, plan.keepIds && !clash ? v.id : undefined);
+      if (clash) await repo.purge(v.id);
+      result.restored++;
+    } catch (e) {
+      result.failed.push({ voucher: v, reason: (e as Error).message });
+    }
+    onProgress?.(++done, total);
+  }
+  return result;
+}
@@ -0,0 +1,61 @@
+import type { Voucher } from "../types";
+import { markEntry } from "../lib/ledger";
+import type { VoucherPatch, VoucherRepository } from "./repository";
+
+export type BulkAction =
+  | { type: "delete" }
+  | { type: "mark"; used: boolean }
+  | { type: "update"; patch: Pick<VoucherPatch, "category" | "expires_on"> };
+
+export type BulkResult = {
+  done: Voucher[];
+  // vouchers that were already in the requested state
+  unchanged: number;
+  failed: { voucher: Voucher; error: string }[];
+};
+
+// One voucher at a time so a failure only costs that voucher; each write
+// carries the version the user saw, so a row changed elsewhere fails instead
+// of being overwritten
+export async function runBulk(
+  repo: VoucherRepository,
+  vouchers: Voucher[],
+  action: BulkAction
+): Promise<BulkResult> {
+  const result: BulkResult = { done: [], unchanged: 0, failed: [] };
+  for (const v of vouchers) {
+    try {
+      if (!(await apply(repo, v, action))) result.unchanged++;
+      else result.done.push(v);
+    } catch (e) {
+      result.failed.push({ voucher: v, error: (e as Error).message });
+    }
+  }
+  return result;
+}
+
+// false when there was nothing to write
+async function apply(repo: VoucherRepository, v: Voucher, action: BulkAction) {
+  const opts = { expectedVersion: v.version };
+  switch (action.type) {
+    // to the trash, like a single delete
+    case "delete":
+      await repo.delete(v.id);
+      return true;
+    case "mark": {
+      const entry = markEntry(v, action.used);
+      if (!entry) return false;
+      await repo.record(v.id, [entry], opts);
+      return true;
+    }
+    case "update": {
+      const { category, expires_on } = action.patch;
+      const changed =
+        (category !== undefined && category !== v.category) ||
+        (expires_on !== undefined && expires_on !== (v.expires_on?.substring(0, 10) ?? null));
+      if (!changed) return false;
+      await repo.update(v.id, action.patch, opts);
+      return true;
+    }
+  }
+}
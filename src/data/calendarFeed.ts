@@ -0,0 +1,162 @@
+import type { RealtimeChannel, Session, SupabaseClient } from "@supabase/supabase-js";
+import type { Voucher } from "../types";
+import { toBase64, randomBytes } from "../lib/crypto";
+import { buildExpiryCalendar, calendarVouchers } from "../lib/ics";
+
+const BUCKET = "calendar-feeds";
+// a burst of changes (an import, a sync of queued writes) publishes once
+const REPUBLISH_DELAY = 2000;
+
+// Stored in auth metadata next to the vault settings. The token makes the
+// public feed URL unguessable; resetting it invalidates links already shared.
+export type CalendarFeedMeta = { token: string; alarms: number[] };
+
+// URL-safe base64
+const newToken = () =>
+  toBase64(randomBytes(24)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+// Per-user .ics file in public storage that calendar apps can subscribe to.
+// It covers every wallet the user belongs to, whichever one is open. While
+// the feed is on, the feed itself follows realtime changes to any of those
+// vouchers, made on this device or another, and republishes after each burst.
+export function createCalendarFeed(client: SupabaseClient) {
+  let lastPublished: string | null = null;
+  let channel: RealtimeChannel | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  async function session() {
+    const {
+      data: { session },
+    } = await client.auth.getSession();
+    return session;
+  }
+
+  const metaOf = (s: Session | null) =>
+    (s?.user.user_metadata?.calendar_feed as CalendarFeedMeta | undefined) ?? null;
+
+  const path = (userId: string, token: string) => `${userId}/${token}.ics`;
+
+  async function saveMeta(meta: CalendarFeedMeta | null) {
+    const { error } = await client.auth.updateUser({ data: { calendar_feed: meta } });
+    if (error) throw new Error(error.message);
+  }
+
+  // RLS limits this to the user's wallets
+  async function everyVoucher() {
+    const { data, error } = await client.from("vouchers").select("*").is("deleted_at", null);
+    if (error) throw new Error(error.message);
+    return data as Voucher[];
+  }
+
+  async function upload(userId: string, meta: CalendarFeedMeta, list: Voucher[]) {
+    const { error } = await client.storage
+      .from(BUCKET)
+      .upload(path(userId, meta.token), new Blob([buildExpiryCalendar(list, meta.alarms)]), {
+        upsert: true,
+        contentType: "text/calendar; charset=utf-8",
+        cacheControl: "300",
+      });
+    if (error) throw new Error(error.message);
+  }
+
+  async function remove(userId: string, token: string) {
+    await client.storage.from(BUCKET).remove([path(userId, token)]);
+  }
+
+  function schedulePublish() {
+    clearTimeout(timer);
+    timer = setTimeout(() => feed.publish(), REPUBLISH_DELAY);
+  }
+
+  // No wallet filter: RLS already limits the events to the user's wallets
+  function follow(s: Session | null) {
+    if (s && metaOf(s)) {
+      if (channel) return;
+      channel = client
+        .channel(`calendar-feed:${crypto.randomUUID()}`)
+        .on("postgres_changes", { event: "*", schema: "public", table: "vouchers" }, schedulePublish)
+        .subscribe();
+      // changes made while no device was following (e.g. the trash purge)
+      schedulePublish();
+    } else if (channel) {
+      client.removeChannel(channel);
+      channel = null;
+      clearTimeout(timer);
+    }
+  }
+
+  const feed = {
+    async load(): Promise<CalendarFeedMeta | null> {
+      return metaOf(await session());
+    },
+
+    url(userId: string, meta: CalendarFeedMeta) {
+      return client.storage.from(BUCKET).getPublicUrl(path(userId, meta.token)).data.publicUrl;
+    },
+
+    async enable(alarms: number[]) {
+      const s = await session();
+      if (!s) throw new Error("Not logged in");
+      const meta: CalendarFeedMeta = { token: newToken(), alarms };
+      await upload(s.user.id, meta, await everyVoucher());
+      await saveMeta(meta);
+      lastPublished = null;
+      return meta;
+    },
+
+    // New token with the same settings; the old link stops working
+    async reset() {
+      const s = await session();
+      const current = metaOf(s);
+      if (!s || !current) throw new Error("The calendar feed is off");
+      const meta = await this.enable(current.alarms);
+      await remove(s.user.id, current.token);
+      return meta;
+    },
+
+    async setAlarms(alarms: number[]) {
+      const s = await session();
+      const current = metaOf(s);
+      if (!s || !current) throw new Error("The calendar feed is off");
+      const meta = { ...current, alarms };
+      await upload(s.user.id, meta, await everyVoucher());
+      await saveMeta(meta);
+      return meta;
+    },
+
+    async disable() {
+      const s = await session();
+      const current = metaOf(s);
+      if (s && current) await remove(s.user.id, current.token);
+      await saveMeta(null);
+      lastPublished = null;
+    },
+
+    // Rebuilds the feed if it is on and its contents changed; failures (e.g.
+    // offline) are left for the next change to retry
+    async publish() {
+      const s = await session();
+      const meta = metaOf(s);
+      if (!s || !meta) return;
+      try {
+        const list = await everyVoucher();
+        const fingerprint = JSON.stringify([
+          meta,
+          calendarVouchers(list).map((v) => [v.id, v.name, v.value, v.spent, v.category, v.expires_on]),
+        ]);
+        if (fingerprint === lastPublished) return;
+        await upload(s.user.id, meta, list);
+        lastPublished = fingerprint;
+      } catch {
+        // retried on the next change
+      }
+    },
+  };
+
+  // sign-in, sign-out and turning the feed on or off (a metadata update) all pass through here
+  client.auth.onAuthStateChange((_event, s) => follow(s));
+
+  return feed;
+}
+
+export type CalendarFeed = ReturnType<typeof createCalendarFeed>;
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { makeVoucher } from "../test/fixtures";
+import { applyPaymentPlan } from "./checkout";
+import { ConflictError } from "./errors";
+import { createMemoryRepository, LOCAL_USER_ID } from "./memoryRepository";
+
+const amazon = makeVoucher({ id: "a", name: "Amazon", user_id: LOCAL_USER_ID, value: 500 });
+const flipkart = makeVoucher({ id: "f", name: "Flipkart", user_id: LOCAL_USER_ID, value: 500 });
+
+describe("applyPaymentPlan", () => {
+  it("records a usage on every voucher in the plan", async () => {
+    const repo = createMemoryRepository({ vouchers: [amazon, flipkart] });
+    const updated = await applyPaymentPlan(
+      repo,
+      [
+        { voucher: amazon, amount: 500 },
+        { voucher: flipkart, amount: 200 },
+      ],
+      { merchant: "Croma" }
+    );
+    expect(updated.map((v) => v.spent)).toEqual([500, 200]);
+  });
+
+  it("reverses the usages already recorded when a later line fails", async () => {
+    const repo = createMemoryRepository({ vouchers: [amazon, flipkart] });
+    // someone else used the Flipkart voucher after the plan was made
+    await repo.redeem("f", 100);
+
+    await expect(
+      applyPaymentPlan(
+        repo,
+        [
+          { voucher: amazon, amount: 300 },
+          { voucher: flipkart, amount: 200 },
+        ],
+        {}
+      )
+    ).rejects.toBeInstanceOf(ConflictError);
+    expect((await repo.get("a"))?.spent).toBe(0);
+    const ledger = await repo.transactions("a");
+    expect(ledger).toHaveLength(2);
+    expect(ledger[1].reverses).toBe(ledger[0].id);
+  });
+});
@@ -0,0 +1,49 @@
+import type { Voucher } from "../types";
+import type { PlanLine } from "../lib/planner";
+import { reversalOf } from "../lib/ledger";
+import { PartialPaymentError } from "./errors";
+import type { RedeemDetails, VoucherRepository } from "./repository";
+
+// Records every line of a payment plan as a usage. Each voucher must still be
+// at the version the plan was made from; if any write fails, the usages already
+// recorded are reversed so the purchase is either fully applied or not at all.
+// A reversal that fails too surfaces as PartialPaymentError.
+export async function applyPaymentPlan(
+  repo: VoucherRepository,
+  lines: PlanLine[],
+  details: RedeemDetails
+): Promise<Voucher[]> {
+  const done: { voucher: Voucher; usage: Parameters<typeof reversalOf>[0] }[] = [];
+  try {
+    for (const { voucher, amount } of lines) {
+      // the usage's id is chosen here, so its reversal never depends on finding
+      // it in the returned ledger (or on the id it gets while queued offline)
+      const usage = {
+        id: crypto.randomUUID(),
+        kind: "debit" as const,
+        amount,
+        merchant: details.merchant ?? null,
+        note: details.note ?? null,
+      };
+      const { voucher: updated } = await repo.redeem(
+        voucher.id,
+        amount,
+        { ...details, id: usage.id },
+        { expectedVersion: voucher.version }
+      );
+      done.push({ voucher: updated, usage });
+    }
+  } catch (e) {
+    const stillDebited: Voucher[] = [];
+    for (const { voucher, usage } of done.reverse()) {
+      try {
+        await repo.record(voucher.id, [reversalOf(usage)]);
+      } catch {
+        stillDebited.push(voucher);
+      }
+    }
+    if (stillDebited.length) throw new PartialPaymentError(stillDebited, e);
+    throw e;
+  }
+  return done.map((d) => d.voucher);
+}
@@ -0,0 +1,48 @@
+import type { Voucher } from "../types";
+import { mergePlan } from "../lib/duplicates";
+import type { VoucherInput, VoucherRepository } from "./repository";
+
+// Replaces an existing voucher's details with `input`. A supplied spent amount
+// becomes an adjustment so the ledger still explains the balance.
+export async function overwriteVoucher(
+  repo: VoucherRepository,
+  existing: Voucher,
+  input: VoucherInput
+): Promise<Voucher> {
+  const updated = await repo.update(
+    existing.id,
+    {
+      name: input.name,
+      value: input.value,
+      category: input.category,
+      code: input.code,
+      pin: input.pin,
+      expires_on: input.expires_on,
+    },
+    { expectedVersion: existing.version }
+  );
+  const delta = Math.round(((input.spent ?? updated.spent) - updated.spent) * 100) / 100;
+  if (!delta) return updated;
+  const { voucher } = await repo.record(
+    updated.id,
+    [{ kind: "adjustment", amount: delta, note: "Overwritten by a duplicate" }],
+    { expectedVersion: updated.version }
+  );
+  return voucher;
+}
+
+// Folds the duplicates into `keep` (see mergePlan), then deletes them
+export async function mergeDuplicates(
+  repo: VoucherRepository,
+  keep: Voucher,
+  others: Voucher[]
+): Promise<Voucher> {
+  const { patch, entries } = mergePlan(keep, others);
+  let merged = keep;
+  if (Object.keys(patch).length)
+    merged = await repo.update(keep.id, patch, { expectedVersion: merged.version });
+  if (entries.length)
+    merged = (await repo.record(keep.id, entries, { expectedVersion: merged.version })).voucher;
+  for (const o of others) await repo.delete(o.id);
+  return merged;
+}
@@ -0,0 +1,133 @@
+import type { Voucher } from "../types";
+import type { Vault } from "./vault";
+import type { VoucherInput, VoucherPatch, VoucherRepository } from "./repository";
+
+type Codec = (value: string) => Promise<string>;
+
+// Encrypts code / PIN on the way in and decrypts them on the way out, so the
+// layers below (offline cache, Supabase) only ever see ciphertext. `sealing`
+// says whether a wallet (null: the open one) is personal: in a wallet shared
+// with others a personal passphrase would lock the other members out, so
+// secrets written there stay plaintext.
+export function createEncryptingRepository(
+  inner: VoucherRepository,
+  vault: Pick<Vault, "encrypt" | "decrypt">,
+  sealing: (walletId: string | null) => boolean = () => true
+): VoucherRepository {
+  async function open(v: Voucher): Promise<Voucher> {
+    return { ...v, code: await vault.decrypt(v.code), pin: await vault.decrypt(v.pin) };
+  }
+
+  async function seal<T extends VoucherInput | VoucherPatch>(input: T): Promise<T> {
+    // a new voucher may be created in another wallet (restores); edits stay in the open one
+    if (!sealing(("wallet_id" in input && input.wallet_id) || null)) return input;
+    const out = { ...input };
+    if (input.code !== undefined) out.code = await vault.encrypt(input.code);
+    if (input.pin !== undefined) out.pin = await vault.encrypt(input.pin);
+    return out;
+  }
+
+  return {
+    currentUserId: () => inner.currentUserId(),
+
+    async list() {
+      return Promise.all((await inner.list()).map(open));
+    },
+
+    async get(id) {
+      const v = await inner.get(id);
+      return v && open(v);
+    },
+
+    async create(input) {
+      return open(await inner.create(await seal(input)));
+    },
+
+    async createMany(inputs) {
+      const sealed = await Promise.all(inputs.map(seal));
+      return Promise.all((await inner.createMany(sealed)).map(open));
+    },
+
+    async update(id, patch, opts) {
+      return open(await inner.update(id, await seal(patch), opts));
+    },
+
+    delete: (id) => inner.delete(id),
+
+    async trash() {
+      return Promise.all((await inner.trash()).map(open));
+    },
+
+    async restore(id) {
+      return open(await inner.restore(id));
+    },
+
+    purge: (id) => inner.purge(id),
+
+    async listEditable() {
+      return Promise.all((await inner.listEditable()).map(open));
+    },
+
+    transactions: (voucherId) => inner.transactions(voucherId),
+
+    allTransactions: () => inner.allTransactions(),
+
+    ledgers: (voucherIds) => inner.ledgers(voucherIds),
+
+    async record(voucherId, entries, opts) {
+      const result = await inner.record(voucherId, entries, opts);
+      return { ...result, voucher: await open(result.voucher) };
+    },
+
+    async redeem(voucherId, amount, details, opts) {
+      const result = await inner.redeem(voucherId, amount, details, opts);
+      return { ...result, voucher: await open(result.voucher) };
+    },
+
+    subscribe(onChange) {
+      return inner.subscribe(async (change) => {
+        onChange(change.type === "delete" ? change : { ...change, voucher: await open(change.voucher) });
+      });
+    },
+  };
+}
+
+// Re-encodes the stored codes / PINs the user's own key can read (used when
+// encryption is turned on and when the passphrase changes). Works on the raw,
+// unencrypted-layer repo. Values `decode` rejects, i.e. sealed under another
+// member's key, are left as they are. Wallets that aren't `personal` get
+// plaintext, so every member can read them. Keeps going past failed writes
+// and throws at the end if there were any.
+export async function rewriteSecrets(
+  repo: VoucherRepository,
+  decode: Codec,
+  encode: Codec,
+  personal: (walletId: string | null) => boolean
+) {
+  const failed: string[] = [];
+  for (const v of await repo.listEditable()) {
+    const sealed = personal(v.wallet_id);
+    async function next(value: string | null) {
+      if (!value) return value;
+      let plain: string;
+      try {
+        plain = await decode(value);
+      } catch {
+        return value;
+      }
+      return sealed ? encode(plain) : plain;
+    }
+    const code = await next(v.code);
+    const pin = await next(v.pin);
+    if (code === v.code && pin === v.pin) continue;
+    try {
+      await repo.update(v.id, { code, pin });
+    } catch {
+      failed.push(v.name);
+    }
+  }
+  if (failed.length)
+    throw new Error(
+      `Couldn't update the codes and PINs of ${failed.length} voucher${failed.length === 1 ? "" : "s"} (${failed.join(", ")}).`
+    );
+}
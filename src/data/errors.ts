@@ -0,0 +1,41 @@
+import type { Voucher } from "../types";
+
+export type ConflictReason = "version" | "balance";
+
+// A write lost a race: the voucher changed since it was read ("version"), or
+// its current balance can't cover the entries ("balance"). `latest` is the
+// fresh row so the UI can show it and let the user retry.
+export class ConflictError extends Error {
+  reason: ConflictReason;
+  latest: Voucher | null;
+
+  constructor(reason: ConflictReason, latest: Voucher | null) {
+    super(
+      reason === "version"
+        ? "This voucher was changed elsewhere. Review the latest values and try again."
+        : "Not enough balance left on this voucher. Review the latest balance and try again."
+    );
+    this.name = "ConflictError";
+    this.reason = reason;
+    this.latest = latest;
+  }
+}
+
+// A payment plan failed part-way and some of the usages it had already
+// recorded couldn't be reversed. `stillDebited` lists those vouchers so the
+// user can undo them from the voucher's history; `cause` is the first failure.
+export class PartialPaymentError extends Error {
+  stillDebited: Voucher[];
+  cause: unknown;
+
+  constructor(stillDebited: Voucher[], cause: unknown) {
+    super(
+      `The payment failed (${(cause as Error).message}) and couldn't be fully undone. ` +
+        `These vouchers still carry its usage: ${stillDebited.map((v) => v.name).join(", ")}. ` +
+        "Reverse it from their history."
+    );
+    this.name = "PartialPaymentError";
+    this.stillDebited = stillDebited;
+    this.cause = cause;
+  }
+}
@@ -0,0 +1,63 @@
+// Minimal promise wrapper around IndexedDB for the offline cache
+const DB_NAME = "voucher-wallet";
+const DB_VERSION = 1;
+
+export type StoreName = "vouchers" | "transactions" | "queue" | "meta";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains("vouchers")) db.createObjectStore("vouchers", { keyPath: "id" });
+      if (!db.objectStoreNames.contains("transactions"))
+        db.createObjectStore("transactions", { keyPath: "voucher_id" });
+      if (!db.objectStoreNames.contains("queue")) db.createObjectStore("queue", { keyPath: "opId" });
+      if (!db.objectStoreNames.contains("meta")) db.createObjectStore("meta");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function run<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  fn: (s: IDBObjectStore) => IDBRequest | void
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = fn(tx.objectStore(store));
+    tx.oncomplete = () => resolve((req ? req.result : undefined) as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export const idbGetAll = <T>(store: StoreName) => run<T[]>(store, "readonly", (s) => s.getAll());
+
+export const idbGet = <T>(store: StoreName, key: IDBValidKey) =>
+  run<T | undefined>(store, "readonly", (s) => s.get(key));
+
+export const idbPut = (store: StoreName, value: unknown, key?: IDBValidKey) =>
+  run<void>(store, "readwrite", (s) => {
+    s.put(value, key);
+  });
+
+export const idbDelete = (store: StoreName, key: IDBValidKey) =>
+  run<void>(store, "readwrite", (s) => {
+    s.delete(key);
+  });
+
+export const idbClear = (store: StoreName) =>
+  run<void>(store, "readwrite", (s) => {
+    s.clear();
+  });
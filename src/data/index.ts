@@ -0,0 +1,61 @@
+import { supabase } from "../supabase";
+import { createCalendarFeed } from "./calendarFeed";
+import { createEncryptingRepository, rewriteSecrets } from "./encryptingRepository";
+import { createMemoryRepository } from "./memoryRepository";
+import { createOfflineRepository } from "./offlineRepository";
+import { createEchoAwareRepository } from "./ownWrites";
+import { createSupabaseRepository } from "./supabaseRepository";
+import { createVault } from "./vault";
+import { createMemoryVaultMetaStore, createSupabaseVaultMetaStore } from "./vaultMeta";
+import { createTransfers } from "./transfers";
+import { createVoucherShares } from "./voucherShares";
+import { createWallets } from "./wallets";
+import type { OfflineVoucherRepository } from "./offlineRepository";
+import type { EchoAwareVoucherRepository } from "./ownWrites";
+import type { VoucherRepository } from "./repository";
+
+export type * from "./repository";
+export type { SyncSnapshot, SyncState } from "./offlineRepository";
+export type { VaultStatus } from "./vault";
+export type { CalendarFeedMeta } from "./calendarFeed";
+export type { MemberWallet, ReceivedInvite, WalletsState } from "./wallets";
+export type { NewShare, OpenedShare, ShareOpenResult, ShareWithOpens } from "./voucherShares";
+
+// VITE_DATA_BACKEND=memory runs the app without the hosted backend
+export const usesLocalBackend = import.meta.env.VITE_DATA_BACKEND === "memory";
+
+// Shared wallets live in the hosted backend; the in-memory backend has one implicit wallet
+export const wallets = usesLocalBackend ? null : createWallets(supabase);
+
+// Offline cache + sync queue in front of Supabase; null for the in-memory backend
+export const offlineSync: OfflineVoucherRepository | null = wallets
+  ? createOfflineRepository(createSupabaseRepository(supabase, wallets.activeId), wallets.activeId)
+  : null;
+
+// Storage-side repository: codes and PINs here are ciphertext once encryption is on
+const storedRepo: VoucherRepository = offlineSync ?? createMemoryRepository();
+
+// Giving vouchers to other accounts; needs shared wallets, so null for the in-memory backend
+export const transfers = wallets ? createTransfers(supabase) : null;
+
+// Passphrase encryption only applies to wallets nobody else can open; the
+// in-memory backend's single wallet is always personal
+const personal = (walletId: string | null) => !wallets || wallets.isPersonal(walletId);
+
+export const vault = createVault(
+  usesLocalBackend ? createMemoryVaultMetaStore() : createSupabaseVaultMetaStore(supabase),
+  (decode, encode) => rewriteSecrets(storedRepo, decode, encode, personal)
+);
+
+// What pages use: decrypted, and able to tell realtime echoes of its own writes
+export const vouchersRepo: EchoAwareVoucherRepository = createEchoAwareRepository(
+  createEncryptingRepository(storedRepo, vault, (walletId) =>
+    personal(walletId ?? wallets?.activeId() ?? null)
+  )
+);
+
+// Subscribable expiry calendar; needs hosted storage, so null for the in-memory backend
+export const calendarFeed = usesLocalBackend ? null : createCalendarFeed(supabase);
+
+// Public share links; the in-memory backend has nowhere to serve them from
+export const voucherShares = usesLocalBackend ? null : createVoucherShares(supabase);
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { makeVoucher } from "../test/fixtures";
+import { ConflictError } from "./errors";
+import { createMemoryRepository, LOCAL_USER_ID } from "./memoryRepository";
+
+const setup = () =>
+  createMemoryRepository({
+    vouchers: [
+      makeVoucher({ id: "a", user_id: LOCAL_USER_ID, value: 1000 }),
+      makeVoucher({ id: "b", user_id: LOCAL_USER_ID, value: 500, created_at: "2026-02-01T00:00:00.000Z" }),
+      makeVoucher({ id: "other", user_id: "someone-else" }),
+    ],
+  });
+
+describe("versions", () => {
+  it("bumps the version once per write, clamp included", async () => {
+    const repo = setup();
+    await repo.redeem("a", 800);
+    expect((await repo.get("a"))?.version).toBe(2);
+
+    const updated = await repo.update("a", { value: 500 });
+    expect(updated).toMatchObject({ version: 3, spent: 500, status: "used" });
+    expect((await repo.transactions("a")).map((t) => t.amount)).toEqual([800, -300]);
+  });
+
+  it("rejects a write made from a stale read", async () => {
+    const repo = setup();
+    await repo.update("a", { name: "Amazon Pay" }, { expectedVersion: 1 });
+
+    await expect(repo.update("a", { name: "Stale" }, { expectedVersion: 1 })).rejects.toBeInstanceOf(
+      ConflictError
+    );
+    await expect(repo.redeem("a", 100, {}, { expectedVersion: 1 })).rejects.toMatchObject({
+      reason: "version",
+    });
+    expect((await repo.get("a"))?.name).toBe("Amazon Pay");
+  });
+
+  it("rejects usage beyond the balance", async () => {
+    const repo = setup();
+    await expect(repo.redeem("b", 600)).rejects.toMatchObject({ reason: "balance" });
+    expect((await repo.get("b"))?.spent).toBe(0);
+  });
+});
+
+describe("trash", () => {
+  it("moves a deleted voucher out of the list and into the trash", async () => {
+    const repo = setup();
+    await repo.redeem("b", 100);
+    await repo.delete("b");
+
+    expect((await repo.list()).map((v) => v.id)).toEqual(["a"]);
+    expect((await repo.trash()).map((v) => v.id)).toEqual(["b"]);
+    expect(await repo.allTransactions()).toEqual([]);
+
+    await repo.restore("b");
+    expect((await repo.list()).map((v) => v.id)).toEqual(["b", "a"]);
+    expect(await repo.allTransactions()).toHaveLength(1);
+  });
+
+  it("refuses edits and usage on a trashed voucher", async () => {
+    const repo = setup();
+    await repo.delete("a");
+
+    await expect(repo.update("a", { name: "x" })).rejects.toThrow(/trash/);
+    await expect(repo.redeem("a", 10)).rejects.toThrow(/trash/);
+    await expect(repo.record("a", [{ kind: "credit", amount: 10 }])).rejects.toThrow(/trash/);
+  });
+
+  it("only purges vouchers that are in the trash", async () => {
+    const repo = setup();
+    await expect(repo.purge("a")).rejects.toThrow(/trash first/);
+    await repo.delete("a");
+    await repo.purge("a");
+    expect(await repo.get("a")).toBeNull();
+  });
+
+  it("hides other users' vouchers", async () => {
+    const repo = setup();
+    expect(await repo.get("other")).toBeNull();
+    await expect(repo.update("other", { name: "x" })).rejects.toThrow(/not found/);
+  });
+});
@@ -0,0 +1,226 @@
+import type { Voucher, VoucherTransaction } from "../types";
+import type { NewTransaction } from "../lib/ledger";
+import { clampEntry, exceedsValue, openingEntry, summarize } from "../lib/ledger";
+import { isTrashed, purgeDue } from "../lib/trash";
+import { ConflictError } from "./errors";
+import type { VoucherChange, VoucherInput, VoucherRepository } from "./repository";
+
+export const LOCAL_USER_ID = "local-user";
+
+// Backend-free implementation for local development and tests.
+// State lives only as long as the returned object.
+export function createMemoryRepository(
+  seed: { vouchers?: Voucher[]; transactions?: VoucherTransaction[] } = {},
+  userId: string | null = LOCAL_USER_ID
+): VoucherRepository {
+  const vouchers = new Map<string, Voucher>((seed.vouchers ?? []).map((v) => [v.id, { ...v }]));
+  let transactions: VoucherTransaction[] = [...(seed.transactions ?? [])];
+  const listeners = new Set<(change: VoucherChange) => void>();
+
+  // mirrors the backend trigger: every write bumps version / updated_at
+  function save(v: Voucher, isNew = false) {
+    if (!isNew) v = { ...v, version: (vouchers.get(v.id)?.version ?? 0) + 1, updated_at: now() };
+    vouchers.set(v.id, v);
+    listeners.forEach((l) => l({ type: "upsert", voucher: { ...v } }));
+  }
+
+  const now = () => new Date().toISOString();
+
+  function requireUser() {
+    if (!userId) throw new Error("Not logged in");
+    return userId;
+  }
+
+  function mustGet(id: string, expectedVersion?: number) {
+    const v = vouchers.get(id);
+    if (!v || v.user_id !== userId) throw new Error("Voucher not found");
+    if (expectedVersion !== undefined && v.version !== expectedVersion)
+      throw new ConflictError("version", { ...v });
+    return v;
+  }
+
+  // trashed vouchers can be read, restored or purged, but not written to
+  function mustGetLive(id: string, expectedVersion?: number) {
+    const v = mustGet(id, expectedVersion);
+    if (isTrashed(v)) throw new Error("Restore the voucher from the trash first");
+    return v;
+  }
+
+  function drop(id: string) {
+    vouchers.delete(id);
+    transactions = transactions.filter((t) => t.voucher_id !== id);
+  }
+
+  // stands in for the backend's daily purge job
+  function purgeExpired() {
+    for (const v of vouchers.values()) if (purgeDue(v)) drop(v.id);
+  }
+
+  const own = () => [...vouchers.values()].filter((v) => v.user_id === userId);
+
+  function insertEntries(v: Voucher, entries: NewTransaction[]) {
+    const rows = entries.map<VoucherTransaction>((e) => ({
+      id: crypto.randomUUID(),
+      voucher_id: v.id,
+      user_id: v.user_id,
+      merchant: null,
+      note: null,
+      reverses: null,
+      ...e,
+      occurred_at: e.occurred_at ?? now(),
+      created_at: now(),
+    }));
+    transactions = [...transactions, ...rows];
+    return rows;
+  }
+
+  function loadLedger(v: Voucher) {
+    const entries = transactions
+      .filter((t) => t.voucher_id === v.id)
+      .sort((a, b) => a.occurred_at.localeCompare(b.occurred_at));
+    const opening = entries.length === 0 ? openingEntry(v) : null;
+    return opening ? insertEntries(v, [opening]) : entries;
+  }
+
+  function record(v: Voucher, entries: NewTransaction[]) {
+    const existing = loadLedger(v);
+    // like the backend, an entry whose id is already recorded is skipped
+    entries = entries.filter((e) => !e.id || !existing.some((t) => t.id === e.id));
+    if (exceedsValue(v.value, [...existing, ...entries])) throw new ConflictError("balance", { ...v });
+    const all = [...existing, ...insertEntries(v, entries)];
+    save({ ...v, ...summarize(v.value, all) });
+    return { voucher: { ...vouchers.get(v.id)! }, entries: all };
+  }
+
+  function insert(input: VoucherInput): Voucher {
+    const spent = Math.min(Math.max(0, input.spent || 0), input.value);
+    const v: Voucher = {
+      id: input.id ?? crypto.randomUUID(),
+      user_id: requireUser(),
+      wallet_id: input.wallet_id ?? null,
+      name: input.name,
+      value: input.value,
+      spent,
+      category: input.category,
+      code: input.code,
+      pin: input.pin,
+      expires_on: input.expires_on,
+      barcode_format: input.barcode_format ?? null,
+      status: spent >= input.value ? "used" : "unused",
+      created_at: input.created_at ?? now(),
+      version: 1,
+      updated_at: now(),
+      deleted_at: null,
+    };
+    save(v, true);
+    return v;
+  }
+
+  return {
+    async currentUserId() {
+      return userId;
+    },
+
+    async list() {
+      purgeExpired();
+      return own()
+        .filter((v) => !isTrashed(v))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .map((v) => ({ ...v }));
+    },
+
+    async get(id) {
+      const v = vouchers.get(id);
+      return v && v.user_id === userId ? { ...v } : null;
+    },
+
+    async create(input) {
+      const v = insert(input);
+      if (v.spent) loadLedger(v);
+      return { ...v };
+    },
+
+    async createMany(inputs) {
+      return inputs.map((i) => ({ ...insert(i) }));
+    },
+
+    // one save, so the version goes up by one as with the backend's row update
+    async update(id, patch, opts) {
+      const current = mustGetLive(id, opts?.expectedVersion);
+      const next = { ...current, ...patch };
+      const clamp = clampEntry(current.spent, next.value);
+      const all = [...loadLedger(current), ...insertEntries(next, clamp ? [clamp] : [])];
+      save({ ...next, ...summarize(next.value, all) });
+      return { ...vouchers.get(id)! };
+    },
+
+    async delete(id) {
+      const v = mustGet(id);
+      if (isTrashed(v)) return;
+      vouchers.set(id, { ...v, version: v.version + 1, updated_at: now(), deleted_at: now() });
+      listeners.forEach((l) => l({ type: "delete", id }));
+    },
+
+    async trash() {
+      purgeExpired();
+      return own()
+        .filter(isTrashed)
+        .sort((a, b) => b.deleted_at!.localeCompare(a.deleted_at!))
+        .map((v) => ({ ...v }));
+    },
+
+    async listEditable() {
+      return own().map((v) => ({ ...v }));
+    },
+
+    async restore(id) {
+      const v = mustGet(id);
+      save({ ...v, deleted_at: null });
+      return { ...vouchers.get(id)! };
+    },
+
+    async purge(id) {
+      const v = mustGet(id);
+      if (!isTrashed(v)) throw new Error("Move the voucher to the trash first");
+      drop(id);
+    },
+
+    async transactions(voucherId) {
+      return loadLedger(mustGet(voucherId));
+    },
+
+    async allTransactions() {
+      return transactions
+        .filter((t) => {
+          const v = vouchers.get(t.voucher_id);
+          return v?.user_id === userId && !isTrashed(v);
+        })
+        .sort((a, b) => a.occurred_at.localeCompare(b.occurred_at));
+    },
+
+    async ledgers(voucherIds) {
+      const ids = new Set(voucherIds);
+      return transactions
+        .filter((t) => ids.has(t.voucher_id) && vouchers.get(t.voucher_id)?.user_id === userId)
+        .sort((a, b) => a.occurred_at.localeCompare(b.occurred_at));
+    },
+
+    async record(voucherId, entries, opts) {
+      return record(mustGetLive(voucherId, opts?.expectedVersion), entries);
+    },
+
+    async redeem(voucherId, amount, details, opts) {
+      if (!Number.isFinite(amount) || amount <= 0) throw new Error("Amount must be > 0");
+      return record(mustGetLive(voucherId, opts?.expectedVersion), [
+        { kind: "debit", amount, merchant: null, note: null, ...details },
+      ]);
+    },
+
+    subscribe(onChange) {
+      listeners.add(onChange);
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+}
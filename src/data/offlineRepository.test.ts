@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { makeVoucher } from "../test/fixtures";
+import { reversalOf } from "../lib/ledger";
+import { createMemoryRepository, LOCAL_USER_ID } from "./memoryRepository";
+import { createOfflineRepository } from "./offlineRepository";
+import type { VoucherRepository } from "./repository";
+
+// IndexedDB stand-in: one map per store, keyed the way idb.ts creates them
+const stores = vi.hoisted(() => new Map<string, Map<unknown, unknown>>());
+vi.mock("./idb", () => {
+  const keyPath: Record<string, string> = { vouchers: "id", transactions: "voucher_id", queue: "opId" };
+  const store = (name: string) => {
+    if (!stores.has(name)) stores.set(name, new Map());
+    return stores.get(name)!;
+  };
+  return {
+    idbGetAll: async (name: string) => [...store(name).values()].map((v) => structuredClone(v)),
+    idbGet: async (name: string, key: unknown) => structuredClone(store(name).get(key)),
+    idbPut: async (name: string, value: Record<string, unknown>, key?: unknown) => {
+      store(name).set(key ?? value[keyPath[name]], structuredClone(value));
+    },
+    idbDelete: async (name: string, key: unknown) => {
+      store(name).delete(key);
+    },
+    idbClear: async (name: string) => {
+      store(name).clear();
+    },
+  };
+});
+
+const online = { onLine: true };
+
+function setup() {
+  const server = createMemoryRepository({
+    vouchers: [makeVoucher({ id: "v1", user_id: LOCAL_USER_ID, value: 1000 })],
+  });
+  // the next call to `record` goes through but its response never arrives
+  let dropNextResponse = false;
+  const remote: VoucherRepository = {
+    ...server,
+    async record(...args) {
+      const result = await server.record(...args);
+      if (dropNextResponse) {
+        dropNextResponse = false;
+        throw new TypeError("Failed to fetch");
+      }
+      return result;
+    },
+  };
+  const repo = createOfflineRepository(remote, () => "w1");
+  return { server, repo, dropResponse: () => (dropNextResponse = true) };
+}
+
+beforeEach(() => {
+  stores.clear();
+  online.onLine = true;
+  vi.stubGlobal("navigator", online);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("offline queue", () => {
+  it("replays a redemption whose response was lost without debiting twice", async () => {
+    const { server, repo, dropResponse } = setup();
+    await repo.get("v1");
+    dropResponse();
+
+    await repo.redeem("v1", 200);
+    expect(repo.snapshot().vouchers.v1?.state).toBe("pending");
+
+    await repo.sync();
+    expect(repo.snapshot().vouchers.v1).toBeUndefined();
+    expect((await server.get("v1"))?.spent).toBe(200);
+    expect(await server.transactions("v1")).toHaveLength(1);
+  });
+
+  it("reverses an entry that is still queued", async () => {
+    const { server, repo } = setup();
+    await repo.get("v1");
+    online.onLine = false;
+
+    const { entries } = await repo.redeem("v1", 300);
+    await repo.record("v1", [reversalOf(entries[0])]);
+
+    online.onLine = true;
+    await repo.sync();
+    const ledger = await server.transactions("v1");
+    expect(ledger).toHaveLength(2);
+    expect(ledger[1].reverses).toBe(ledger[0].id);
+    expect((await server.get("v1"))?.spent).toBe(0);
+  });
+
+  it("points a reversal of a queued edit's clamp at the server's entry", async () => {
+    const { server, repo } = setup();
+    await server.redeem("v1", 800);
+    await repo.get("v1");
+    await repo.transactions("v1");
+    online.onLine = false;
+
+    await repo.update("v1", { value: 500 });
+    const clamp = (await repo.transactions("v1")).find((t) => t.kind === "adjustment")!;
+    expect(clamp.id).toMatch(/^local-/);
+    await repo.update("v1", { value: 1000 });
+    await repo.record("v1", [reversalOf(clamp)]);
+
+    online.onLine = true;
+    await repo.sync();
+    expect(repo.snapshot().vouchers.v1).toBeUndefined();
+    const ledger = await server.transactions("v1");
+    const serverClamp = ledger.find((t) => t.kind === "adjustment" && t.amount < 0)!;
+    expect(ledger.find((t) => t.reverses)?.reverses).toBe(serverClamp.id);
+    expect((await server.get("v1"))?.spent).toBe(800);
+  });
+
+  it("replays queued writes in order once back online", async () => {
+    const { server, repo } = setup();
+    await repo.get("v1");
+    online.onLine = false;
+
+    await repo.update("v1", { name: "Amazon Pay" });
+    await repo.redeem("v1", 100);
+    expect((await repo.get("v1"))?.spent).toBe(100);
+    expect((await server.get("v1"))?.spent).toBe(0);
+
+    online.onLine = true;
+    await repo.sync();
+    expect(await server.get("v1")).toMatchObject({ name: "Amazon Pay", spent: 100 });
+    expect(repo.snapshot().lastSyncedAt).not.toBeNull();
+  });
+
+  it("holds back a voucher's later writes when one fails, until it is discarded", async () => {
+    const { server, repo } = setup();
+    await repo.get("v1");
+    online.onLine = false;
+    await repo.update("v1", { name: "Amazon Pay" });
+    await repo.redeem("v1", 100);
+    await server.delete("v1");
+
+    online.onLine = true;
+    await repo.sync();
+    expect(repo.snapshot().vouchers.v1).toMatchObject({ state: "failed", error: /trash/ });
+    expect((await server.trash())[0].spent).toBe(0);
+
+    await repo.discard("v1");
+    expect(repo.snapshot().vouchers).toEqual({});
+  });
+
+  it("refuses an offline redemption of a voucher that was never cached", async () => {
+    const { repo } = setup();
+    online.onLine = false;
+
+    await expect(repo.redeem("v1", 100)).rejects.toThrow(/isn't saved on this device/);
+    expect(repo.snapshot().vouchers).toEqual({});
+  });
+});
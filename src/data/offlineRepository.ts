@@ -0,0 +1,585 @@
+import type { Voucher, VoucherTransaction } from "../types";
+import type { NewTransaction } from "../lib/ledger";
+import { clampEntry, exceedsValue, signedAmount, summarize } from "../lib/ledger";
+import { ConflictError } from "./errors";
+import { idbClear, idbDelete, idbGet, idbGetAll, idbPut } from "./idb";
+import type { VoucherInput, VoucherPatch, VoucherRepository } from "./repository";
+
+// A write made while offline, replayed in order against the remote repository.
+// Queued writes carry no expected version: they were made without a fresh read,
+// so edits apply last-writer-wins and ledger entries rely on the balance check.
+// "delete" moves to the trash; "purge" deletes for good.
+export type QueuedOp =
+  | { kind: "create"; voucherId: string; input: VoucherInput }
+  | { kind: "update"; voucherId: string; patch: VoucherPatch }
+  | { kind: "delete"; voucherId: string }
+  | { kind: "restore"; voucherId: string }
+  | { kind: "purge"; voucherId: string }
+  | { kind: "record"; voucherId: string; entries: NewTransaction[] };
+
+type QueueItem = QueuedOp & {
+  opId: string;
+  seq: number;
+  state: "pending" | "failed";
+  error?: string;
+};
+
+type LedgerCache = { voucher_id: string; entries: VoucherTransaction[] };
+
+export type SyncState = "pending" | "failed";
+
+export type SyncSnapshot = {
+  online: boolean;
+  syncing: boolean;
+  // bumped whenever queued writes reach the server, so pages know to refetch
+  lastSyncedAt: number | null;
+  vouchers: Record<string, { state: SyncState; error?: string }>;
+};
+
+export interface OfflineVoucherRepository extends VoucherRepository {
+  sync(): Promise<void>;
+  retry(voucherId: string): Promise<void>;
+  discard(voucherId: string): Promise<void>;
+  onStatusChange(listener: () => void): () => void;
+  snapshot(): SyncSnapshot;
+}
+
+// supabase-js surfaces a dropped connection as "TypeError: Failed to fetch"
+export function isNetworkError(e: unknown) {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  return /failed to fetch|network|load failed/i.test(String((e as Error)?.message ?? e));
+}
+
+const isOnline = () => typeof navigator === "undefined" || navigator.onLine;
+
+const byCreatedDesc = (a: Voucher, b: Voucher) => b.created_at.localeCompare(a.created_at);
+const byDeletedDesc = (a: Voucher, b: Voucher) => (b.deleted_at ?? "").localeCompare(a.deleted_at ?? "");
+
+// Wraps a remote repository with an IndexedDB cache. Reads fall back to the
+// cache, and writes that fail for lack of a connection are applied to the
+// cache and queued until the browser comes back online. `activeWallet` is the
+// same accessor the remote uses, so cached reads stay within the open wallet.
+export function createOfflineRepository(
+  remote: VoucherRepository,
+  activeWallet: () => string | null
+): OfflineVoucherRepository {
+  let snapshot: SyncSnapshot = {
+    online: isOnline(),
+    syncing: false,
+    lastSyncedAt: null,
+    vouchers: {},
+  };
+  const listeners = new Set<() => void>();
+  let syncing: Promise<void> | null = null;
+  let seq = Date.now();
+
+  function emit(next: Partial<SyncSnapshot>) {
+    snapshot = { ...snapshot, ...next };
+    listeners.forEach((l) => l());
+  }
+
+  async function queue() {
+    const items = await idbGetAll<QueueItem>("queue").catch(() => [] as QueueItem[]);
+    return items.sort((a, b) => a.seq - b.seq);
+  }
+
+  async function refreshStatus() {
+    const vouchers: SyncSnapshot["vouchers"] = {};
+    for (const item of await queue()) {
+      const prev = vouchers[item.voucherId];
+      if (prev?.state === "failed") continue;
+      vouchers[item.voucherId] = { state: item.state, error: item.error };
+    }
+    emit({ vouchers });
+  }
+
+  // -------- Cache --------
+  // Cache belongs to one account; switching users starts from scratch
+  async function cacheOwner() {
+    const userId = await remote.currentUserId();
+    const owner = await idbGet<string>("meta", "userId").catch(() => undefined);
+    if (userId && owner !== userId) {
+      await Promise.all([idbClear("vouchers"), idbClear("transactions"), idbClear("queue")]);
+      await idbPut("meta", userId, "userId");
+    }
+    return userId;
+  }
+
+  const cachedVoucher = (id: string) => idbGet<Voucher>("vouchers", id);
+  const cachedLedger = async (id: string) =>
+    (await idbGet<LedgerCache>("transactions", id))?.entries ?? [];
+
+  async function cacheVoucher(v: Voucher) {
+    await idbPut("vouchers", v).catch(() => {});
+  }
+
+  async function cacheLedger(voucherId: string, entries: VoucherTransaction[]) {
+    await idbPut("transactions", { voucher_id: voucherId, entries }).catch(() => {});
+  }
+
+  // The voucher a queued create will produce, as far as the client can tell
+  function draftVoucher(id: string, input: VoucherInput, userId: string | null): Voucher {
+    const now = new Date().toISOString();
+    return {
+      id,
+      user_id: userId,
+      wallet_id: input.wallet_id ?? null,
+      name: input.name,
+      value: input.value,
+      category: input.category,
+      code: input.code,
+      pin: input.pin,
+      expires_on: input.expires_on,
+      barcode_format: input.barcode_format ?? null,
+      ...summarize(input.value, [
+        { kind: "adjustment", amount: Math.min(input.spent || 0, input.value) },
+      ]),
+      created_at: input.created_at ?? now,
+      version: 1,
+      updated_at: now,
+      deleted_at: null,
+    };
+  }
+
+  // Applies a queued write to the cache so offline reads reflect it.
+  // Ledger entries are only appended the first time the op is applied.
+  async function applyLocal(op: QueuedOp, userId: string | null, withLedger = true) {
+    const now = new Date().toISOString();
+    if (op.kind === "create") {
+      await cacheVoucher(draftVoucher(op.voucherId, op.input, userId));
+      return;
+    }
+    if (op.kind === "purge") {
+      await idbDelete("vouchers", op.voucherId);
+      await idbDelete("transactions", op.voucherId);
+      return;
+    }
+
+    const v = await cachedVoucher(op.voucherId);
+    if (!v) return;
+    if (op.kind === "delete" || op.kind === "restore") {
+      await cacheVoucher({ ...v, deleted_at: op.kind === "delete" ? now : null });
+      return;
+    }
+    let entries: NewTransaction[] = [];
+    let next: Voucher = v;
+    if (op.kind === "update") {
+      next = { ...v, ...op.patch };
+      const clamp = clampEntry(v.spent, next.value);
+      if (clamp) entries = [clamp];
+    } else {
+      entries = op.entries;
+    }
+
+    // recorded entries carry the id they will have on the server; the clamp of
+    // a queued edit is written by the server itself, so its id is only local
+    const local = entries.map<VoucherTransaction>((e) => ({
+      voucher_id: v.id,
+      user_id: v.user_id,
+      merchant: null,
+      note: null,
+      reverses: null,
+      ...e,
+      id: e.id ?? `local-${crypto.randomUUID()}`,
+      occurred_at: e.occurred_at ?? now,
+      created_at: now,
+    }));
+    const spent = (next.spent || 0) + entries.reduce((a, e) => a + signedAmount(e), 0);
+    await cacheVoucher({ ...next, ...summarize(next.value, [{ kind: "adjustment", amount: spent }]) });
+    if (withLedger && local.length) await cacheLedger(v.id, [...(await cachedLedger(v.id)), ...local]);
+  }
+
+  // Server snapshot plus whatever is still waiting in the queue
+  async function replaceCache(fresh: Voucher[], userId: string | null) {
+    await idbClear("vouchers");
+    await Promise.all(fresh.map(cacheVoucher));
+    for (const item of await queue()) await applyLocal(item, userId, false);
+  }
+
+  async function enqueue(op: QueuedOp) {
+    const item: QueueItem = { ...op, opId: crypto.randomUUID(), seq: seq++, state: "pending" };
+    await idbPut("queue", item);
+    await applyLocal(op, await remote.currentUserId());
+    await refreshStatus();
+  }
+
+  const hasQueued = async (voucherId: string) =>
+    (await queue()).some((i) => i.voucherId === voucherId);
+
+  // Tries the remote write first; queues it when the network is the problem.
+  // Writes for a voucher with queued changes wait their turn to keep order.
+  // Without an `offline` result (nothing cached to answer with) nothing is queued.
+  async function write<T>(
+    op: QueuedOp,
+    online: () => Promise<T>,
+    offline: (() => Promise<T>) | null
+  ) {
+    if (isOnline() && !(await hasQueued(op.voucherId))) {
+      try {
+        return await online();
+      } catch (e) {
+        if (!isNetworkError(e) || !offline) throw e;
+      }
+    }
+    if (!offline) throw new Error("You're offline and this voucher isn't saved on this device");
+    await enqueue(op);
+    return offline();
+  }
+
+  // A reversal recorded offline may point at the clamp of a queued edit, which
+  // only had a local id. Once the edit has replayed, the server's copy of that
+  // entry (same kind, amount and note, not yet reversed) takes its place.
+  async function resolveLocalIds(voucherId: string, entries: NewTransaction[]) {
+    if (!entries.some((e) => e.reverses?.startsWith("local-"))) return entries;
+    const cached = await cachedLedger(voucherId);
+    const server = await remote.transactions(voucherId);
+    return entries.map((e) => {
+      if (!e.reverses?.startsWith("local-")) return e;
+      const local = cached.find((t) => t.id === e.reverses);
+      const match =
+        local &&
+        [...server]
+          .reverse()
+          .find(
+            (t) =>
+              t.kind === local.kind &&
+              Number(t.amount) === Number(local.amount) &&
+              t.note === local.note &&
+              !server.some((x) => x.reverses === t.id)
+          );
+      if (!match) throw new Error("The entry being reversed never reached the server");
+      return { ...e, reverses: match.id };
+    });
+  }
+
+  async function replay(item: QueueItem) {
+    switch (item.kind) {
+      case "create":
+        try {
+          await remote.create({ ...item.input, id: item.voucherId });
+        } catch (e) {
+          // an earlier attempt reached the server but the response was lost
+          if (!/duplicate key/i.test((e as Error).message)) throw e;
+        }
+        return;
+      case "update":
+        await remote.update(item.voucherId, item.patch);
+        return;
+      case "delete":
+        await remote.delete(item.voucherId);
+        return;
+      case "restore":
+        await remote.restore(item.voucherId);
+        return;
+      case "purge":
+        await remote.purge(item.voucherId);
+        return;
+      case "record":
+        // entries keep their ids, so a write that already went in isn't repeated
+        await remote.record(item.voucherId, await resolveLocalIds(item.voucherId, item.entries));
+        return;
+    }
+  }
+
+  async function sync() {
+    if (syncing) return syncing;
+    if (!isOnline()) return;
+    syncing = (async () => {
+      const items = await queue();
+      if (!items.some((i) => i.state === "pending")) return;
+      emit({ syncing: true });
+      // a failed write blocks later writes to the same voucher until retried or discarded
+      const blocked = new Set<string>();
+      let replayed = 0;
+      for (const item of items) {
+        if (item.state === "failed" || blocked.has(item.voucherId)) {
+          blocked.add(item.voucherId);
+          continue;
+        }
+        try {
+          await replay(item);
+          await idbDelete("queue", item.opId);
+          replayed++;
+        } catch (e) {
+          if (isNetworkError(e)) break;
+          await idbPut("queue", { ...item, state: "failed", error: (e as Error).message });
+          blocked.add(item.voucherId);
+        }
+      }
+      await refreshStatus();
+      emit({ syncing: false, ...(replayed ? { lastSyncedAt: Date.now() } : {}) });
+    })().finally(() => {
+      syncing = null;
+    });
+    return syncing;
+  }
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("online", () => {
+      emit({ online: true });
+      sync();
+    });
+    window.addEventListener("offline", () => emit({ online: false }));
+  }
+  refreshStatus();
+
+  return {
+    currentUserId: () => remote.currentUserId(),
+
+    async list() {
+      let fresh: Voucher[] | null = null;
+      if (isOnline()) {
+        try {
+          await sync();
+          fresh = await remote.list();
+        } catch (e) {
+          if (!isNetworkError(e)) throw e;
+        }
+      }
+      try {
+        const userId = await cacheOwner();
+        if (fresh) await replaceCache(fresh, userId);
+        // queued creates for other wallets stay cached until they replay
+        const walletId = activeWallet();
+        return (await idbGetAll<Voucher>("vouchers"))
+          .filter((v) => v.wallet_id === walletId && !v.deleted_at)
+          .sort(byCreatedDesc);
+      } catch {
+        // no IndexedDB (e.g. private browsing): behave like the plain remote repository
+        if (fresh) return fresh;
+        throw new Error("You're offline and no cached vouchers are available");
+      }
+    },
+
+    async get(id) {
+      if (isOnline() && !(await hasQueued(id))) {
+        try {
+          const v = await remote.get(id);
+          if (v) await cacheVoucher(v);
+          return v;
+        } catch (e) {
+          if (!isNetworkError(e)) throw e;
+        }
+      }
+      return (await cachedVoucher(id)) ?? null;
+    },
+
+    async create(input) {
+      const id = input.id ?? crypto.randomUUID();
+      // pinned now so a queued create lands in this wallet even if the user switches
+      const stamped = { ...input, id, wallet_id: input.wallet_id ?? activeWallet() };
+      return write(
+        { kind: "create", voucherId: id, input: stamped },
+        async () => {
+          const v = await remote.create(stamped);
+          await cacheVoucher(v);
+          return v;
+        },
+        // the cache write can fail (e.g. storage full) without losing the queued create
+        async () => (await cachedVoucher(id)) ?? draftVoucher(id, stamped, await remote.currentUserId())
+      );
+    },
+
+    async createMany(inputs) {
+      const out: Voucher[] = [];
+      for (const input of inputs) out.push(await this.create(input));
+      return out;
+    },
+
+    async update(id, patch, opts) {
+      return write(
+        { kind: "update", voucherId: id, patch },
+        async () => {
+          const v = await remote.update(id, patch, opts);
+          await cacheVoucher(v);
+          return v;
+        },
+        async () => {
+          const v = await cachedVoucher(id);
+          if (!v) throw new Error("Voucher not found");
+          return v;
+        }
+      );
+    },
+
+    async delete(id) {
+      await write(
+        { kind: "delete", voucherId: id },
+        async () => {
+          await remote.delete(id);
+          await idbDelete("vouchers", id);
+          await idbDelete("transactions", id);
+        },
+        async () => {}
+      );
+    },
+
+    // Offline, only vouchers trashed while offline are known
+    async trash() {
+      if (isOnline()) {
+        try {
+          await sync();
+          return await remote.trash();
+        } catch (e) {
+          if (!isNetworkError(e)) throw e;
+        }
+      }
+      const walletId = activeWallet();
+      return (await idbGetAll<Voucher>("vouchers").catch(() => [] as Voucher[]))
+        .filter((v) => v.wallet_id === walletId && v.deleted_at)
+        .sort(byDeletedDesc);
+    },
+
+    // Needs the backend: the cache only holds the active wallet
+    async listEditable() {
+      await sync();
+      return remote.listEditable();
+    },
+
+    async restore(id) {
+      return write(
+        { kind: "restore", voucherId: id },
+        async () => {
+          const v = await remote.restore(id);
+          await cacheVoucher(v);
+          return v;
+        },
+        async () => {
+          const v = await cachedVoucher(id);
+          if (!v) throw new Error("Voucher not found");
+          return v;
+        }
+      );
+    },
+
+    async purge(id) {
+      await write(
+        { kind: "purge", voucherId: id },
+        async () => {
+          await remote.purge(id);
+          await idbDelete("vouchers", id);
+          await idbDelete("transactions", id);
+        },
+        async () => {}
+      );
+    },
+
+    async transactions(voucherId) {
+      if (isOnline() && !(await hasQueued(voucherId))) {
+        try {
+          const entries = await remote.transactions(voucherId);
+          await cacheLedger(voucherId, entries);
+          return entries;
+        } catch (e) {
+          if (!isNetworkError(e)) throw e;
+        }
+      }
+      return cachedLedger(voucherId);
+    },
+
+    // Online: the server's ledger, with locally queued entries for vouchers that
+    // still have pending writes. Offline: whatever ledgers are cached, minus
+    // those of vouchers trashed while offline.
+    async allTransactions() {
+      const cached = async () => {
+        const trashed = new Set(
+          (await idbGetAll<Voucher>("vouchers").catch(() => [] as Voucher[]))
+            .filter((v) => v.deleted_at)
+            .map((v) => v.id)
+        );
+        return (await idbGetAll<LedgerCache>("transactions").catch(() => [] as LedgerCache[]))
+          .filter((l) => !trashed.has(l.voucher_id))
+          .flatMap((l) => l.entries);
+      };
+      if (!isOnline()) return cached();
+      try {
+        const pending = new Set((await queue()).map((q) => q.voucherId));
+        const fresh = (await remote.allTransactions()).filter((t) => !pending.has(t.voucher_id));
+        const local = (await cached()).filter((t) => pending.has(t.voucher_id));
+        return [...fresh, ...local].sort((a, b) => a.occurred_at.localeCompare(b.occurred_at));
+      } catch (e) {
+        if (!isNetworkError(e)) throw e;
+        return cached();
+      }
+    },
+
+    // Needs the backend, like listEditable
+    async ledgers(voucherIds) {
+      await sync();
+      return remote.ledgers(voucherIds);
+    },
+
+    async record(voucherId, entries, opts) {
+      // the server re-checks on replay; this catches overspending while offline
+      const v = await cachedVoucher(voucherId);
+      if (v && exceedsValue(v.value, [{ kind: "adjustment", amount: v.spent }, ...entries]))
+        throw new ConflictError("balance", v);
+      // ids are fixed before the first attempt: if it reaches the server but the
+      // response is lost, the queued replay sends the same entries and is skipped
+      const stamped = entries.map((e) => ({ ...e, id: e.id ?? crypto.randomUUID() }));
+      return write(
+        { kind: "record", voucherId, entries: stamped },
+        async () => {
+          const result = await remote.record(voucherId, stamped, opts);
+          await cacheVoucher(result.voucher);
+          await cacheLedger(voucherId, result.entries);
+          return result;
+        },
+        // a voucher that was never cached can't be checked or shown offline
+        v
+          ? async () => ({
+              voucher: (await cachedVoucher(voucherId)) ?? v,
+              entries: await cachedLedger(voucherId),
+            })
+          : null
+      );
+    },
+
+    subscribe(onChange) {
+      return remote.subscribe(async (change) => {
+        const id = change.type === "delete" ? change.id : change.voucher.id;
+        // queued local writes win until they replay; the refetch after sync reconciles
+        if (await hasQueued(id)) return;
+        if (change.type === "delete") {
+          await idbDelete("vouchers", id).catch(() => {});
+          await idbDelete("transactions", id).catch(() => {});
+        } else {
+          await cacheVoucher(change.voucher);
+        }
+        onChange(change);
+      });
+    },
+
+    async redeem(voucherId, amount, details, opts) {
+      if (!Number.isFinite(amount) || amount <= 0) throw new Error("Amount must be > 0");
+      return this.record(
+        voucherId,
+        [{ kind: "debit", amount, merchant: null, note: null, ...details }],
+        opts
+      );
+    },
+
+    sync,
+
+    async retry(voucherId) {
+      for (const item of await queue())
+        if (item.voucherId === voucherId && item.state === "failed")
+          await idbPut("queue", { ...item, state: "pending", error: undefined });
+      await refreshStatus();
+      await sync();
+    },
+
+    async discard(voucherId) {
+      for (const item of await queue())
+        if (item.voucherId === voucherId) await idbDelete("queue", item.opId);
+      await refreshStatus();
+    },
+
+    onStatusChange(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    snapshot: () => snapshot,
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { makeVoucher } from "../test/fixtures";
+import { createMemoryRepository, LOCAL_USER_ID } from "./memoryRepository";
+import { createEchoAwareRepository } from "./ownWrites";
+import type { VoucherChange } from "./repository";
+
+function setup() {
+  // `shared` stands in for the backend, written to by this client and another one
+  const shared = createMemoryRepository({
+    vouchers: [makeVoucher({ id: "v1", user_id: LOCAL_USER_ID })],
+  });
+  const repo = createEchoAwareRepository(shared);
+  const changes: [VoucherChange, boolean][] = [];
+  repo.subscribe((change) => changes.push([change, repo.isOwnEcho(change)]));
+  return { shared, repo, changes };
+}
+
+describe("createEchoAwareRepository", () => {
+  it("recognises the changes its own writes cause", async () => {
+    const { repo, changes } = setup();
+    await repo.redeem("v1", 100);
+    await repo.update("v1", { name: "Amazon Pay" });
+    await repo.delete("v1");
+
+    expect(changes.map(([c, echo]) => [c.type, echo])).toEqual([
+      ["upsert", true],
+      ["upsert", true],
+      ["delete", true],
+    ]);
+  });
+
+  it("reports writes made elsewhere, even to a voucher it wrote before", async () => {
+    const { shared, repo, changes } = setup();
+    await repo.redeem("v1", 100);
+    await shared.redeem("v1", 50);
+    await shared.delete("v1");
+
+    expect(changes.map(([, echo]) => echo)).toEqual([true, false, false]);
+    // a late echo of the first write is still its own
+    expect(repo.isOwnEcho({ type: "upsert", voucher: makeVoucher({ id: "v1", version: 2 }) })).toBe(true);
+  });
+});
@@ -0,0 +1,86 @@
+import type { Voucher } from "../types";
+import type { LedgerResult, VoucherChange, VoucherRepository } from "./repository";
+
+export interface EchoAwareVoucherRepository extends VoucherRepository {
+  // True for a realtime change this client caused itself
+  isOwnEcho(change: VoucherChange): boolean;
+}
+
+// Realtime reports this client's own writes back like anyone else's. Wraps a
+// repository to remember the versions its writes produced: a change up to
+// that version, or one arriving while a write to the voucher is in flight
+// (the response can trail the event), is an echo, not a change made elsewhere.
+export function createEchoAwareRepository(inner: VoucherRepository): EchoAwareVoucherRepository {
+  const inFlight = new Map<string, number>();
+  const written = new Map<string, number>();
+  const deleted = new Set<string>();
+
+  function wrote(v: Voucher) {
+    written.set(v.id, Math.max(v.version, written.get(v.id) ?? 0));
+    deleted.delete(v.id);
+    return v;
+  }
+
+  async function tracked<T>(id: string, write: () => Promise<T>): Promise<T> {
+    inFlight.set(id, (inFlight.get(id) ?? 0) + 1);
+    try {
+      return await write();
+    } finally {
+      const left = inFlight.get(id)! - 1;
+      if (left) inFlight.set(id, left);
+      else inFlight.delete(id);
+    }
+  }
+
+  function wroteLedger(r: LedgerResult) {
+    wrote(r.voucher);
+    return r;
+  }
+
+  return {
+    ...inner,
+
+    async create(input) {
+      return wrote(await inner.create(input));
+    },
+
+    async createMany(inputs) {
+      return (await inner.createMany(inputs)).map(wrote);
+    },
+
+    async update(id, patch, opts) {
+      return wrote(await tracked(id, () => inner.update(id, patch, opts)));
+    },
+
+    async delete(id) {
+      await tracked(id, () => inner.delete(id));
+      deleted.add(id);
+    },
+
+    async restore(id) {
+      return wrote(await tracked(id, () => inner.restore(id)));
+    },
+
+    async purge(id) {
+      await tracked(id, () => inner.purge(id));
+      deleted.add(id);
+    },
+
+    async record(voucherId, entries, opts) {
+      return wroteLedger(await tracked(voucherId, () => inner.record(voucherId, entries, opts)));
+    },
+
+    async redeem(voucherId, amount, details, opts) {
+      return wroteLedger(
+        await tracked(voucherId, () => inner.redeem(voucherId, amount, details, opts))
+      );
+    },
+
+    isOwnEcho(change) {
+      const id = change.type === "delete" ? change.id : change.voucher.id;
+      if (inFlight.has(id)) return true;
+      if (change.type === "delete") return deleted.has(id);
+      return change.voucher.version <= (written.get(id) ?? 0);
+    },
+  };
+}
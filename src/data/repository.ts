@@ -0,0 +1,79 @@
+import type { Voucher, VoucherTransaction } from "../types";
+import type { NewTransaction } from "../lib/ledger";
+
+// What the add form / importer supply; spent becomes the opening ledger entry.
+// `id` lets offline clients pick the id up front so queued writes can refer to it;
+// `created_at` lets a backup restore keep the original timestamp.
+// `wallet_id` defaults to the active wallet.
+export type VoucherInput = Pick<
+  Voucher,
+  "name" | "value" | "category" | "code" | "pin" | "expires_on"
+> &
+  Partial<Pick<Voucher, "barcode_format" | "wallet_id">> & {
+    id?: string;
+    spent?: number;
+    created_at?: string;
+  };
+
+// spent/status are owned by the ledger, so edits only touch descriptive fields
+export type VoucherPatch = Partial<Omit<VoucherInput, "id" | "spent" | "created_at" | "wallet_id">>;
+
+export type LedgerResult = {
+  voucher: Voucher;
+  entries: VoucherTransaction[];
+};
+
+// A row-level change pushed by the backend (another device, tab or user)
+export type VoucherChange =
+  | { type: "upsert"; voucher: Voucher }
+  | { type: "delete"; id: string };
+
+// expectedVersion: fail with ConflictError if the voucher changed since it was read
+export type WriteOptions = { expectedVersion?: number };
+
+export type RedeemDetails = Partial<Pick<VoucherTransaction, "id" | "merchant" | "note" | "occurred_at">>;
+
+// Single data-access surface for pages. Every implementation keeps
+// vouchers.spent/status in sync with the ledger (see lib/ledger).
+// Conflicting writes reject with ConflictError (see ./errors).
+export interface VoucherRepository {
+  currentUserId(): Promise<string | null>;
+
+  list(): Promise<Voucher[]>;
+  get(id: string): Promise<Voucher | null>;
+  create(input: VoucherInput): Promise<Voucher>;
+  createMany(inputs: VoucherInput[]): Promise<Voucher[]>;
+  update(id: string, patch: VoucherPatch, opts?: WriteOptions): Promise<Voucher>;
+  // Moves the voucher to the trash; list() and allTransactions() leave trashed
+  // vouchers out, and they are purged after TRASH_RETENTION_DAYS (see lib/trash)
+  delete(id: string): Promise<void>;
+
+  // Trash, most recently deleted first
+  trash(): Promise<Voucher[]>;
+  restore(id: string): Promise<Voucher>;
+  // Deletes a trashed voucher and its ledger for good
+  purge(id: string): Promise<void>;
+
+  // Every voucher the user may write, in every wallet and including the trash
+  // (re-encrypting secrets must not skip any)
+  listEditable(): Promise<Voucher[]>;
+
+  // Ledger
+  transactions(voucherId: string): Promise<VoucherTransaction[]>;
+  // Every entry across the user's vouchers (analytics); no opening entries are seeded
+  allTransactions(): Promise<VoucherTransaction[]>;
+  // The stored ledgers of the given vouchers, in any wallet (backups). Unlike
+  // transactions() nothing is seeded: vouchers from before the ledger have none.
+  ledgers(voucherIds: string[]): Promise<VoucherTransaction[]>;
+  // Ledger writes are atomic; overspending throws ConflictError("balance")
+  record(voucherId: string, entries: NewTransaction[], opts?: WriteOptions): Promise<LedgerResult>;
+  redeem(
+    voucherId: string,
+    amount: number,
+    details?: RedeemDetails,
+    opts?: WriteOptions
+  ): Promise<LedgerResult>;
+
+  // Live changes to the current user's vouchers; returns an unsubscribe function
+  subscribe(onChange: (change: VoucherChange) => void): () => void;
+}
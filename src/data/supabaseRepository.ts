@@ -0,0 +1,335 @@
+import type { RealtimeChannel, SupabaseClient } from "@supabase/supabase-js";
+import type { Voucher, VoucherTransaction } from "../types";
+import type { NewTransaction } from "../lib/ledger";
+import { clampEntry, openingEntry } from "../lib/ledger";
+import { ConflictError } from "./errors";
+import type { VoucherInput, VoucherPatch, VoucherRepository } from "./repository";
+
+// Postgrest errors are plain objects; rethrow as Error so callers can use `.message`
+function unwrap<T>({ data, error }: { data: T | null; error: { message: string } | null }): T {
+  if (error) throw new Error(error.message);
+  return data as T;
+}
+
+// PINs live in voucher_pins so viewers can be denied them (see the wallets
+// migration); they are embedded into every voucher read
+const VOUCHER_COLUMNS = "*, voucher_pins(pin)";
+
+type VoucherRow = Omit<Voucher, "pin"> & { voucher_pins?: { pin: string } | { pin: string }[] | null };
+
+function fromRow({ voucher_pins: p, ...row }: VoucherRow): Voucher {
+  return { ...row, pin: (Array.isArray(p) ? p[0]?.pin : p?.pin) ?? null };
+}
+
+// `activeWallet` scopes reads, realtime and new vouchers to the wallet the user picked
+export function createSupabaseRepository(
+  client: SupabaseClient,
+  activeWallet: () => string | null
+): VoucherRepository {
+  // The cached session works offline; RLS still checks the token server-side
+  async function sessionUserId() {
+    const {
+      data: { session },
+    } = await client.auth.getSession();
+    return session?.user.id ?? null;
+  }
+
+  async function requireUser() {
+    const userId = await sessionUserId();
+    if (!userId) throw new Error("Not logged in");
+    return userId;
+  }
+
+  function requireWallet() {
+    const walletId = activeWallet();
+    if (!walletId) throw new Error("No wallet selected");
+    return walletId;
+  }
+
+  // ids are picked here so PINs can be written against them straight away
+  function toRow(userId: string, walletId: string, input: VoucherInput) {
+    const spent = Math.min(Math.max(0, input.spent || 0), input.value);
+    return {
+      id: input.id ?? crypto.randomUUID(),
+      ...(input.created_at ? { created_at: input.created_at } : {}),
+      user_id: userId,
+      wallet_id: input.wallet_id ?? walletId,
+      name: input.name,
+      value: input.value,
+      spent,
+      category: input.category,
+      code: input.code,
+      expires_on: input.expires_on,
+      barcode_format: input.barcode_format ?? null,
+      status: spent >= input.value ? ("used" as const) : ("unused" as const),
+    };
+  }
+
+  async function get(id: string) {
+    const rows = unwrap(await client.from("vouchers").select(VOUCHER_COLUMNS).eq("id", id).limit(1));
+    const row = (rows as VoucherRow[])[0];
+    return row ? fromRow(row) : null;
+  }
+
+  async function writePins(pins: { voucher_id: string; pin: string | null }[]) {
+    const set = pins.filter((p) => p.pin);
+    const cleared = pins.filter((p) => !p.pin).map((p) => p.voucher_id);
+    if (set.length) unwrap(await client.from("voucher_pins").upsert(set));
+    if (cleared.length) unwrap(await client.from("voucher_pins").delete().in("voucher_id", cleared));
+  }
+
+  async function mustGet(id: string) {
+    const v = await get(id);
+    if (!v) throw new Error("Voucher not found");
+    return v;
+  }
+
+  // Loads a voucher's ledger, seeding an opening entry for vouchers that
+  // only have a `spent` total from before the ledger existed.
+  async function loadLedger(v: Voucher) {
+    const entries = unwrap(
+      await client
+        .from("voucher_transactions")
+        .select("*")
+        .eq("voucher_id", v.id)
+        .order("occurred_at", { ascending: true })
+    ) as VoucherTransaction[];
+
+    const opening = entries.length === 0 ? openingEntry(v) : null;
+    if (!opening) return entries;
+    const { data, error } = await client
+      .from("voucher_transactions")
+      .insert({ voucher_id: v.id, user_id: v.user_id, ...opening })
+      .select();
+    // viewers can't write the ledger; they see it unseeded until an editor opens it
+    return error ? entries : (data as VoucherTransaction[]);
+  }
+
+  // Ledger writes go through record_voucher_transactions, which locks the
+  // voucher row and validates the balance server-side (see migrations).
+  async function record(voucherId: string, entries: NewTransaction[], expectedVersion?: number) {
+    const { data, error } = await client.rpc("record_voucher_transactions", {
+      p_voucher_id: voucherId,
+      p_entries: entries,
+      p_expected_version: expectedVersion ?? null,
+    });
+    if (error) {
+      if (/version_conflict/.test(error.message)) throw new ConflictError("version", await get(voucherId));
+      if (/insufficient_balance/.test(error.message))
+        throw new ConflictError("balance", await get(voucherId));
+      throw new Error(error.message);
+    }
+    // the function returns the bare row; re-read it for the PIN
+    const [voucher, ledger] = await Promise.all([mustGet(voucherId), loadLedger(data as Voucher)]);
+    return { voucher, entries: ledger };
+  }
+
+  return {
+    currentUserId: sessionUserId,
+
+    async list() {
+      const walletId = activeWallet();
+      if (!walletId || !(await sessionUserId())) return [];
+      const rows = unwrap(
+        await client
+          .from("vouchers")
+          .select(VOUCHER_COLUMNS)
+          .eq("wallet_id", walletId)
+          .is("deleted_at", null)
+          .order("created_at", { ascending: false })
+      ) as VoucherRow[];
+      return rows.map(fromRow);
+    },
+
+    get,
+
+    async create(input) {
+      const userId = await requireUser();
+      const row = toRow(userId, requireWallet(), input);
+      const created = unwrap(await client.from("vouchers").insert(row).select().single()) as Voucher;
+      if (input.pin) await writePins([{ voucher_id: created.id, pin: input.pin }]);
+      // initial used amount becomes the opening ledger entry
+      if (created.spent) await loadLedger(created);
+      return { ...created, pin: input.pin };
+    },
+
+    async createMany(inputs) {
+      if (!inputs.length) return [];
+      const userId = await requireUser();
+      const walletId = requireWallet();
+      const rows = inputs.map((i) => toRow(userId, walletId, i));
+      // opening entries for imported spent amounts are seeded lazily by loadLedger
+      const created = unwrap(await client.from("vouchers").insert(rows).select()) as Voucher[];
+      const pins = new Map(rows.map((r, i) => [r.id, inputs[i].pin]));
+      await writePins(
+        rows.filter((r) => pins.get(r.id)).map((r) => ({ voucher_id: r.id, pin: pins.get(r.id)! }))
+      );
+      return created.map((v) => ({ ...v, pin: pins.get(v.id) ?? null }));
+    },
+
+    async update(id, patch, opts) {
+      const current = await mustGet(id);
+      if (opts?.expectedVersion !== undefined && current.version !== opts.expectedVersion)
+        throw new ConflictError("version", current);
+
+      const { pin, ...fields }: VoucherPatch = patch;
+
+      // the version filter makes the write a compare-and-swap; a PIN-only
+      // change still bumps the version so other devices refetch. The PIN is
+      // only written once the swap succeeded, so a conflict leaves it alone.
+      const rows = unwrap(
+        await client
+          .from("vouchers")
+          .update(Object.keys(fields).length ? fields : { updated_at: new Date().toISOString() })
+          .eq("id", id)
+          .eq("version", current.version)
+          .select()
+      ) as Voucher[];
+      if (!rows.length) throw new ConflictError("version", await get(id));
+      const updated = rows[0];
+      if (pin !== undefined) await writePins([{ voucher_id: id, pin }]);
+
+      // re-derive status against the new value, clamping spent if it shrank below it
+      const clamp = clampEntry(current.spent, updated.value);
+      return (await record(id, clamp ? [clamp] : [])).voucher;
+    },
+
+    async delete(id) {
+      unwrap(
+        await client
+          .from("vouchers")
+          .update({ deleted_at: new Date().toISOString() })
+          .eq("id", id)
+          .is("deleted_at", null)
+      );
+    },
+
+    async listEditable() {
+      const userId = await requireUser();
+      const memberships = unwrap(
+        await client
+          .from("wallet_members")
+          .select("wallet_id")
+          .eq("user_id", userId)
+          .in("role", ["owner", "editor"])
+      ) as { wallet_id: string }[];
+      if (!memberships.length) return [];
+      const rows = unwrap(
+        await client
+          .from("vouchers")
+          .select(VOUCHER_COLUMNS)
+          .in("wallet_id", memberships.map((m) => m.wallet_id))
+      ) as VoucherRow[];
+      return rows.map(fromRow);
+    },
+
+    // trashed rows past the retention period are purged by a daily job (see migrations)
+    async trash() {
+      const walletId = activeWallet();
+      if (!walletId || !(await sessionUserId())) return [];
+      const rows = unwrap(
+        await client
+          .from("vouchers")
+          .select(VOUCHER_COLUMNS)
+          .eq("wallet_id", walletId)
+          .not("deleted_at", "is", null)
+          .order("deleted_at", { ascending: false })
+      ) as VoucherRow[];
+      return rows.map(fromRow);
+    },
+
+    async restore(id) {
+      const rows = unwrap(
+        await client.from("vouchers").update({ deleted_at: null }).eq("id", id).select("id")
+      );
+      if (!rows.length) throw new Error("Voucher not found");
+      return mustGet(id);
+    },
+
+    async purge(id) {
+      unwrap(await client.from("vouchers").delete().eq("id", id).not("deleted_at", "is", null));
+    },
+
+    async transactions(voucherId) {
+      return loadLedger(await mustGet(voucherId));
+    },
+
+    async allTransactions() {
+      const walletId = activeWallet();
+      if (!walletId || !(await sessionUserId())) return [];
+      // empty inner embed: filters by the voucher's wallet without returning it
+      return unwrap(
+        await client
+          .from("voucher_transactions")
+          .select("*, vouchers!inner()")
+          .eq("vouchers.wallet_id", walletId)
+          .is("vouchers.deleted_at", null)
+          .order("occurred_at", { ascending: true })
+      ) as VoucherTransaction[];
+    },
+
+    async ledgers(voucherIds) {
+      const out: VoucherTransaction[] = [];
+      // the ids go into the query string, so long lists are fetched in batches
+      for (let i = 0; i < voucherIds.length; i += 100)
+        out.push(
+          ...(unwrap(
+            await client
+              .from("voucher_transactions")
+              .select("*")
+              .in("voucher_id", voucherIds.slice(i, i + 100))
+              .order("occurred_at", { ascending: true })
+          ) as VoucherTransaction[])
+        );
+      return out;
+    },
+
+    async record(voucherId, entries, opts) {
+      return record(voucherId, entries, opts?.expectedVersion);
+    },
+
+    async redeem(voucherId, amount, details, opts) {
+      if (!Number.isFinite(amount) || amount <= 0) throw new Error("Amount must be > 0");
+      return record(
+        voucherId,
+        [{ kind: "debit", amount, merchant: null, note: null, ...details }],
+        opts?.expectedVersion
+      );
+    },
+
+    subscribe(onChange) {
+      let channel: RealtimeChannel | null = null;
+      let closed = false;
+
+      const walletId = activeWallet();
+      sessionUserId().then((userId) => {
+        if (closed || !userId || !walletId) return;
+        channel = client
+          .channel(`vouchers:${walletId}:${crypto.randomUUID()}`)
+          .on(
+            "postgres_changes",
+            { event: "*", schema: "public", table: "vouchers", filter: `wallet_id=eq.${walletId}` },
+            async (payload) => {
+              if (payload.eventType === "DELETE") {
+                const id = (payload.old as Partial<Voucher>).id;
+                if (id) onChange({ type: "delete", id });
+                return;
+              }
+              // to the list, a voucher moving to the trash is a delete
+              const row = payload.new as Voucher;
+              if (row.deleted_at) return onChange({ type: "delete", id: row.id });
+              // broadcast rows carry no PIN; read it back (null if we may not see it)
+              const voucher = await get(row.id).catch(() => null);
+              if (voucher && !closed) onChange({ type: "upsert", voucher });
+            }
+          )
+          .subscribe();
+      });
+
+      return () => {
+        closed = true;
+        if (channel) client.removeChannel(channel);
+      };
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Voucher, VoucherTransfer } from "../types";
+import { isEncrypted } from "../lib/crypto";
+
+// The transfers migration raises these by name
+function friendly(message: string) {
+  if (/transfer_to_self/.test(message)) return "You can't transfer a voucher to yourself";
+  if (/transfer_pending/.test(message)) return "This voucher already has a pending transfer";
+  if (/transfer_not_found/.test(message)) return "This transfer is no longer available";
+  if (/wallet_not_writable/.test(message)) return "You can't add vouchers to that wallet";
+  return message;
+}
+
+function unwrap<T>({ data, error }: { data: T | null; error: { message: string } | null }): T {
+  if (error) throw new Error(friendly(error.message));
+  return data as T;
+}
+
+// Offering vouchers to other accounts. A voucher leaving the wallet can't stay
+// encrypted with the sender's passphrase, so the offer carries its decrypted
+// secrets; the backend keeps them apart and only writes them onto the voucher
+// on acceptance (see the transfer_secrets migration).
+export function createTransfers(client: SupabaseClient) {
+  async function email() {
+    const {
+      data: { session },
+    } = await client.auth.getSession();
+    return session?.user.email?.toLowerCase() ?? null;
+  }
+
+  return {
+    // Pending offers addressed to the signed-in user
+    async incoming() {
+      const to = await email();
+      if (!to) return [];
+      return unwrap(
+        await client
+          .from("voucher_transfers")
+          .select("*")
+          .eq("status", "pending")
+          .eq("to_email", to)
+          .order("created_at", { ascending: true })
+      ) as VoucherTransfer[];
+    },
+
+    // Pending and accepted transfers out of a wallet
+    async outgoing(walletId: string) {
+      return unwrap(
+        await client
+          .from("voucher_transfers")
+          .select("*")
+          .eq("from_wallet", walletId)
+          .in("status", ["pending", "accepted"])
+          .order("created_at", { ascending: false })
+      ) as VoucherTransfer[];
+    },
+
+    // `v` as the app shows it, i.e. decrypted
+    async offer(v: Voucher, to: string) {
+      const address = to.trim().toLowerCase();
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) throw new Error("Enter a valid email address");
+      if (isEncrypted(v.code) || isEncrypted(v.pin))
+        throw new Error("Unlock encryption to give this voucher away.");
+      return unwrap(
+        await client.rpc("offer_voucher_transfer", {
+          p_voucher: v.id,
+          p_email: address,
+          p_code: v.code,
+          p_pin: v.pin,
+        })
+      ) as VoucherTransfer;
+    },
+
+    async accept(transferId: string, walletId: string) {
+      const t = unwrap(
+        await client.rpc("accept_voucher_transfer", { p_transfer: transferId, p_wallet: walletId })
+      ) as VoucherTransfer;
+      if (t.status !== "accepted") throw new Error("The sender deleted this voucher");
+      return t;
+    },
+
+    // Declines an offer made to us, or cancels one we made
+    async close(transferId: string) {
+      return unwrap(
+        await client.rpc("close_voucher_transfer", { p_transfer: transferId })
+      ) as VoucherTransfer;
+    },
+  };
+}
+
+export type Transfers = ReturnType<typeof createTransfers>;
@@ -0,0 +1,192 @@
+import {
+  PBKDF2_ITERATIONS,
+  checkVerifier,
+  decryptText,
+  deriveKey,
+  deriveKeyBytes,
+  encryptText,
+  fromBase64,
+  importAesKey,
+  isEncrypted,
+  makeVerifier,
+  randomBytes,
+  toBase64,
+} from "../lib/crypto";
+
+// Stored per user; never contains the passphrase or the key
+export type VaultMeta = {
+  version: 1;
+  salt: string;
+  iterations: number;
+  verifier: string;
+  // Set while secrets are being rewritten under this key, so an interrupted
+  // setup / passphrase change picks up again on the next unlock. previousKey
+  // is the old key's bytes sealed under this one (null for a first setup).
+  pending?: { previousKey: string | null };
+};
+
+export interface VaultMetaStore {
+  load(): Promise<VaultMeta | null>;
+  save(meta: VaultMeta): Promise<void>;
+}
+
+// off: secrets are stored in plaintext; locked: set up but no key in memory
+export type VaultStatus = "loading" | "off" | "locked" | "unlocked";
+
+type Codec = (value: string) => Promise<string>;
+
+// Rewrites every stored code / PIN: decode with the old scheme, encode with the new
+export type RewriteSecrets = (decode: Codec, encode: Codec) => Promise<void>;
+
+export type Vault = ReturnType<typeof createVault>;
+
+// Holds the passphrase-derived key in memory for the session. Encryption
+// happens in the repository layer (see encryptingRepository).
+export function createVault(store: VaultMetaStore, rewrite: RewriteSecrets) {
+  let status: VaultStatus = "loading";
+  let meta: VaultMeta | null = null;
+  let key: CryptoKey | null = null;
+  // the key being replaced, while a rewrite is pending
+  let previous: CryptoKey | null = null;
+  const listeners = new Set<() => void>();
+
+  function set(next: VaultStatus) {
+    status = next;
+    listeners.forEach((l) => l());
+  }
+
+  const keyFor = (passphrase: string, m: VaultMeta) =>
+    deriveKey(passphrase, fromBase64(m.salt), m.iterations);
+
+  async function newMeta(passphrase: string) {
+    const m: VaultMeta = {
+      version: 1,
+      salt: toBase64(randomBytes(16)),
+      iterations: PBKDF2_ITERATIONS,
+      verifier: "",
+    };
+    const k = await keyFor(passphrase, m);
+    return { meta: { ...m, verifier: await makeVerifier(k) }, key: k };
+  }
+
+  async function unlockWith(passphrase: string) {
+    if (!meta) throw new Error("Encryption is not set up");
+    const k = await keyFor(passphrase, meta);
+    if (!(await checkVerifier(k, meta.verifier))) throw new Error("Wrong passphrase");
+    return k;
+  }
+
+  // Either key, for values written before or during a rewrite
+  async function open(value: string) {
+    try {
+      return await decryptText(key!, value);
+    } catch (e) {
+      if (!previous) throw e;
+      return decryptText(previous, value);
+    }
+  }
+
+  // Brings every stored secret under `key`, then drops the pending marker.
+  // Safe to repeat: values already under `key` are simply re-encrypted. On a
+  // failure the marker stays, and the next unlock tries again.
+  async function finishRewrite() {
+    const k = key!;
+    try {
+      await rewrite(
+        (v) => (isEncrypted(v) ? open(v) : Promise.resolve(v)),
+        (v) => encryptText(k, v)
+      );
+    } catch (e) {
+      throw new Error(`${(e as Error).message} Unlock again to retry.`);
+    }
+    const done: VaultMeta = { ...meta! };
+    delete done.pending;
+    await store.save(done);
+    meta = done;
+    previous = null;
+  }
+
+  // Saves the new settings before touching any secret, so no value can end up
+  // under a key that isn't recorded anywhere
+  async function switchTo(next: { meta: VaultMeta; key: CryptoKey }, oldBytes: Uint8Array | null) {
+    const pending = {
+      previousKey: oldBytes ? await encryptText(next.key, toBase64(oldBytes)) : null,
+    };
+    await store.save({ ...next.meta, pending });
+    previous = key;
+    meta = { ...next.meta, pending };
+    key = next.key;
+    set("unlocked");
+    await finishRewrite();
+  }
+
+  return {
+    status: () => status,
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    // (Re)reads the per-user settings, e.g. after login; drops any key in memory
+    async load() {
+      key = null;
+      previous = null;
+      try {
+        meta = await store.load();
+      } catch {
+        meta = null;
+      }
+      set(meta ? "locked" : "off");
+    },
+
+    async unlock(passphrase: string) {
+      key = await unlockWith(passphrase);
+      const sealed = meta!.pending?.previousKey;
+      previous = sealed ? await importAesKey(fromBase64(await decryptText(key, sealed))) : null;
+      set("unlocked");
+      // an earlier setup / passphrase change stopped halfway; a failure here is
+      // reported, though the vault stays unlocked
+      if (meta!.pending) await finishRewrite();
+    },
+
+    lock() {
+      key = null;
+      previous = null;
+      set(meta ? "locked" : "off");
+    },
+
+    // Turns encryption on and encrypts every existing plaintext code / PIN
+    async setup(passphrase: string) {
+      if (meta) throw new Error("Encryption is already set up");
+      await switchTo(await newMeta(passphrase), null);
+    },
+
+    // Re-encrypts every secret under a key derived from the new passphrase
+    async changePassphrase(current: string, nextPassphrase: string) {
+      if (meta?.pending) throw new Error("Unlock to finish the last passphrase change first");
+      key = await unlockWith(current);
+      const oldBytes = await deriveKeyBytes(current, fromBase64(meta!.salt), meta!.iterations);
+      await switchTo(await newMeta(nextPassphrase), oldBytes);
+    },
+
+    // Plaintext -> ciphertext for storage; ciphertext (e.g. from an import) passes through
+    async encrypt(value: string | null): Promise<string | null> {
+      if (!value || isEncrypted(value) || status === "off") return value;
+      if (!key) throw new Error("Unlock encryption to save codes and PINs");
+      return encryptText(key, value);
+    },
+
+    // Ciphertext -> plaintext for display; stays ciphertext while locked
+    async decrypt(value: string | null): Promise<string | null> {
+      if (!isEncrypted(value) || !key) return value;
+      try {
+        return await open(value);
+      } catch {
+        return value;
+      }
+    },
+  };
+}
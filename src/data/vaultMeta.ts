@@ -0,0 +1,32 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { VaultMeta, VaultMetaStore } from "./vault";
+
+// Salt + verifier live in the user's auth metadata, so they arrive with the
+// session and are readable offline
+export function createSupabaseVaultMetaStore(client: SupabaseClient): VaultMetaStore {
+  return {
+    async load() {
+      const {
+        data: { session },
+      } = await client.auth.getSession();
+      return (session?.user.user_metadata?.vault as VaultMeta | undefined) ?? null;
+    },
+
+    async save(meta) {
+      const { error } = await client.auth.updateUser({ data: { vault: meta } });
+      if (error) throw new Error(error.message);
+    },
+  };
+}
+
+export function createMemoryVaultMetaStore(): VaultMetaStore {
+  let stored: VaultMeta | null = null;
+  return {
+    async load() {
+      return stored;
+    },
+    async save(meta) {
+      stored = meta;
+    },
+  };
+}
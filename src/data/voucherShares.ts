@@ -0,0 +1,103 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Voucher, VoucherShare } from "../types";
+import { createLinkKey, decryptText, encryptText, importLinkKey, isEncrypted } from "../lib/crypto";
+import type { ShareSecret } from "../lib/shareLinks";
+import { shareUrl } from "../lib/shareLinks";
+
+// Only the non-secret columns are readable (see the voucher_shares migration)
+const SHARE_COLUMNS =
+  "id, voucher_id, has_passcode, expires_at, max_views, views, failed_attempts, revoked_at, created_by, created_at";
+
+export type ShareWithOpens = VoucherShare & { opens: string[] };
+
+export type SharedVoucher = Pick<
+  Voucher,
+  "name" | "category" | "value" | "spent" | "status" | "expires_on" | "barcode_format"
+>;
+
+export type OpenedShare = {
+  status: "ok";
+  voucher: SharedVoucher;
+  secret: ShareSecret;
+  expires_at: string;
+  views_left: number | null;
+};
+
+type ShareRefusal =
+  | { status: "wrong_passcode"; attempts_left: number }
+  // bad_key: the #fragment is missing or damaged, so the code can't be read
+  | { status: "not_found" | "revoked" | "locked" | "expired" | "used_up" | "passcode_required" | "bad_key" };
+
+export type ShareOpenResult = OpenedShare | ShareRefusal;
+
+// as open_voucher_share returns it, before the secret is decrypted
+type RawOpenResult = (Omit<OpenedShare, "secret"> & { secret: string }) | ShareRefusal;
+
+export type NewShare = { hours: number; maxViews: number | null; passcode: string };
+
+function unwrap<T>({ data, error }: { data: T | null; error: { message: string } | null }): T {
+  if (error) throw new Error(error.message);
+  return data as T;
+}
+
+// Share links for single vouchers. The link key never reaches the server:
+// it is generated here and only returned inside the URL.
+export function createVoucherShares(client: SupabaseClient) {
+  return {
+    async list(voucherId: string): Promise<ShareWithOpens[]> {
+      const rows = unwrap(
+        await client
+          .from("voucher_shares")
+          .select(`${SHARE_COLUMNS}, voucher_share_opens(opened_at)`)
+          .eq("voucher_id", voucherId)
+          .order("created_at", { ascending: false })
+      ) as (VoucherShare & { voucher_share_opens: { opened_at: string }[] })[];
+      return rows.map(({ voucher_share_opens, ...s }) => ({
+        ...s,
+        opens: voucher_share_opens.map((o) => o.opened_at).sort().reverse(),
+      }));
+    },
+
+    // `v` must carry its plaintext code / PIN (vault unlocked)
+    async create(v: Voucher, opts: NewShare) {
+      if (isEncrypted(v.code) || isEncrypted(v.pin))
+        throw new Error("Unlock encryption to share this voucher's code and PIN.");
+      const { key, encoded } = await createLinkKey();
+      const secret: ShareSecret = { code: v.code, pin: v.pin };
+      const expiresAt = new Date(Date.now() + opts.hours * 3_600_000).toISOString();
+      const id = unwrap(
+        await client.rpc("create_voucher_share", {
+          p_voucher: v.id,
+          p_secret: await encryptText(key, JSON.stringify(secret)),
+          p_expires_at: expiresAt,
+          p_max_views: opts.maxViews,
+          p_passcode: opts.passcode || null,
+        })
+      ) as string;
+      return { id, expiresAt, url: shareUrl(window.location.origin, id, encoded) };
+    },
+
+    // Once revoked a link stays revoked (see the revoke_voucher_share migration)
+    async revoke(shareId: string) {
+      unwrap(await client.rpc("revoke_voucher_share", { p_share: shareId }));
+    },
+
+    // Public: counts as a view when it succeeds
+    async open(shareId: string, key: string, passcode?: string): Promise<ShareOpenResult> {
+      // don't spend a view on a link that can't be decrypted anyway
+      if (!key) return { status: "bad_key" };
+      const result = unwrap(
+        await client.rpc("open_voucher_share", { p_share: shareId, p_passcode: passcode || null })
+      ) as RawOpenResult;
+      if (result.status !== "ok") return result;
+      try {
+        const plain = await decryptText(await importLinkKey(key), result.secret);
+        return { ...result, secret: JSON.parse(plain) as ShareSecret };
+      } catch {
+        return { status: "bad_key" };
+      }
+    },
+  };
+}
+
+export type VoucherShares = ReturnType<typeof createVoucherShares>;
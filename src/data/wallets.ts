@@ -0,0 +1,240 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Wallet, WalletInvite, WalletMember, WalletRole } from "../types";
+
+// `members` counts the user too; 1 means nobody else can open the wallet
+export type MemberWallet = Wallet & { role: WalletRole; members: number };
+
+// An invitation addressed to the signed-in user
+export type ReceivedInvite = WalletInvite & { wallet_name: string | null };
+
+export type WalletsState = {
+  loaded: boolean;
+  wallets: MemberWallet[];
+  activeId: string | null;
+  invites: ReceivedInvite[];
+};
+
+const empty: WalletsState = { loaded: false, wallets: [], activeId: null, invites: [] };
+
+// Wallet list and the open wallet, cached per user so the app still opens offline
+const cacheKey = (userId: string) => `vw:wallets:${userId}`;
+
+function unwrap<T>({ data, error }: { data: T | null; error: { message: string } | null }): T {
+  if (error) throw new Error(friendly(error.message));
+  return data as T;
+}
+
+// The wallets migration raises these by name
+function friendly(message: string) {
+  if (/last_owner/.test(message)) return "A wallet needs at least one owner";
+  if (/invite_not_found/.test(message)) return "This invitation is no longer valid";
+  if (/wallet_invites_email_key|duplicate key/.test(message)) return "That address is already invited";
+  return message;
+}
+
+// Wallets the user belongs to, the one they have open and invitations waiting
+// for them. The repositories read `activeId` to scope every query.
+export function createWallets(client: SupabaseClient) {
+  let state: WalletsState = empty;
+  let userId: string | null = null;
+  const listeners = new Set<() => void>();
+
+  function set(next: Partial<WalletsState>) {
+    state = { ...state, ...next };
+    if (userId) {
+      try {
+        localStorage.setItem(
+          cacheKey(userId),
+          JSON.stringify({ wallets: state.wallets, activeId: state.activeId })
+        );
+      } catch {
+        // storage unavailable: keep it for this session only
+      }
+    }
+    listeners.forEach((l) => l());
+  }
+
+  async function session() {
+    const {
+      data: { session },
+    } = await client.auth.getSession();
+    return session;
+  }
+
+  async function fetchWallets() {
+    const rows = unwrap(
+      await client
+        .from("wallet_members")
+        .select("role, wallets(*, wallet_members(count))")
+        .eq("user_id", userId!)
+    ) as unknown as {
+      role: WalletRole;
+      wallets: (Wallet & { wallet_members: { count: number }[] }) | null;
+    }[];
+    return rows
+      .filter((r) => r.wallets)
+      .map((r) => {
+        const { wallet_members, ...w } = r.wallets!;
+        return { ...w, role: r.role, members: wallet_members[0]?.count ?? 0 };
+      })
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  async function fetchInvites(email: string | undefined) {
+    if (!email) return [];
+    const rows = unwrap(
+      await client.from("wallet_invites").select("*, wallets(name)").ilike("email", email)
+    ) as (WalletInvite & { wallets: { name: string } | null })[];
+    // owners also see the invites they sent; only keep the ones for us
+    return rows
+      .filter((r) => !state.wallets.some((w) => w.id === r.wallet_id))
+      .map(({ wallets, ...i }) => ({ ...i, wallet_name: wallets?.name ?? null }));
+  }
+
+  const pick = (wallets: MemberWallet[], preferred: string | null) =>
+    wallets.find((w) => w.id === preferred)?.id ?? wallets[0]?.id ?? null;
+
+  async function refresh(preferred = state.activeId) {
+    let wallets = await fetchWallets();
+    // everyone starts with a personal wallet
+    if (!wallets.length) {
+      unwrap(await client.from("wallets").insert({ name: "My wallet" }));
+      wallets = await fetchWallets();
+    }
+    set({ wallets, activeId: pick(wallets, preferred), loaded: true });
+    set({ invites: await fetchInvites((await session())?.user.email) });
+  }
+
+  return {
+    get: () => state,
+
+    activeId: () => state.activeId,
+
+    // Only wallets nobody else can open get passphrase-encrypted secrets;
+    // unknown wallets (e.g. an outdated cache) count as shared
+    isPersonal: (walletId: string | null) =>
+      state.wallets.find((w) => w.id === walletId)?.members === 1,
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    // Call on login / user change; starts from the cached list, then refreshes
+    async load() {
+      const s = await session();
+      userId = s?.user.id ?? null;
+      if (!userId) return set({ ...empty, loaded: true });
+      let cached: Partial<WalletsState> = {};
+      try {
+        cached = JSON.parse(localStorage.getItem(cacheKey(userId)) ?? "{}");
+      } catch {
+        // unreadable cache: fetch from scratch
+      }
+      set({ ...empty, wallets: cached.wallets ?? [], activeId: cached.activeId ?? null });
+      try {
+        await refresh();
+      } catch {
+        // offline: keep the cached wallets
+        set({ loaded: true });
+      }
+    },
+
+    switchTo(id: string) {
+      if (id !== state.activeId && state.wallets.some((w) => w.id === id)) set({ activeId: id });
+    },
+
+    async create(name: string) {
+      const wallet = unwrap(
+        await client.from("wallets").insert({ name: name.trim() }).select().single()
+      ) as Wallet;
+      await refresh(wallet.id);
+      return wallet;
+    },
+
+    async rename(id: string, name: string) {
+      unwrap(await client.from("wallets").update({ name: name.trim() }).eq("id", id));
+      await refresh();
+    },
+
+    async setViewersSeePins(id: string, allowed: boolean) {
+      unwrap(await client.from("wallets").update({ viewers_see_pins: allowed }).eq("id", id));
+      await refresh();
+    },
+
+    // Deletes the wallet and every voucher in it
+    async remove(id: string) {
+      unwrap(await client.from("wallets").delete().eq("id", id));
+      await refresh();
+    },
+
+    async members(walletId: string) {
+      return unwrap(
+        await client
+          .from("wallet_members")
+          .select("*")
+          .eq("wallet_id", walletId)
+          .order("created_at", { ascending: true })
+      ) as WalletMember[];
+    },
+
+    async setRole(walletId: string, memberId: string, role: WalletRole) {
+      unwrap(
+        await client
+          .from("wallet_members")
+          .update({ role })
+          .eq("wallet_id", walletId)
+          .eq("user_id", memberId)
+      );
+      if (memberId === userId) await refresh();
+    },
+
+    async removeMember(walletId: string, memberId: string) {
+      unwrap(
+        await client.from("wallet_members").delete().eq("wallet_id", walletId).eq("user_id", memberId)
+      );
+      // member counts decide whether new secrets are encrypted
+      await refresh();
+    },
+
+    async leave(walletId: string) {
+      await this.removeMember(walletId, userId!);
+    },
+
+    // Pending invitations sent from a wallet (owners only)
+    async sentInvites(walletId: string) {
+      return unwrap(
+        await client
+          .from("wallet_invites")
+          .select("*")
+          .eq("wallet_id", walletId)
+          .order("created_at", { ascending: true })
+      ) as WalletInvite[];
+    },
+
+    // No mail goes out: the invitee sees it in the app after signing in with that address
+    async invite(walletId: string, email: string, role: WalletInvite["role"]) {
+      const address = email.trim().toLowerCase();
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) throw new Error("Enter a valid email address");
+      unwrap(await client.from("wallet_invites").insert({ wallet_id: walletId, email: address, role }));
+    },
+
+    async revokeInvite(id: string) {
+      unwrap(await client.from("wallet_invites").delete().eq("id", id));
+    },
+
+    async acceptInvite(id: string) {
+      const walletId = unwrap(await client.rpc("accept_wallet_invite", { p_invite: id })) as string;
+      await refresh(walletId);
+    },
+
+    async declineInvite(id: string) {
+      unwrap(await client.from("wallet_invites").delete().eq("id", id));
+      set({ invites: state.invites.filter((i) => i.id !== id) });
+    },
+  };
+}
+
+export type Wallets = ReturnType<typeof createWallets>;
@@ -0,0 +1,83 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import type { Voucher } from "../types";
+import { vouchersRepo } from "../data";
+import { MASKED, inr } from "../lib/format";
+import { evaluateRules } from "../lib/notifications";
+import { notificationState } from "../lib/notificationState";
+import { applyChange } from "../lib/voucher";
+import { usePrivacyMode } from "./usePrivacyMode";
+import { useSyncStatus } from "./useSyncStatus";
+import { useWallets } from "./useWallets";
+
+// rules depend on the date, so re-evaluate even when nothing changes
+const TICK_MS = 15 * 60_000;
+
+// Notifications for the vouchers in the open wallet. `userKey` changes on
+// login / logout so the list is reloaded for the new user.
+export function useNotifications(userKey: string | null) {
+  const state = useSyncExternalStore(notificationState.subscribe, notificationState.get);
+  const privacy = usePrivacyMode();
+  const syncStatus = useSyncStatus();
+  const { activeId: walletId } = useWallets();
+  const [list, setList] = useState<Voucher[] | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    let alive = true;
+    vouchersRepo
+      .list()
+      .then((l) => alive && setList(l))
+      .catch(() => {
+        // keep the last list on a failed refresh
+      });
+    const unsubscribe = vouchersRepo.subscribe((change) => {
+      setList((l) => (l ? applyChange(l, change) : l));
+      // a voucher moved to the trash (or another wallet) still exists
+      if (change.type === "delete") {
+        vouchersRepo
+          .get(change.id)
+          .then((v) => {
+            if (!v) notificationState.forget([change.id]);
+          })
+          .catch(() => {
+            // keep the marks; age prunes them eventually
+          });
+      }
+    });
+    return () => {
+      alive = false;
+      unsubscribe();
+    };
+  }, [userKey, syncStatus.lastSyncedAt, walletId]);
+
+  useEffect(() => {
+    const t = window.setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => window.clearInterval(t);
+  }, []);
+
+  const all = useMemo(
+    () =>
+      list
+        ? evaluateRules(list, state.settings, now, (n) => (privacy ? MASKED : inr(n)))
+        : [],
+    [list, state.settings, now, privacy]
+  );
+
+  useEffect(() => notificationState.prune(now), [now]);
+
+  const items = all
+    .filter((n) => !state.dismissed[n.id] && (state.snoozed[n.id] ?? 0) <= now)
+    .map((n) => ({ ...n, read: !!state.read[n.id] }));
+  const unread = items.filter((n) => !n.read);
+
+  // Browser alerts for anything new, once per notification
+  const fresh = unread.filter((n) => !state.alerted[n.id]);
+  useEffect(() => {
+    if (!fresh.length || !state.settings.browser) return;
+    if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+    for (const n of fresh) new Notification(n.title, { body: n.body, tag: n.id });
+    notificationState.markAlerted(fresh.map((n) => n.id));
+  }, [fresh, state.settings.browser]);
+
+  return { items, unread: unread.length, settings: state.settings };
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { privacyMode } from "../lib/privacy";
+
+export function usePrivacyMode(): boolean {
+  return useSyncExternalStore(privacyMode.subscribe, privacyMode.get);
+}
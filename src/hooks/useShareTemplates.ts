@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { shareTemplateState } from "../lib/shareTemplateState";
+import type { ShareTemplateState } from "../lib/shareTemplateState";
+
+export function useShareTemplates(): ShareTemplateState {
+  return useSyncExternalStore(shareTemplateState.subscribe, shareTemplateState.get);
+}
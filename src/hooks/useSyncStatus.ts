@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from "react";
+import { offlineSync } from "../data";
+import type { SyncSnapshot } from "../data";
+
+const idle: SyncSnapshot = { online: true, syncing: false, lastSyncedAt: null, vouchers: {} };
+const noop = () => () => {};
+
+// Online state and per-voucher pending / failed writes from the offline queue
+export function useSyncStatus(): SyncSnapshot {
+  return useSyncExternalStore(
+    offlineSync ? offlineSync.onStatusChange : noop,
+    offlineSync ? offlineSync.snapshot : () => idle
+  );
+}
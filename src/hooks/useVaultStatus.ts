@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { vault } from "../data";
+import type { VaultStatus } from "../data";
+
+export function useVaultStatus(): VaultStatus {
+  return useSyncExternalStore(vault.subscribe, vault.status);
+}
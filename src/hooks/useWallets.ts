@@ -0,0 +1,22 @@
+import { useSyncExternalStore } from "react";
+import { wallets } from "../data";
+import type { WalletsState } from "../data";
+import type { WalletRole } from "../types";
+
+const none: WalletsState = { loaded: true, wallets: [], activeId: null, invites: [] };
+const noop = () => () => {};
+
+// Wallets the user belongs to and the open one; empty for the in-memory backend
+export function useWallets(): WalletsState {
+  return useSyncExternalStore(
+    wallets ? wallets.subscribe : noop,
+    wallets ? wallets.get : () => none
+  );
+}
+
+// The user's role in the open wallet; without shared wallets everything is theirs
+export function useWalletRole(): WalletRole {
+  const { wallets: list, activeId } = useWallets();
+  if (!wallets) return "owner";
+  return list.find((w) => w.id === activeId)?.role ?? "viewer";
+}
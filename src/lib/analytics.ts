@@ -0,0 +1,106 @@
+import type { Voucher, VoucherTransaction } from "../types";
+import { signedAmount } from "./ledger";
+import { deriveStatus, remaining } from "./voucher";
+
+// Inclusive yyyy-mm-dd bounds; null = open-ended
+export type DateRange = { from: string | null; to: string | null };
+
+const DAY = 86_400_000;
+
+const inRange = (iso: string, r: DateRange) => {
+  const day = iso.slice(0, 10);
+  return (!r.from || day >= r.from) && (!r.to || day <= r.to);
+};
+
+export const monthOf = (iso: string) => iso.slice(0, 7);
+
+export function monthLabel(month: string) {
+  const [y, m] = month.split("-").map(Number);
+  return new Date(y, m - 1, 1).toLocaleDateString(undefined, { month: "short", year: "numeric" });
+}
+
+type Entry = Pick<VoucherTransaction, "voucher_id" | "kind" | "amount" | "occurred_at">;
+
+// Ledger entries plus a stand-in for vouchers whose spent predates the ledger
+// (their opening entry is only written when the history is first opened)
+export function spendEntries(list: Voucher[], entries: VoucherTransaction[]): Entry[] {
+  const ids = new Set(list.map((v) => v.id));
+  const withLedger = new Set(entries.map((t) => t.voucher_id));
+  const opening = list
+    .filter((v) => v.spent > 0 && !withLedger.has(v.id))
+    .map<Entry>((v) => ({
+      voucher_id: v.id,
+      kind: "adjustment",
+      amount: v.spent,
+      occurred_at: v.created_at,
+    }));
+  return [...entries.filter((t) => ids.has(t.voucher_id)), ...opening];
+}
+
+// Net spend per month (refunds and corrections included), oldest first
+export function spendByMonth(entries: Entry[], range: DateRange) {
+  const byMonth = new Map<string, number>();
+  for (const t of entries) {
+    if (!inRange(t.occurred_at, range)) continue;
+    const m = monthOf(t.occurred_at);
+    byMonth.set(m, (byMonth.get(m) ?? 0) + signedAmount(t));
+  }
+  return [...byMonth.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, spent]) => ({ month, label: monthLabel(month), spent: Math.round(spent * 100) / 100 }));
+}
+
+// Spendable balance (not used up, not expired) grouped by `key`, largest first
+function remainingBy(list: Voucher[], key: (v: Voucher) => string, limit?: number) {
+  const totals = new Map<string, number>();
+  for (const v of list) {
+    if (deriveStatus(v) !== "unused" || remaining(v) <= 0) continue;
+    totals.set(key(v), (totals.get(key(v)) ?? 0) + remaining(v));
+  }
+  return [...totals.entries()]
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, limit);
+}
+
+export const remainingByCategory = (list: Voucher[]) => remainingBy(list, (v) => v.category);
+
+export const remainingByName = (list: Voucher[], limit = 10) =>
+  remainingBy(list, (v) => v.name.trim(), limit);
+
+// Redemptions per month and, for vouchers used up that month, the average
+// number of days it took from adding them to spending the last rupee
+export function redemptionVelocity(list: Voucher[], entries: Entry[], range: DateRange) {
+  const months = new Map<string, { redemptions: number; days: number[] }>();
+  const at = (m: string) => {
+    if (!months.has(m)) months.set(m, { redemptions: 0, days: [] });
+    return months.get(m)!;
+  };
+
+  for (const t of entries)
+    if (t.kind === "debit" && inRange(t.occurred_at, range)) at(monthOf(t.occurred_at)).redemptions++;
+
+  const lastDebit = new Map<string, string>();
+  for (const t of entries)
+    if (t.kind === "debit" && t.occurred_at > (lastDebit.get(t.voucher_id) ?? ""))
+      lastDebit.set(t.voucher_id, t.occurred_at);
+  for (const v of list) {
+    const last = lastDebit.get(v.id);
+    if (v.status !== "used" || !last || !inRange(last, range)) continue;
+    const days = (new Date(last).getTime() - new Date(v.created_at).getTime()) / DAY;
+    at(monthOf(last)).days.push(Math.max(0, days));
+  }
+
+  return [...months.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, { redemptions, days }]) => ({
+      month,
+      label: monthLabel(month),
+      redemptions,
+      daysToUseUp: days.length ? Math.round(days.reduce((a, d) => a + d, 0) / days.length) : null,
+    }));
+}
+
+// Vouchers with ledger activity in a given month (yyyy-mm)
+export const activeInMonth = (entries: Entry[], month: string) =>
+  new Set(entries.filter((t) => monthOf(t.occurred_at) === month).map((t) => t.voucher_id));
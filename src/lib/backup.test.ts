@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { makeEntry, makeVoucher } from "../test/fixtures";
+import { BACKUP_VERSION, makeBackup, parseBackup, planRestore } from "./backup";
+
+const backupOf = (vouchers = [makeVoucher()]) =>
+  makeBackup(
+    "u1",
+    vouchers.map((v) => ({ ...v, transactions: [makeEntry({ voucher_id: v.id })] }))
+  );
+
+describe("parseBackup", () => {
+  it("round-trips a backup", () => {
+    const backup = backupOf();
+    expect(parseBackup(JSON.stringify(backup))).toEqual(backup);
+  });
+
+  it("fills in fields older backups don't have and drops the old wallet id", () => {
+    const voucher: Record<string, unknown> = { ...backupOf().vouchers[0] };
+    delete voucher.wallet_id;
+    delete voucher.barcode_format;
+    delete voucher.deleted_at;
+    const parsed = parseBackup(JSON.stringify({ ...backupOf(), wallet_id: "w1", vouchers: [voucher] }));
+    expect(parsed).not.toHaveProperty("wallet_id");
+    expect(parsed.vouchers[0]).toMatchObject({ wallet_id: null, barcode_format: null, deleted_at: null });
+  });
+
+  it("requires the nullable keys to be present", () => {
+    const voucher: Record<string, unknown> = { ...backupOf().vouchers[0] };
+    delete voucher.code;
+    expect(() => parseBackup(JSON.stringify({ ...backupOf(), vouchers: [voucher] }))).toThrow(
+      "vouchers.0.code"
+    );
+  });
+
+  it("explains what is wrong with a file", () => {
+    expect(() => parseBackup("{")).toThrow("isn't valid JSON");
+    expect(() => parseBackup(JSON.stringify({ ...backupOf(), version: BACKUP_VERSION + 1 }))).toThrow(
+      "newer version"
+    );
+    expect(() => parseBackup(JSON.stringify({ format: "other" }))).toThrow("Not a wallet backup");
+  });
+});
+
+describe("planRestore", () => {
+  it("keeps ids only for the same account", () => {
+    const backup = backupOf();
+    expect(planRestore(backup, [], "merge", "u1", ["w1"], "w1").keepIds).toBe(true);
+    expect(planRestore(backup, [], "merge", "u2", ["w1"], "w1").keepIds).toBe(false);
+    expect(planRestore(backup, [], "merge", null, [], null).keepIds).toBe(false);
+  });
+
+  it("restores each voucher into its own wallet when it can, else the open one", () => {
+    const backup = backupOf([
+      makeVoucher({ id: "a", wallet_id: "w1", code: "AAA" }),
+      makeVoucher({ id: "b", wallet_id: "w2", code: "BBB" }),
+      makeVoucher({ id: "c", wallet_id: "gone", code: "CCC" }),
+    ]);
+    const plan = planRestore(backup, [], "merge", "u1", ["w1", "w2"], "w2");
+    expect(plan.create.map((v) => [v.id, v.wallet_id])).toEqual([
+      ["a", "w1"],
+      ["b", "w2"],
+      ["c", "w2"],
+    ]);
+  });
+
+  it("merges by skipping what the wallet already has", () => {
+    const same = makeVoucher({ id: "a", code: "AAA" });
+    const lookalike = makeVoucher({ id: "b", code: "bb-b" });
+    const fresh = makeVoucher({ id: "c", code: "CCC" });
+    const current = [same, makeVoucher({ id: "other", code: "BBB" })];
+    const plan = planRestore(backupOf([same, lookalike, fresh]), current, "merge", "u1", ["w1"], "w1");
+    expect(plan.create.map((v) => v.id)).toEqual(["c"]);
+    expect(plan.skip.map((s) => [s.voucher.id, s.reason])).toEqual([
+      ["a", "Already in your wallets"],
+      ["b", "Duplicate of a voucher in your wallets"],
+    ]);
+    expect(plan.remove).toEqual([]);
+  });
+
+  it("replaces everything in replace mode", () => {
+    const current = [makeVoucher({ id: "x" })];
+    const plan = planRestore(backupOf(), current, "replace", "u1", ["w1"], "w1");
+    expect(plan.remove).toEqual(current);
+    expect(plan.create).toHaveLength(1);
+  });
+});
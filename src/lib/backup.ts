@@ -0,0 +1,157 @@
+import { z } from "zod";
+import type { Voucher, VoucherTransaction } from "../types";
+import { duplicateKey } from "./duplicates";
+
+// Bump when the archive layout changes; older archives must keep restoring
+export const BACKUP_VERSION = 1;
+const BACKUP_FORMAT = "voucher-wallet-backup";
+
+export type BackupVoucher = Voucher & { transactions: VoucherTransaction[] };
+
+// Every voucher of every wallet the user can write to; each keeps its wallet_id
+export type Backup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  // owner at export time; ids are only reused when restoring into the same account
+  user_id: string | null;
+  vouchers: BackupVoucher[];
+};
+
+export function makeBackup(userId: string | null, vouchers: BackupVoucher[]): Backup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    user_id: userId,
+    vouchers,
+  };
+}
+
+export const backupFileName = (b: Backup) =>
+  `voucher-wallet-backup-${b.exported_at.slice(0, 10)}.json`;
+
+// z.string().nullable() reads the same, but without strictNullChecks (the
+// build config) zod infers such keys as optional and the parsed archive would
+// no longer be a Backup; a custom check keeps the key required in both configs
+const nullableString = z.custom<string | null>(
+  (v) => v === null || typeof v === "string",
+  "Expected text or null"
+);
+
+const transactionSchema = z.object({
+  id: z.string(),
+  voucher_id: z.string(),
+  user_id: nullableString,
+  kind: z.enum(["debit", "credit", "adjustment"]),
+  amount: z.number(),
+  merchant: nullableString,
+  note: nullableString,
+  occurred_at: z.string(),
+  reverses: nullableString,
+  created_at: z.string(),
+});
+
+const voucherSchema = z.object({
+  id: z.string(),
+  user_id: nullableString,
+  // backups from before wallets have none; they restore into the open wallet
+  wallet_id: z.string().nullable().default(null),
+  name: z.string().min(1),
+  value: z.number().positive(),
+  spent: z.number().min(0),
+  category: z.string(),
+  code: nullableString,
+  pin: nullableString,
+  expires_on: nullableString,
+  // added after v1 shipped; older backups leave it to be picked automatically
+  barcode_format: z.enum(["qr", "code128", "ean13"]).nullable().default(null),
+  status: z.enum(["unused", "used", "expired"]),
+  created_at: z.string(),
+  version: z.number(),
+  updated_at: z.string(),
+  // backups leave the trash out, so this is always null
+  deleted_at: z.string().nullable().default(null),
+  transactions: z.array(transactionSchema),
+});
+
+// Archives from before backups spanned every wallet also carry the open
+// wallet's id; it is dropped, since each voucher names its own wallet
+const backupSchema: z.ZodType<Backup> = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  exported_at: z.string(),
+  user_id: nullableString,
+  vouchers: z.array(voucherSchema),
+});
+
+export function parseBackup(text: string): Backup {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid JSON");
+  }
+  const version = (json as { version?: unknown } | null)?.version;
+  if (typeof version === "number" && version > BACKUP_VERSION)
+    throw new Error("This backup was made by a newer version of the app");
+  const parsed = backupSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Not a wallet backup (${issue.path.join(".") || "file"}: ${issue.message})`);
+  }
+  return parsed.data;
+}
+
+// merge: add what's missing and leave existing vouchers alone
+// replace: delete every current voucher, then restore the backup as-is
+export type RestoreMode = "merge" | "replace";
+
+export type RestorePlan = {
+  mode: RestoreMode;
+  // keep the backup's ids (same account); otherwise fresh ids are generated
+  keepIds: boolean;
+  // wallet_id is where each voucher will be restored
+  create: BackupVoucher[];
+  skip: { voucher: BackupVoucher; reason: string }[];
+  remove: Voucher[];
+};
+
+// Pure dry run: what a restore would do to `current`, every voucher in the
+// wallets the user can write to. Vouchers go back into their own wallet when
+// it is one of `writable`, otherwise into the open one (the in-memory backend
+// has no wallets, so everything is null there).
+export function planRestore(
+  backup: Backup,
+  current: Voucher[],
+  mode: RestoreMode,
+  userId: string | null,
+  writable: string[],
+  walletId: string | null
+): RestorePlan {
+  const keepIds = !!userId && backup.user_id === userId;
+  const plan: RestorePlan = { mode, keepIds, create: [], skip: [], remove: [] };
+  const placed = backup.vouchers.map((v) => ({
+    ...v,
+    wallet_id: v.wallet_id && writable.includes(v.wallet_id) ? v.wallet_id : walletId,
+  }));
+  if (mode === "replace") {
+    plan.remove = current;
+    plan.create = placed;
+    return plan;
+  }
+
+  const ids = new Set(current.map((v) => v.id));
+  const keys = new Set(current.map(duplicateKey).filter(Boolean));
+  for (const v of placed) {
+    const key = duplicateKey(v);
+    if (keepIds && ids.has(v.id)) plan.skip.push({ voucher: v, reason: "Already in your wallets" });
+    else if (key && keys.has(key))
+      plan.skip.push({ voucher: v, reason: "Duplicate of a voucher in your wallets" });
+    else {
+      plan.create.push(v);
+      if (key) keys.add(key);
+    }
+  }
+  return plan;
+}
@@ -0,0 +1,39 @@
+import type { BarcodeFormat, Voucher } from "../types";
+
+export const barcodeFormats: { key: BarcodeFormat; label: string }[] = [
+  { key: "qr", label: "QR code" },
+  { key: "code128", label: "Code 128" },
+  { key: "ean13", label: "EAN-13" },
+];
+
+// Check digit over the first 12 digits (weights 1,3,1,3,…)
+export function ean13CheckDigit(first12: string) {
+  const sum = [...first12].reduce((a, d, i) => a + Number(d) * (i % 2 ? 3 : 1), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+export const isEan13 = (code: string) =>
+  /^\d{13}$/.test(code) && ean13CheckDigit(code.slice(0, 12)) === code[12];
+
+// Symbology for codes the user hasn't set one for: real EAN-13s keep theirs,
+// anything else a 1D scanner can read goes out as Code 128
+export function autoBarcodeFormat(code: string): BarcodeFormat {
+  if (isEan13(code)) return "ean13";
+  if (/^[\x20-\x7e]{1,48}$/.test(code)) return "code128";
+  return "qr";
+}
+
+export const barcodeFormatOf = (v: Pick<Voucher, "code" | "barcode_format">) =>
+  v.barcode_format ?? autoBarcodeFormat(v.code ?? "");
+
+// Why `code` can't be drawn as `format`, or null when it can
+export function barcodeProblem(format: BarcodeFormat, code: string): string | null {
+  if (!code) return "This voucher has no code";
+  if (format === "ean13") {
+    if (!/^\d{12,13}$/.test(code)) return "EAN-13 needs 12 or 13 digits";
+    if (code.length === 13 && !isEan13(code)) return "The EAN-13 check digit doesn't match";
+  }
+  if (format === "code128" && !/^[\x20-\x7e]+$/.test(code))
+    return "Code 128 only supports plain ASCII characters";
+  return null;
+}
@@ -0,0 +1,15 @@
+export const CLIPBOARD_CLEAR_MS = 30_000;
+
+// Copies a secret and wipes it from the clipboard after a delay, unless the
+// user has copied something else in the meantime (when we're allowed to check).
+export async function copySecret(text: string, clearAfterMs = CLIPBOARD_CLEAR_MS) {
+  await navigator.clipboard.writeText(text);
+  window.setTimeout(async () => {
+    try {
+      if ((await navigator.clipboard.readText()) !== text) return;
+    } catch {
+      // read permission denied or page not focused: clear anyway
+    }
+    navigator.clipboard.writeText("").catch(() => {});
+  }, clearAfterMs);
+}
@@ -0,0 +1,105 @@
+// Field-level encryption for voucher secrets (code / PIN) with the Web Crypto API.
+// Ciphertext format: "enc:v1:<base64 iv>:<base64 AES-GCM ciphertext>"
+const PREFIX = "enc:v1:";
+const VERIFIER_TEXT = "voucher-wallet";
+
+export const PBKDF2_ITERATIONS = 310_000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function toBase64(bytes: Uint8Array): string {
+  let s = "";
+  bytes.forEach((b) => (s += String.fromCharCode(b)));
+  return btoa(s);
+}
+
+export function fromBase64(b64: string): Uint8Array<ArrayBuffer> {
+  const s = atob(b64);
+  const out = new Uint8Array(s.length);
+  for (let i = 0; i < s.length; i++) out[i] = s.charCodeAt(i);
+  return out;
+}
+
+export function randomBytes(n: number) {
+  return crypto.getRandomValues(new Uint8Array(n));
+}
+
+export function isEncrypted(value: string | null | undefined): value is string {
+  return !!value && value.startsWith(PREFIX);
+}
+
+// Raw AES-256 key bytes; only kept around while a passphrase change is
+// carrying secrets over from the old key (see vault)
+export async function deriveKeyBytes(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+) {
+  const base = await crypto.subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, [
+    "deriveBits",
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    base,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+export const importAesKey = (raw: Uint8Array<ArrayBuffer>) =>
+  crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+
+// Same key as deriving AES-GCM directly from PBKDF2
+export async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number) {
+  return importAesKey(await deriveKeyBytes(passphrase, salt, iterations));
+}
+
+export async function encryptText(key: CryptoKey, plaintext: string) {
+  const iv = randomBytes(12);
+  const ct = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, encoder.encode(plaintext));
+  return `${PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ct))}`;
+}
+
+// Throws if the key is wrong or the value was tampered with
+export async function decryptText(key: CryptoKey, value: string) {
+  const [iv, ct] = value.slice(PREFIX.length).split(":");
+  const pt = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    key,
+    fromBase64(ct)
+  );
+  return decoder.decode(pt);
+}
+
+// Known plaintext encrypted with the key, stored so a passphrase can be checked
+export const makeVerifier = (key: CryptoKey) => encryptText(key, VERIFIER_TEXT);
+
+export async function checkVerifier(key: CryptoKey, verifier: string) {
+  try {
+    return (await decryptText(key, verifier)) === VERIFIER_TEXT;
+  } catch {
+    return false;
+  }
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  toBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+// One-off key for a share link: the encoded form goes in the URL fragment,
+// which browsers never send to the server
+export async function createLinkKey() {
+  const raw = randomBytes(32);
+  return { key: await importAesKey(raw), encoded: toBase64Url(raw) };
+}
+
+export function importLinkKey(encoded: string) {
+  const b64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  return crypto.subtle.importKey(
+    "raw",
+    fromBase64(b64 + "=".repeat((4 - (b64.length % 4)) % 4)),
+    "AES-GCM",
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
@@ -0,0 +1,55 @@
+import type { Voucher } from "../types";
+import type { VoucherInput } from "../data/repository";
+import { findDuplicate } from "./duplicates";
+import type { ParsedVoucher } from "./messages";
+
+// Editable copy of a voucher pulled out of a message, reviewed before insert.
+// Value stays a string like the add form.
+export type Draft = {
+  include: boolean;
+  // where it came from, shown under the name ("Amazon · <mail subject>")
+  source: string;
+  duplicate: Voucher | null;
+  name: string;
+  value: string;
+  category: string;
+  code: string;
+  pin: string;
+  expires_on: string;
+};
+
+// Vouchers already in the wallet start out unticked
+export function toDraft(p: ParsedVoucher, existing: Voucher[], source = p.source): Draft {
+  const duplicate = findDuplicate(existing, p.input) ?? null;
+  return {
+    include: !duplicate,
+    source,
+    duplicate,
+    name: p.input.name,
+    value: p.input.value ? String(p.input.value) : "",
+    category: p.input.category,
+    code: p.input.code ?? "",
+    pin: p.input.pin ?? "",
+    expires_on: p.input.expires_on ?? "",
+  };
+}
+
+// Inputs for the ticked drafts, or the first problem that blocks saving them
+export function draftInputs(drafts: Draft[]): VoucherInput[] | string {
+  const inputs: VoucherInput[] = [];
+  for (const d of drafts) {
+    if (!d.include) continue;
+    const value = Number(d.value);
+    if (!d.name.trim()) return "Every voucher needs a name";
+    if (!Number.isFinite(value) || value <= 0) return `Enter a value for ${d.code || d.name}`;
+    inputs.push({
+      name: d.name.trim(),
+      value,
+      category: d.category,
+      code: d.code.trim() || null,
+      pin: d.pin.trim() || null,
+      expires_on: d.expires_on || null,
+    });
+  }
+  return inputs;
+}
@@ -0,0 +1,81 @@
+import type { Voucher } from "../types";
+import type { VoucherPatch } from "../data/repository";
+import type { NewTransaction } from "./ledger";
+import { isEncrypted } from "./crypto";
+import { inr } from "./format";
+
+// What to do when a new or edited voucher matches one we already have
+export type DuplicateChoice = "skip" | "overwrite" | "keep";
+
+export const duplicateChoiceLabels: Record<DuplicateChoice, string> = {
+  skip: "Skip",
+  overwrite: "Overwrite",
+  keep: "Keep both",
+};
+
+type Identity = Pick<Voucher, "name" | "value" | "code" | "expires_on">;
+
+// Codes are compared without case, spaces or dashes ("abcd-1234" == "ABCD 1234")
+export const normalizeCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+// Two vouchers are the same when their normalised codes match, or, when there
+// is no code, when name + value + expiry match. Ciphertext can't be compared
+// (every encryption uses a fresh IV), so encrypted codes never match.
+export function duplicateKey(v: Identity): string | null {
+  if (v.code && isEncrypted(v.code)) return null;
+  const code = normalizeCode(v.code ?? "");
+  if (code) return `code:${code}`;
+  const name = v.name.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!name) return null;
+  return `nve:${name}|${Number(v.value) || 0}|${v.expires_on?.slice(0, 10) ?? ""}`;
+}
+
+export function findDuplicate(
+  list: Voucher[],
+  candidate: Identity,
+  ignoreId?: string
+): Voucher | undefined {
+  const key = duplicateKey(candidate);
+  if (!key) return undefined;
+  return list.find((v) => v.id !== ignoreId && duplicateKey(v) === key);
+}
+
+// Existing duplicates, each group oldest first
+export function duplicateGroups(list: Voucher[]): Voucher[][] {
+  const groups = new Map<string, Voucher[]>();
+  for (const v of list) {
+    const key = duplicateKey(v);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), v]);
+  }
+  return [...groups.values()]
+    .filter((g) => g.length > 1)
+    .map((g) => [...g].sort((a, b) => a.created_at.localeCompare(b.created_at)));
+}
+
+// Folds `others` into `keep`: empty fields are filled from the duplicates and
+// their spent amounts are carried over as adjustments, capped at keep's value
+export function mergePlan(keep: Voucher, others: Voucher[]) {
+  const patch: VoucherPatch = {};
+  for (const field of ["code", "pin", "expires_on"] as const) {
+    const donor = others.find((o) => o[field]);
+    if (!keep[field] && donor) patch[field] = donor[field];
+  }
+
+  const entries: NewTransaction[] = [];
+  let room = Math.max(0, (keep.value || 0) - (keep.spent || 0));
+  for (const o of others) {
+    const amount = Math.min(o.spent || 0, room);
+    if (amount <= 0) continue;
+    room -= amount;
+    entries.push({
+      kind: "adjustment",
+      amount,
+      note:
+        amount < o.spent
+          ? `Merged duplicate "${o.name}" (${inr(o.spent)} used, capped at the value)`
+          : `Merged duplicate "${o.name}"`,
+    });
+  }
+  return { patch, entries };
+}
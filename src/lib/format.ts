@@ -0,0 +1,16 @@
+export const inr = (n: number) =>
+  new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    maximumFractionDigits: 0,
+  }).format(Number.isFinite(n) ? n : 0);
+
+// sanitize number-like strings, strip non-digits (keep dot) & leading zeros
+export const cleanNumString = (s: string) =>
+  s === "" ? "" : s.replace(/[^\d.]/g, "").replace(/^0+(?=\d)/, "");
+
+export const MASKED = "••••";
+
+// Mask a secret, optionally leaving the last few characters visible
+export const maskSecret = (s: string, keepLast = 0) =>
+  s.length <= keepLast ? MASKED : `${MASKED}${keepLast ? s.slice(-keepLast) : ""}`;
@@ -0,0 +1,58 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { makeVoucher } from "../test/fixtures";
+import { alarmLabel, buildExpiryCalendar, calendarVouchers } from "./ics";
+
+const now = new Date("2026-06-01T12:00:00Z");
+
+// expiry status is derived from the clock
+beforeAll(() => vi.useFakeTimers({ now, toFake: ["Date"] }));
+afterAll(() => vi.useRealTimers());
+
+describe("calendarVouchers", () => {
+  it("keeps dated vouchers that still have a balance", () => {
+    const list = [
+      makeVoucher({ id: "dated", expires_on: "2026-07-01" }),
+      makeVoucher({ id: "undated" }),
+      makeVoucher({ id: "lapsed", expires_on: "2026-05-01" }),
+      makeVoucher({ id: "spent", expires_on: "2026-07-01", spent: 1000, status: "used" }),
+    ];
+    expect(calendarVouchers(list).map((v) => v.id)).toEqual(["dated"]);
+  });
+});
+
+describe("buildExpiryCalendar", () => {
+  let ics = "";
+  beforeAll(() => {
+    ics = buildExpiryCalendar(
+      [makeVoucher({ id: "v1", name: "Food, Drinks; more", expires_on: "2026-07-01" })],
+      [0, 7],
+      now
+    );
+  });
+
+  it("writes one all-day event with escaped text", () => {
+    expect(ics).toContain("UID:v1@voucher-wallet");
+    expect(ics).toContain("DTSTART;VALUE=DATE:20260701");
+    expect(ics).toContain("DTEND;VALUE=DATE:20260702");
+    expect(ics).toContain("SUMMARY:Food\\, Drinks\\; more voucher expires");
+  });
+
+  it("adds a reminder per lead time", () => {
+    expect(ics).toContain("TRIGGER:PT9H");
+    expect(ics).toContain("TRIGGER:-P7D");
+    expect(ics.match(/BEGIN:VALARM/g)).toHaveLength(2);
+  });
+
+  it("uses CRLF and folds long lines at 75 octets", () => {
+    const long = buildExpiryCalendar([makeVoucher({ name: "x".repeat(120), expires_on: "2026-07-01" })], [], now);
+    const lines = long.split("\r\n");
+    expect(lines.every((l) => new TextEncoder().encode(l).length <= 75)).toBe(true);
+    expect(lines.some((l) => l.startsWith(" "))).toBe(true);
+  });
+});
+
+describe("alarmLabel", () => {
+  it("describes the lead time", () => {
+    expect([0, 1, 7].map(alarmLabel)).toEqual(["On the day", "1 day before", "7 days before"]);
+  });
+});
@@ -0,0 +1,88 @@
+import type { Voucher } from "../types";
+import { inr } from "./format";
+import { deriveStatus, remaining } from "./voucher";
+
+// Reminder lead times in days before expiry; 0 = the morning of the expiry day
+export const ALARM_CHOICES = [0, 1, 3, 7, 14, 30] as const;
+export const DEFAULT_ALARMS = [0, 7];
+
+export const alarmLabel = (days: number) =>
+  days === 0 ? "On the day" : days === 1 ? "1 day before" : `${days} days before`;
+
+// Vouchers worth a calendar entry: dated, not used up and not already expired
+export const calendarVouchers = (list: Voucher[]) =>
+  list.filter((v) => v.expires_on && deriveStatus(v) === "unused" && remaining(v) > 0);
+
+// RFC 5545 text escaping
+const escapeText = (s: string) =>
+  s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a space
+function fold(line: string) {
+  const bytes = new TextEncoder();
+  const out: string[] = [];
+  let cur = "";
+  for (const ch of line) {
+    if (bytes.encode(cur + ch).length > (out.length ? 74 : 75)) {
+      out.push(cur);
+      cur = "";
+    }
+    cur += ch;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+const icsDate = (iso: string) => iso.slice(0, 10).replace(/-/g, "");
+const icsStamp = (d: Date) => d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+function nextDay(iso: string) {
+  const d = new Date(`${iso.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString();
+}
+
+// All-day events start at local midnight, so "on the day" fires at 09:00
+const trigger = (days: number) => (days === 0 ? "PT9H" : `-P${days}D`);
+
+function event(v: Voucher, alarms: number[], stamp: string) {
+  const summary = `${v.name} voucher expires`;
+  const description = [
+    `Remaining: ${inr(remaining(v))} of ${inr(v.value)}`,
+    `Category: ${v.category}`,
+  ].join("\n");
+  return [
+    "BEGIN:VEVENT",
+    `UID:${v.id}@voucher-wallet`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${icsDate(v.expires_on!)}`,
+    `DTEND;VALUE=DATE:${icsDate(nextDay(v.expires_on!))}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    "TRANSP:TRANSPARENT",
+    ...alarms.flatMap((days) => [
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeText(`${summary} (${alarmLabel(days).toLowerCase()})`)}`,
+      `TRIGGER:${trigger(days)}`,
+      "END:VALARM",
+    ]),
+    "END:VEVENT",
+  ];
+}
+
+// One all-day event per expiring voucher, with a reminder per lead time
+export function buildExpiryCalendar(list: Voucher[], alarms: number[], now = new Date()) {
+  const stamp = icsStamp(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Voucher Wallet//Expiry calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Voucher expiries",
+    ...calendarVouchers(list).flatMap((v) => event(v, alarms, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
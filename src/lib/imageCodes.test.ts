@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { BarcodeFormat, QRCodeWriter } from "@zxing/library";
+import { decodeLuminance } from "./imageCodes";
+
+const SIZE = 240;
+
+// A greyscale canvas with QR codes drawn at the given offsets, dark on light
+function image(codes: { text: string; left: number; top: number; size: number }[], invert = false) {
+  const width = SIZE * 2;
+  const luminance = new Uint8ClampedArray(width * SIZE).fill(invert ? 0 : 255);
+  for (const { text, left, top, size } of codes) {
+    const matrix = new QRCodeWriter().encode(text, BarcodeFormat.QR_CODE, size, size, new Map());
+    for (let y = 0; y < size; y++)
+      for (let x = 0; x < size; x++)
+        if (matrix.get(x, y)) luminance[(top + y) * width + left + x] = invert ? 255 : 0;
+  }
+  return { luminance, width, height: SIZE };
+}
+
+describe("decodeLuminance", () => {
+  it("reads a QR code and reports the format the redeem view can draw", () => {
+    const { luminance, width, height } = image([{ text: "GC12345678", left: 0, top: 0, size: SIZE }]);
+    expect(decodeLuminance(luminance, width, height)).toEqual([
+      { text: "GC12345678", symbology: "QR_CODE", format: "qr" },
+    ]);
+  });
+
+  it("finds every code on a multi-code voucher", () => {
+    const { luminance, width, height } = image([
+      { text: "CODE-ONE-111", left: 0, top: 0, size: SIZE },
+      { text: "CODE-TWO-222", left: SIZE, top: 0, size: SIZE },
+    ]);
+    expect(decodeLuminance(luminance, width, height).map((c) => c.text).sort()).toEqual([
+      "CODE-ONE-111",
+      "CODE-TWO-222",
+    ]);
+  });
+
+  it("reads light-on-dark codes from app screenshots", () => {
+    const { luminance, width, height } = image([{ text: "DARK-777", left: 0, top: 0, size: SIZE }], true);
+    expect(decodeLuminance(luminance, width, height).map((c) => c.text)).toEqual(["DARK-777"]);
+  });
+
+  it("finds nothing in an image without a code", () => {
+    const { luminance, width, height } = image([]);
+    expect(decodeLuminance(luminance, width, height)).toEqual([]);
+  });
+});
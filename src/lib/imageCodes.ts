@@ -0,0 +1,113 @@
+import {
+  BarcodeFormat as ZxingFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  RGBLuminanceSource,
+} from "@zxing/library";
+import type { LuminanceSource } from "@zxing/library";
+import type { BarcodeFormat } from "../types";
+
+// A code found in an image; `format` is set when the redeem view can draw it the same way
+export type DecodedCode = { text: string; symbology: string; format: BarcodeFormat | null };
+
+// Big photos are scaled down first; barcodes stay readable well below this
+const MAX_SIDE = 1600;
+
+const formats: Partial<Record<ZxingFormat, BarcodeFormat>> = {
+  [ZxingFormat.QR_CODE]: "qr",
+  [ZxingFormat.CODE_128]: "code128",
+  [ZxingFormat.EAN_13]: "ean13",
+};
+
+const symbologies = [
+  ZxingFormat.QR_CODE,
+  ZxingFormat.DATA_MATRIX,
+  ZxingFormat.PDF_417,
+  ZxingFormat.AZTEC,
+  ZxingFormat.CODE_128,
+  ZxingFormat.CODE_39,
+  ZxingFormat.EAN_13,
+  ZxingFormat.EAN_8,
+  ZxingFormat.UPC_A,
+  ZxingFormat.ITF,
+];
+
+// zxing reads one code per pass, so the whole image is followed by its
+// halves and quadrants to pick up the others on a multi-code voucher
+function regions(width: number, height: number) {
+  const w = Math.floor(width / 2);
+  const h = Math.floor(height / 2);
+  return [
+    [0, 0, width, height],
+    [0, 0, width, h],
+    [0, h, width, height - h],
+    [0, 0, w, height],
+    [w, 0, width - w, height],
+    [0, 0, w, h],
+    [w, 0, width - w, h],
+    [0, h, w, height - h],
+    [w, h, width - w, height - h],
+  ];
+}
+
+// Every distinct code in a greyscale image (one byte per pixel), in the order found
+export function decodeLuminance(luminance: Uint8ClampedArray, width: number, height: number) {
+  const reader = new MultiFormatReader();
+  const hints = new Map<DecodeHintType, unknown>([
+    [DecodeHintType.POSSIBLE_FORMATS, symbologies],
+    [DecodeHintType.TRY_HARDER, true],
+  ]);
+  reader.setHints(hints);
+
+  const source = new RGBLuminanceSource(luminance, width, height);
+  const found = new Map<string, DecodedCode>();
+  const attempt = (s: LuminanceSource) => {
+    try {
+      const result = reader.decodeWithState(new BinaryBitmap(new HybridBinarizer(s)));
+      const text = result.getText().trim();
+      const kind = result.getBarcodeFormat();
+      if (text && !found.has(text))
+        found.set(text, { text, symbology: ZxingFormat[kind], format: formats[kind] ?? null });
+    } catch {
+      // nothing readable in this region
+    }
+  };
+
+  for (const [left, top, w, h] of regions(width, height)) {
+    if (w < 32 || h < 32) continue;
+    const region = source.crop(left, top, w, h);
+    attempt(region);
+    // light-on-dark codes from app screenshots
+    attempt(region.invert());
+  }
+  return [...found.values()];
+}
+
+// Decodes barcodes / QR codes in an image file or pasted image, entirely in the browser
+export async function decodeImageCodes(image: Blob): Promise<DecodedCode[]> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(image);
+  } catch {
+    throw new Error("Couldn't read this image");
+  }
+  const scale = Math.min(1, MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+  ctx.fillStyle = "#fff"; // transparent PNGs would otherwise read as black
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const luminance = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < luminance.length; i++)
+    luminance[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  return decodeLuminance(luminance, width, height);
+}
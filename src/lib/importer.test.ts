@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { guessMapping, normalizeDate, validateRows } from "./importer";
+
+describe("normalizeDate", () => {
+  it("reads the common spreadsheet formats", () => {
+    expect(normalizeDate("31/12/2026")).toBe("2026-12-31");
+    expect(normalizeDate("31-12-26")).toBe("2026-12-31");
+    expect(normalizeDate("2026-12-31")).toBe("2026-12-31");
+    expect(normalizeDate("20261231")).toBe("2026-12-31");
+    expect(normalizeDate(new Date(2026, 11, 31))).toBe("2026-12-31");
+  });
+
+  it("converts Excel serial days", () => {
+    expect(normalizeDate(46387)).toBe("2026-12-31");
+    expect(normalizeDate("46387")).toBe("2026-12-31");
+  });
+
+  it("rejects out-of-range serials and impossible dates instead of looping", () => {
+    expect(normalizeDate(0)).toBeNull();
+    expect(normalizeDate("0")).toBeNull();
+    expect(normalizeDate(3_000_000)).toBeNull();
+    expect(normalizeDate("31/02/2026")).toBeNull();
+    expect(normalizeDate("soon")).toBeNull();
+  });
+});
+
+describe("guessMapping", () => {
+  it("maps each header at most once", () => {
+    const mapping = guessMapping(["Voucher Name", "Amount", "Code", "PIN", "Valid till"]);
+    expect(mapping.name).toBe("Voucher Name");
+    expect(mapping.value).toBe("Amount");
+    expect(mapping.code).toBe("Code");
+    expect(mapping.pin).toBe("PIN");
+    expect(mapping.expires_on).toBe("Valid till");
+    const used = Object.values(mapping).filter(Boolean);
+    expect(new Set(used).size).toBe(used.length);
+  });
+});
+
+describe("validateRows", () => {
+  const mapping = {
+    name: "Name",
+    value: "Value",
+    spent: "Used",
+    category: "Category",
+    code: "Code",
+    pin: "",
+    expires_on: "Expiry",
+  };
+
+  it("turns a good row into voucher input", () => {
+    const [row] = validateRows(
+      {
+        headers: [],
+        rows: [{ Name: " Flipkart ", Value: "₹1,500", Used: "", Category: "food", Code: "AB12", Expiry: "01/06/2027" }],
+      },
+      mapping
+    );
+    expect(row).toMatchObject({
+      line: 2,
+      ok: true,
+      input: { name: "Flipkart", value: 1500, category: "Food", code: "AB12", pin: null, expires_on: "2027-06-01" },
+    });
+  });
+
+  it("collects every problem with a row", () => {
+    const [row] = validateRows(
+      { headers: [], rows: [{ Name: "", Value: "100", Used: "200", Category: "", Code: "", Expiry: "someday" }] },
+      mapping
+    );
+    expect(row.ok).toBe(false);
+    if (row.ok === false) {
+      expect(row.errors).toContain("Name is required");
+      expect(row.errors).toContain("Already used can't exceed the value");
+      expect(row.errors.some((e) => e.startsWith('Expiry "someday"'))).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,166 @@
+import { z } from "zod";
+import type { VoucherInput } from "../data/repository";
+import { categories } from "./voucher";
+
+// Voucher fields a spreadsheet column can be mapped to
+export const importFields = [
+  "name",
+  "value",
+  "spent",
+  "category",
+  "code",
+  "pin",
+  "expires_on",
+] as const;
+export type ImportField = (typeof importFields)[number];
+
+export type ColumnMapping = Record<ImportField, string>; // "" = not mapped
+
+export const fieldLabels: Record<ImportField, string> = {
+  name: "Name",
+  value: "Value",
+  spent: "Already used",
+  category: "Category",
+  code: "Code",
+  pin: "PIN",
+  expires_on: "Expiry date",
+};
+
+export type Sheet = { headers: string[]; rows: Record<string, unknown>[] };
+
+export type PreviewRow = {
+  // 1-based row number as shown in the spreadsheet (header is row 1)
+  line: number;
+  raw: Record<string, unknown>;
+} & ({ ok: true; input: VoucherInput } | { ok: false; errors: string[] });
+
+export type ValidRow = Extract<PreviewRow, { ok: true }>;
+
+// Reads the first sheet of an XLSX / CSV file as header-keyed rows
+export async function readSheet(file: File): Promise<Sheet> {
+  const XLSX = await import("xlsx");
+  const wb = XLSX.read(await file.arrayBuffer(), { type: "array" });
+  const ws = wb.Sheets[wb.SheetNames[0]];
+  if (!ws) return { headers: [], rows: [] };
+  const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(ws, { header: 1, blankrows: false });
+  const headers = headerRow.map((h) => String(h ?? "").trim()).filter(Boolean);
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(ws, { defval: "" });
+  return { headers, rows };
+}
+
+const synonyms: Record<ImportField, string[]> = {
+  name: ["name", "voucher", "brand", "merchant", "store", "title"],
+  value: ["value", "amount", "denomination", "face value", "balance"],
+  spent: ["spent", "used", "redeemed", "utilised", "utilized"],
+  category: ["category", "type"],
+  code: ["code", "voucher code", "card number", "card no", "coupon", "serial"],
+  pin: ["pin", "security code", "card pin"],
+  expires_on: ["expires_on", "expiry", "expires", "expiry date", "valid till", "valid until", "validity"],
+};
+
+const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+// Best-effort column guess from header names; the user can change every choice
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping = Object.fromEntries(importFields.map((f) => [f, ""])) as ColumnMapping;
+  const taken = new Set<string>();
+  for (const field of importFields) {
+    const words = synonyms[field].map(norm);
+    const exact = headers.find((h) => !taken.has(h) && words.includes(norm(h)));
+    const partial = headers.find((h) => !taken.has(h) && words.some((w) => norm(h).includes(w)));
+    const hit = exact ?? partial;
+    if (hit) {
+      mapping[field] = hit;
+      taken.add(hit);
+    }
+  }
+  return mapping;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+const iso = (y: number, m: number, d: number) => {
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  if (dt.getUTCFullYear() !== y || dt.getUTCMonth() !== m - 1 || dt.getUTCDate() !== d) return null;
+  return `${y}-${pad(m)}-${pad(d)}`;
+};
+
+// Excel serial days (1900 system, epoch 1899-12-30, up to 9999-12-31),
+// yyyymmdd, dd/mm/yyyy (also - or .), yyyy-mm-dd and JS Dates become
+// yyyy-mm-dd. Returns null for anything else.
+export function normalizeDate(raw: unknown): string | null {
+  if (raw instanceof Date && !Number.isNaN(raw.getTime()))
+    return iso(raw.getFullYear(), raw.getMonth() + 1, raw.getDate());
+  if (typeof raw === "number") {
+    if (!(raw >= 1 && raw < 2958466)) return null;
+    const dt = new Date(Date.UTC(1899, 11, 30) + Math.floor(raw) * 86400000);
+    return iso(dt.getUTCFullYear(), dt.getUTCMonth() + 1, dt.getUTCDate());
+  }
+  const s = String(raw ?? "").trim();
+  if (/^\d{8}$/.test(s)) return iso(+s.slice(0, 4), +s.slice(4, 6), +s.slice(6, 8));
+  // the number branch always returns, so this can't recurse again
+  if (/^\d+(\.\d+)?$/.test(s)) return normalizeDate(Number(s));
+  let m = s.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (m) return iso(+m[1], +m[2], +m[3]);
+  m = s.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (m) return iso(m[3].length === 2 ? 2000 + +m[3] : +m[3], +m[2], +m[1]);
+  return null;
+}
+
+const text = (v: unknown) => String(v ?? "").trim();
+
+// An empty cell becomes `empty`; undefined makes the column required
+const amount = (label: string, empty?: number) =>
+  z.preprocess(
+    (v) => (text(v) === "" ? empty : Number(text(v).replace(/[₹,\s]|rs\.?|inr/gi, ""))),
+    z.number({ error: `${label} must be a number` }).finite()
+  );
+
+const rowSchema = z
+  .object({
+    name: z.string().min(1, "Name is required"),
+    value: amount("Value").refine((n) => n > 0, "Value must be greater than 0"),
+    spent: amount("Already used", 0).refine((n) => n >= 0, "Already used can't be negative"),
+    category: z.string(),
+    code: z.string().nullable(),
+    pin: z.string().nullable(),
+    expires_on: z.string().nullable(),
+  })
+  .refine((r) => (r.spent ?? 0) <= r.value, {
+    message: "Already used can't exceed the value",
+    path: ["spent"],
+  });
+
+function toCategory(raw: string) {
+  const hit = categories.find((c) => c.toLowerCase() === raw.toLowerCase());
+  return hit ?? "General";
+}
+
+export function validateRows(sheet: Sheet, mapping: ColumnMapping): PreviewRow[] {
+  const col = (row: Record<string, unknown>, f: ImportField) => (mapping[f] ? row[mapping[f]] : "");
+
+  return sheet.rows.map((raw, i): PreviewRow => {
+    const line = i + 2;
+    const errors: string[] = [];
+
+    const rawExpiry = col(raw, "expires_on");
+    const expires_on = text(rawExpiry) === "" ? null : normalizeDate(rawExpiry);
+    if (text(rawExpiry) !== "" && !expires_on)
+      errors.push(`Expiry "${text(rawExpiry)}" isn't a date (use dd/mm/yyyy)`);
+
+    const parsed = rowSchema.safeParse({
+      name: text(col(raw, "name")),
+      value: col(raw, "value"),
+      spent: col(raw, "spent"),
+      category: toCategory(text(col(raw, "category"))),
+      code: text(col(raw, "code")) || null,
+      pin: text(col(raw, "pin")) || null,
+      expires_on,
+    });
+    if (!parsed.success) errors.unshift(...parsed.error.issues.map((i) => i.message));
+
+    if (errors.length || !parsed.success) return { line, raw, ok: false, errors };
+    const { name, value, spent, category, code, pin } = parsed.data;
+    const input: VoucherInput = { name, value, spent, category, code, pin, expires_on };
+    return { line, raw, ok: true, input };
+  });
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { makeEntry, makeVoucher } from "../test/fixtures";
+import {
+  clampEntry,
+  exceedsValue,
+  markEntry,
+  openingEntry,
+  reversalOf,
+  signedAmount,
+  spentFromLedger,
+  summarize,
+  withRunningBalance,
+} from "./ledger";
+
+describe("signedAmount", () => {
+  it("adds debits, subtracts credits and keeps the sign of adjustments", () => {
+    expect(signedAmount({ kind: "debit", amount: -50 })).toBe(50);
+    expect(signedAmount({ kind: "credit", amount: 50 })).toBe(-50);
+    expect(signedAmount({ kind: "adjustment", amount: -20 })).toBe(-20);
+  });
+});
+
+describe("spentFromLedger / summarize", () => {
+  it("never goes below zero and rounds to paise", () => {
+    expect(spentFromLedger([{ kind: "credit", amount: 10 }])).toBe(0);
+    expect(spentFromLedger([{ kind: "debit", amount: 0.1 }, { kind: "debit", amount: 0.2 }])).toBe(0.3);
+  });
+
+  it("marks the voucher used once the ledger covers its value", () => {
+    expect(summarize(100, [{ kind: "debit", amount: 60 }])).toEqual({ spent: 60, status: "unused" });
+    expect(summarize(100, [{ kind: "debit", amount: 100 }])).toEqual({ spent: 100, status: "used" });
+  });
+});
+
+describe("withRunningBalance", () => {
+  it("orders by occurrence and tracks the balance after each entry", () => {
+    const later = makeEntry({ id: "b", amount: 30, occurred_at: "2026-03-01T00:00:00Z" });
+    const earlier = makeEntry({ id: "a", amount: 100, occurred_at: "2026-02-01T00:00:00Z" });
+    const refund = makeEntry({ id: "c", kind: "credit", amount: 20, occurred_at: "2026-04-01T00:00:00Z" });
+    expect(withRunningBalance(500, [refund, later, earlier]).map((r) => [r.entry.id, r.balance])).toEqual([
+      ["a", 400],
+      ["b", 370],
+      ["c", 390],
+    ]);
+  });
+});
+
+describe("reversalOf", () => {
+  it("cancels a debit with a credit pointing back at it", () => {
+    const r = reversalOf(makeEntry({ id: "t9", amount: 75, note: "lunch" }));
+    expect(r).toMatchObject({ kind: "credit", amount: 75, reverses: "t9" });
+    expect(r.note).toBe("Reversal of usage (lunch)");
+  });
+
+  it("negates an adjustment", () => {
+    expect(reversalOf(makeEntry({ kind: "adjustment", amount: -40 }))).toMatchObject({
+      kind: "adjustment",
+      amount: 40,
+    });
+  });
+});
+
+describe("exceedsValue", () => {
+  it("is true only when the ledger spends more than the voucher holds", () => {
+    expect(exceedsValue(100, [{ kind: "debit", amount: 100 }])).toBe(false);
+    expect(exceedsValue(100, [{ kind: "debit", amount: 100.01 }])).toBe(true);
+  });
+});
+
+describe("clampEntry", () => {
+  it("brings spent down to a reduced value", () => {
+    expect(clampEntry(80, 50)).toMatchObject({ kind: "adjustment", amount: -30 });
+    expect(clampEntry(40, 50)).toBeNull();
+  });
+});
+
+describe("openingEntry", () => {
+  it("carries a pre-ledger spent total as an adjustment dated at creation", () => {
+    const v = makeVoucher({ spent: 250 });
+    expect(openingEntry(v)).toMatchObject({ kind: "adjustment", amount: 250, occurred_at: v.created_at });
+    expect(openingEntry(makeVoucher({ spent: 0 }))).toBeNull();
+  });
+});
+
+describe("markEntry", () => {
+  it("debits what is left when marking used", () => {
+    expect(markEntry({ value: 100, spent: 30 }, true)).toMatchObject({ kind: "debit", amount: 70 });
+  });
+
+  it("resets spent when marking unused", () => {
+    expect(markEntry({ value: 100, spent: 30 }, false)).toMatchObject({ kind: "adjustment", amount: -30 });
+  });
+
+  it("returns null when nothing would change", () => {
+    expect(markEntry({ value: 100, spent: 100 }, true)).toBeNull();
+    expect(markEntry({ value: 100, spent: 0 }, false)).toBeNull();
+  });
+});
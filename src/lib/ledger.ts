@@ -0,0 +1,110 @@
+import type { TransactionKind, Voucher, VoucherTransaction } from "../types";
+import { inr } from "./format";
+
+// Fields a caller supplies when recording a new ledger entry. A client-chosen
+// `id` makes the write idempotent: an entry whose id is already in the ledger
+// is skipped, so a retried write can't record it twice.
+export type NewTransaction = Pick<VoucherTransaction, "kind" | "amount"> &
+  Partial<Pick<VoucherTransaction, "id" | "merchant" | "note" | "occurred_at" | "reverses">>;
+
+export const kindLabel: Record<TransactionKind, string> = {
+  debit: "Usage",
+  credit: "Refund",
+  adjustment: "Adjustment",
+};
+
+// Effect of one entry on `spent`: debits add, credits subtract, adjustments are signed
+export function signedAmount(t: Pick<VoucherTransaction, "kind" | "amount">): number {
+  if (t.kind === "debit") return Math.abs(t.amount);
+  if (t.kind === "credit") return -Math.abs(t.amount);
+  return t.amount;
+}
+
+export function spentFromLedger(
+  entries: Pick<VoucherTransaction, "kind" | "amount">[]
+): number {
+  const total = entries.reduce((a, t) => a + signedAmount(t), 0);
+  return Math.max(0, Math.round(total * 100) / 100);
+}
+
+// Spent + status as they should be cached on the voucher row
+export function summarize(
+  value: number,
+  entries: Pick<VoucherTransaction, "kind" | "amount">[]
+) {
+  const spent = spentFromLedger(entries);
+  return {
+    spent,
+    status: spent >= (value || 0) ? ("used" as const) : ("unused" as const),
+  };
+}
+
+// Oldest first, with the remaining balance after each entry (for the history view)
+export function withRunningBalance(value: number, entries: VoucherTransaction[]) {
+  const sorted = [...entries].sort(
+    (a, b) =>
+      new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime() ||
+      new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+  let spent = 0;
+  return sorted.map((t) => {
+    spent += signedAmount(t);
+    return { entry: t, balance: (value || 0) - spent };
+  });
+}
+
+export function isReversed(t: VoucherTransaction, entries: VoucherTransaction[]) {
+  return entries.some((x) => x.reverses === t.id);
+}
+
+// Opposite entry that cancels `t` out; the original stays for the audit trail
+export function reversalOf(
+  t: Pick<VoucherTransaction, "id" | "kind" | "amount" | "merchant" | "note">
+): NewTransaction {
+  const kind: TransactionKind =
+    t.kind === "debit" ? "credit" : t.kind === "credit" ? "debit" : "adjustment";
+  return {
+    kind,
+    amount: t.kind === "adjustment" ? -t.amount : Math.abs(t.amount),
+    merchant: t.merchant,
+    note: `Reversal of ${kindLabel[t.kind].toLowerCase()}${t.note ? ` (${t.note})` : ""}`,
+    reverses: t.id,
+  };
+}
+
+// True when the ledger (plus pending entries) would spend more than the voucher holds
+export function exceedsValue(
+  value: number,
+  entries: Pick<VoucherTransaction, "kind" | "amount">[]
+) {
+  return spentFromLedger(entries) > (value || 0) + 1e-9;
+}
+
+// Entry that brings spent back down to a reduced voucher value, if needed
+export function clampEntry(spent: number, value: number): NewTransaction | null {
+  const over = (spent || 0) - value;
+  if (over <= 0) return null;
+  return { kind: "adjustment", amount: -over, note: `Value reduced to ${inr(value)}` };
+}
+
+// Vouchers created before the ledger only carry a running `spent` total
+export function openingEntry(v: Voucher): NewTransaction | null {
+  if (!v.spent) return null;
+  return {
+    kind: "adjustment",
+    amount: v.spent,
+    note: "Opening balance",
+    occurred_at: v.created_at,
+  };
+}
+
+// "Mark as used" debits what is left; "Mark as unused" brings spent back to 0.
+// Null when the balance is already there.
+export function markEntry(v: Pick<Voucher, "value" | "spent">, used: boolean): NewTransaction | null {
+  const spent = v.spent || 0;
+  const amount = used ? (v.value || 0) - spent : -spent;
+  if (!amount) return null;
+  return used
+    ? { kind: "debit", amount, note: "Marked as used" }
+    : { kind: "adjustment", amount, note: "Reset to unused" };
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import type { Mail } from "./mail";
+import { decodeHeader, htmlToText, mailCandidates, parseMail, splitMbox } from "./mail";
+
+const eml = [
+  "From: Gift Cards <gifts@example.com>",
+  "Subject: =?utf-8?B?WW91ciDigrk1MDAgZ2lmdCBjYXJk?=",
+  "Date: Mon, 05 Oct 2026 10:00:00 +0530",
+  'Content-Type: multipart/alternative; boundary="b1"',
+  "",
+  "--b1",
+  "Content-Type: text/html; charset=utf-8",
+  "Content-Transfer-Encoding: quoted-printable",
+  "",
+  "<p>Your e-gift card</p><table><tr><td>Gift card code:</td><td>GC12345678</td></tr>=",
+  "<tr><td>PIN:</td><td>4821</td></tr></table><p>Valid till 31 Dec 2026</p>",
+  "--b1--",
+  "",
+].join("\r\n");
+
+const mail = (overrides: Partial<Mail>): Mail => ({
+  subject: "",
+  from: "gifts@example.com",
+  date: "2026-10-01T00:00:00.000Z",
+  text: "",
+  ...overrides,
+});
+
+describe("parseMail", () => {
+  it("decodes the headers and falls back to the HTML body as text", () => {
+    const m = parseMail(eml);
+    expect(m.subject).toBe("Your ₹500 gift card");
+    expect(m.from).toBe("Gift Cards <gifts@example.com>");
+    expect(m.date).toBe("2026-10-05T04:30:00.000Z");
+    expect(m.text).toContain("Gift card code: GC12345678");
+    expect(m.text).toContain("PIN: 4821");
+  });
+
+  it("decodes encoded words and HTML entities", () => {
+    expect(decodeHeader("=?utf-8?Q?Gift_card_=E2=82=B9500?=")).toBe("Gift card ₹500");
+    expect(htmlToText("A&amp;B&nbsp;&#8377;5<br>next")).toBe("A&B ₹5\nnext");
+  });
+});
+
+describe("splitMbox", () => {
+  it("splits on From lines and unescapes quoted ones", () => {
+    const box = "From a@x Mon Oct 5\nSubject: one\n\n>From here\nFrom b@x Tue Oct 6\nSubject: two\n\nhi\n";
+    const parts = splitMbox(box);
+    expect(parts).toHaveLength(2);
+    expect(parts[0]).toContain("From here");
+    expect(splitMbox("Subject: single\n\nbody")).toHaveLength(1);
+  });
+});
+
+describe("mailCandidates", () => {
+  it("finds the voucher in a parsed mail", () => {
+    const [c] = mailCandidates([parseMail(eml)]);
+    expect(c.input).toMatchObject({ code: "GC12345678", pin: "4821", value: 500 });
+    expect(c.mail.subject).toBe("Your ₹500 gift card");
+  });
+
+  it("keeps a code seen in several mails once, from the newest mail", () => {
+    const found = mailCandidates([
+      mail({ subject: "Gift card", text: "Voucher code: ZX98765432", date: "2026-10-01T00:00:00.000Z" }),
+      mail({ subject: "Reminder", text: "Voucher code: ZX98765432", date: "2026-10-09T00:00:00.000Z" }),
+    ]);
+    expect(found).toHaveLength(1);
+    expect(found[0].mail.subject).toBe("Reminder");
+  });
+
+  it("names the brand after the sender when the text doesn't", () => {
+    const [c] = mailCandidates([
+      mail({
+        from: "Amazon.in <gc-orders@gc.email.amazon.com>",
+        subject: "You've received a gift card",
+        text: "Claim code: AQ12-BC34DE-FG56H\nAmount: ₹1,000",
+      }),
+    ]);
+    expect(c.source).toBe("Amazon");
+    expect(c.input).toMatchObject({ name: "Amazon Pay Gift Card", code: "AQ12-BC34DE-FG56H" });
+  });
+
+  it("ignores mail from OTP, alert and offer mailboxes", () => {
+    const giftText = "Your e-gift card\nGift card code: GC12345678";
+    expect(
+      mailCandidates([
+        mail({ from: "Amazon.in <store-news@amazon.in>", text: giftText }),
+        mail({ from: "otp@bank.example", text: giftText }),
+        mail({ from: "Deals <offers@shop.example>", text: giftText }),
+      ])
+    ).toEqual([]);
+  });
+
+  it("skips OTP and promo mail", () => {
+    expect(
+      mailCandidates([
+        mail({ subject: "Your OTP", text: "Your OTP code is 482913. Rs 2000 debited." }),
+        mail({ subject: "Weekend sale", text: "Use promo code: SAVE20 for 20% off" }),
+      ])
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,193 @@
+import type { ParsedVoucher } from "./messages";
+import { parseMessage } from "./messages";
+
+// Minimal MIME reader for .eml / .mbox exports. Strings here are "binary":
+// one char per byte, so parts can be decoded with their own charset.
+
+export type Mail = {
+  subject: string;
+  from: string;
+  date: string | null;
+  // readable body: text/plain when present, otherwise the HTML as text
+  text: string;
+};
+
+type Entity = { headers: Map<string, string>; body: string };
+
+export function bytesToBinary(bytes: Uint8Array) {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 0x8000)
+    out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return out;
+}
+
+const binaryToBytes = (s: string) => Uint8Array.from(s, (c) => c.charCodeAt(0) & 0xff);
+
+function decodeCharset(binary: string, charset = "utf-8") {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(binaryToBytes(binary));
+  } catch {
+    return new TextDecoder("utf-8").decode(binaryToBytes(binary));
+  }
+}
+
+function decodeQuotedPrintable(s: string) {
+  return s
+    .replace(/=\r?\n/g, "")
+    .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function decodeBase64(s: string) {
+  try {
+    return atob(s.replace(/[^A-Za-z0-9+/=]/g, ""));
+  } catch {
+    return "";
+  }
+}
+
+// RFC 2047 encoded words in headers: =?utf-8?B?…?= / =?utf-8?Q?…?=
+export function decodeHeader(value: string) {
+  return value
+    .replace(/\?=\s+=\?/g, "?==?")
+    .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset: string, enc: string, data: string) =>
+      decodeCharset(
+        enc.toUpperCase() === "B" ? decodeBase64(data) : decodeQuotedPrintable(data.replace(/_/g, " ")),
+        charset
+      )
+    );
+}
+
+function parseEntity(raw: string): Entity {
+  const split = raw.search(/\r?\n\r?\n/);
+  const head = split < 0 ? raw : raw.slice(0, split);
+  const body = split < 0 ? "" : raw.slice(split).replace(/^\r?\n\r?\n/, "");
+  const headers = new Map<string, string>();
+  let last = "";
+  for (const line of head.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && last) headers.set(last, `${headers.get(last)} ${line.trim()}`);
+    else {
+      const i = line.indexOf(":");
+      if (i <= 0) continue;
+      last = line.slice(0, i).trim().toLowerCase();
+      headers.set(last, line.slice(i + 1).trim());
+    }
+  }
+  return { headers, body };
+}
+
+function headerParam(value: string, name: string) {
+  const m = value.match(new RegExp(`${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, "i"));
+  return m ? (m[1] ?? m[2]) : null;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  rupee: "₹",
+};
+
+export function htmlToText(html: string) {
+  return html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|tr|li|h\d|table)>/gi, "\n")
+    .replace(/<\/t[dh]>/gi, " ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (whole, e: string) => {
+      if (e[0] !== "#") return ENTITIES[e.toLowerCase()] ?? whole;
+      const code = e[1].toLowerCase() === "x" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : whole;
+    })
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n");
+}
+
+// Collects the text/plain and text/html bodies of an entity, skipping attachments
+function collectText(e: Entity, out: { plain: string[]; html: string[] }) {
+  const type = e.headers.get("content-type") ?? "text/plain";
+  const mime = type.split(";")[0].trim().toLowerCase();
+  if (/^attachment/i.test(e.headers.get("content-disposition") ?? "")) return;
+
+  if (mime.startsWith("multipart/")) {
+    const boundary = headerParam(type, "boundary");
+    if (!boundary) return;
+    const parts = e.body.split(`--${boundary}`).slice(1);
+    for (const part of parts) {
+      if (part.startsWith("--")) break;
+      collectText(parseEntity(part.replace(/^\r?\n/, "")), out);
+    }
+    return;
+  }
+  if (mime === "message/rfc822") return collectText(parseEntity(e.body), out);
+  if (mime !== "text/plain" && mime !== "text/html") return;
+
+  const encoding = (e.headers.get("content-transfer-encoding") ?? "").toLowerCase();
+  const bytes =
+    encoding === "base64"
+      ? decodeBase64(e.body)
+      : encoding === "quoted-printable"
+        ? decodeQuotedPrintable(e.body)
+        : e.body;
+  const text = decodeCharset(bytes, headerParam(type, "charset") ?? "utf-8");
+  (mime === "text/html" ? out.html : out.plain).push(text);
+}
+
+export function parseMail(raw: string): Mail {
+  const root = parseEntity(raw);
+  const out = { plain: [] as string[], html: [] as string[] };
+  collectText(root, out);
+  const dateHeader = root.headers.get("date");
+  const date = dateHeader ? new Date(dateHeader) : null;
+  return {
+    subject: decodeHeader(root.headers.get("subject") ?? ""),
+    from: decodeHeader(root.headers.get("from") ?? ""),
+    date: date && !Number.isNaN(date.getTime()) ? date.toISOString() : null,
+    text: out.plain.length ? out.plain.join("\n") : out.html.map(htmlToText).join("\n"),
+  };
+}
+
+// An .mbox holds messages back to back, each starting with a "From " line;
+// a single .eml has none and comes back as one message
+export function splitMbox(binary: string): string[] {
+  if (!binary.startsWith("From ")) return [binary];
+  return binary
+    .split(/\r?\n(?=From \S+.*\r?\n)/)
+    .map((m) => m.replace(/^From .*\r?\n/, "").replace(/^>(>*From )/gm, "$1"))
+    .filter((m) => m.trim());
+}
+
+export type MailCandidate = ParsedVoucher & { mail: Pick<Mail, "subject" | "from" | "date"> };
+
+// "Amazon.in <store-news@amazon.in>" → "store-news@amazon.in"
+function senderAddress(from: string) {
+  return (from.match(/<([^>]+)>/)?.[1] ?? from).trim().toLowerCase();
+}
+
+// Mailboxes that only send OTPs, account alerts or offers; an export of a
+// whole inbox is mostly these, and none of them carries a gift card
+const NOISE_SENDER =
+  /\b(?:otp|verify|verification|security|alerts?|account-update|promo(?:tions?)?|offers?|deals|marketing|news(?:letters?)?)\b/i;
+
+const isNoiseSender = (from: string) => NOISE_SENDER.test(senderAddress(from).split("@")[0]);
+
+// Vouchers found across the mails, newest mail first; a code seen in several
+// mails (forwards, reminders) is only kept once
+export function mailCandidates(mails: Mail[]): MailCandidate[] {
+  const seen = new Set<string>();
+  const out: MailCandidate[] = [];
+  const sorted = [...mails].sort((a, b) => (b.date ?? "").localeCompare(a.date ?? ""));
+  for (const m of sorted) {
+    if (isNoiseSender(m.from)) continue;
+    for (const p of parseMessage(`${m.subject}\n${m.text}`, senderAddress(m.from))) {
+      const key = p.input.code!.replace(/[\s-]/g, "");
+      if (seen.has(key)) continue;
+      seen.add(key);
+      out.push({ ...p, mail: { subject: m.subject, from: m.from, date: m.date } });
+    }
+  }
+  return out;
+}
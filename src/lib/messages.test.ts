@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { parseMessage, parseMessageDate } from "./messages";
+
+describe("parseMessage", () => {
+  it("reads a brand's own code shape with its value and expiry", () => {
+    const [v, ...rest] = parseMessage(
+      "Your Amazon Pay Gift Card of ₹2,000 is here.\nClaim code: AQ12-BC34DE-FG56H\nValid till 31 Dec 2026"
+    );
+    expect(rest).toEqual([]);
+    expect(v.source).toBe("Amazon");
+    expect(v.input).toMatchObject({
+      name: "Amazon Pay Gift Card",
+      code: "AQ12-BC34DE-FG56H",
+      value: 2000,
+      expires_on: "2026-12-31",
+    });
+    expect(v.missing).toEqual([]);
+  });
+
+  it("reads a labelled gift card code and PIN from any sender", () => {
+    const [v] = parseMessage(
+      "Here is your e-gift card.\nGift card code: GC12345678\nPIN: 4821\nAmount: Rs 500\nExpires on 15/03/2027"
+    );
+    expect(v.source).toBe("Generic");
+    expect(v.input).toMatchObject({ code: "GC12345678", pin: "4821", value: 500, expires_on: "2027-03-15" });
+  });
+
+  it("splits a list of vouchers and shares the message-wide value and expiry", () => {
+    const found = parseMessage(
+      "Your 2 Swiggy vouchers of ₹250 each\n1. Code: SWG111222\n2. Code: SWG333444\nValid till 2026-11-30"
+    );
+    expect(found.map((v) => v.input.code)).toEqual(["SWG111222", "SWG333444"]);
+    expect(found.every((v) => v.input.value === 250 && v.input.expires_on === "2026-11-30")).toBe(true);
+  });
+
+  it("flags the fields the message leaves out", () => {
+    const [v] = parseMessage("Voucher code: ZX98765432");
+    expect(v.missing).toEqual(["value", "expires_on"]);
+  });
+
+  it.each([
+    ["an OTP", "Your OTP code is 482913. Rs 2000 debited from your account."],
+    ["a verification code", "Your gift card account verification code is 551209"],
+    ["a promo code", "Use promo code: SAVE20 on your next order"],
+    ["a discount code", "Get 20% off with code FEST2026 this weekend"],
+    ["a bank card number", "Card number XX1234 used for Rs 500 at Croma"],
+    ["a code without gift card wording", "Booking code: PNR12345 for your trip on 3 Nov"],
+    ["a label followed by a word", "Voucher code: valid for 30 days"],
+  ])("finds nothing in %s", (_, message) => {
+    expect(parseMessage(message)).toEqual([]);
+  });
+});
+
+describe("parseMessageDate", () => {
+  it("reads named months either way round and numeric dates day first", () => {
+    expect(parseMessageDate("31st Dec, 2026")).toBe("2026-12-31");
+    expect(parseMessageDate("December 31, 2026")).toBe("2026-12-31");
+    expect(parseMessageDate("05/11/2026")).toBe("2026-11-05");
+    expect(parseMessageDate("Smarch 3 2026")).toBeNull();
+  });
+});
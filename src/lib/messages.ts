@@ -0,0 +1,191 @@
+import type { VoucherInput } from "../data/repository";
+import { normalizeDate } from "./importer";
+
+// Gift card emails / SMS → add-form fields. Each brand parser knows its
+// sender's wording and code shape; the generic one catches everything else.
+
+export type ParsedVoucher = {
+  input: VoucherInput;
+  // parser that produced it ("Amazon", …, "Generic")
+  source: string;
+  // fields the message didn't give us; the user fills them in before saving
+  missing: ("value" | "expires_on")[];
+};
+
+type BrandParser = {
+  brand: string;
+  name: string;
+  category: string;
+  detect: RegExp;
+  // the brand's own code shape, tried before the labelled generic pattern
+  code?: RegExp;
+};
+
+const brands: BrandParser[] = [
+  {
+    brand: "Amazon",
+    name: "Amazon Pay Gift Card",
+    category: "Shopping",
+    detect: /amazon/i,
+    // claim codes look like AQ12-BC34DE-FG56H
+    code: /\b([A-Z0-9]{4}-[A-Z0-9]{6}-[A-Z0-9]{4,5})\b/g,
+  },
+  {
+    brand: "Flipkart",
+    name: "Flipkart Gift Card",
+    category: "Shopping",
+    detect: /flipkart/i,
+    code: /\b(?:card\s*(?:number|no\.?)|voucher\s*(?:number|no\.?))\s*[:\-–]?\s*([A-Z0-9]{16})\b/gi,
+  },
+  {
+    brand: "Myntra",
+    name: "Myntra Gift Card",
+    category: "Shopping",
+    detect: /myntra/i,
+    code: /\b(?:card\s*(?:number|no\.?)|gift\s*card\s*(?:number|no\.?))\s*[:\-–]?\s*(\d{16})\b/gi,
+  },
+  { brand: "Swiggy", name: "Swiggy Money Voucher", category: "Food", detect: /swiggy/i },
+  { brand: "Zomato", name: "Zomato Gift Card", category: "Food", detect: /zomato/i },
+  { brand: "Nykaa", name: "Nykaa Gift Card", category: "Shopping", detect: /nykaa/i },
+  { brand: "BookMyShow", name: "BookMyShow Gift Voucher", category: "General", detect: /bookmyshow/i },
+  { brand: "MakeMyTrip", name: "MakeMyTrip Gift Card", category: "Travel", detect: /makemytrip/i },
+];
+
+const GENERIC_CODE =
+  /\b(?:(?:e-?)?gift\s*card\s*(?:code|number|no\.?)|claim\s*code|voucher\s*(?:code|number|no\.?)|card\s*(?:number|no\.?)|code)(?:\s*is)?\s*[:\-–#]?\s*([A-Z0-9](?:[A-Z0-9-]| (?=\d{4}\b)){4,30}[A-Z0-9])\b/gi;
+// A labelled code only counts with gift card wording around it, and never
+// next to OTP or promo wording ("Your OTP code is …", "promo code SAVE20")
+const VOUCHER_CONTEXT = /\b(?:e-?gift|gift\s*(?:card|voucher|certificate)s?|vouchers?|gv|egv|claim\s*code)\b/i;
+const NOT_VOUCHER =
+  /\b(?:otp|one[\s-]*time\s*(?:password|pin|code)|verification|verify|promo(?:tion(?:al)?)?|coupon|discount|cashback|offer\s*code)\b|%\s*off\b/i;
+// how far around a labelled code its context is looked for
+const CONTEXT_BEFORE = 120;
+const CONTEXT_AFTER = 40;
+const PIN = /\b(?:pin|security\s*code|secret\s*pin)\s*(?:no\.?|number)?\s*[:\-–#]?\s*([A-Z0-9]{4,10})\b/i;
+const AMOUNT = /(?:₹|rs\.?|inr)\s*([\d,]+(?:\.\d{1,2})?)|([\d,]+(?:\.\d{1,2})?)\s*(?:₹|rs\.?|inr|rupees)\b/gi;
+const EXPIRY_LABEL =
+  /(?:valid\s*(?:till|until|upto|up\s*to|thru|through)|expir(?:y|es|ation|ing)(?:\s*date)?(?:\s*on)?|validity|use\s*before|redeem\s*by)\s*[:\-–]?\s*/i;
+const DATE =
+  /(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}|\d{1,2}(?:st|nd|rd|th)?\s+[a-z]{3,9},?\s+\d{4}|[a-z]{3,9}\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4})/i;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Numeric dates go through the importer's rules (day first); "31 Dec 2026"
+// and "December 31st, 2026" are handled here
+export function parseMessageDate(raw: string): string | null {
+  const s = raw.trim().replace(/(\d)(st|nd|rd|th)\b/i, "$1").replace(",", "");
+  const named = s.match(/^(\d{1,2})\s+([a-z]+)\s+(\d{4})$/i) ?? s.match(/^([a-z]+)\s+(\d{1,2})\s+(\d{4})$/i);
+  if (!named) return normalizeDate(s);
+  const [day, month] = /^\d/.test(named[1]) ? [named[1], named[2]] : [named[2], named[1]];
+  const m = MONTHS.indexOf(month.slice(0, 3).toLowerCase());
+  if (m < 0) return null;
+  return normalizeDate(`${named[3]}-${m + 1}-${day}`);
+}
+
+const toAmount = (m: RegExpMatchArray) => Number((m[1] ?? m[2]).replace(/,/g, ""));
+
+function amountsIn(text: string) {
+  return [...text.matchAll(AMOUNT)].map(toAmount).filter((n) => n > 0);
+}
+
+function expiryIn(text: string) {
+  const label = text.match(EXPIRY_LABEL);
+  if (!label) return null;
+  const date = text.slice(label.index! + label[0].length).match(DATE);
+  // the date should follow the label closely, not be some later date in the mail
+  if (!date || date.index! > 20) return null;
+  return parseMessageDate(date[1]);
+}
+
+type CodeHit = { code: string; index: number; end: number };
+
+// The text just around a labelled code: the lines before it and the rest of its own line
+function surroundings(text: string, start: number, end: number) {
+  const lineEnd = text.indexOf("\n", end);
+  return text.slice(
+    Math.max(0, start - CONTEXT_BEFORE),
+    Math.min(lineEnd < 0 ? text.length : lineEnd, end + CONTEXT_AFTER)
+  );
+}
+
+function codesIn(text: string, parser: BrandParser | undefined): CodeHit[] {
+  const hits = new Map<string, CodeHit>();
+  for (const re of [parser?.code, GENERIC_CODE]) {
+    if (!re) continue;
+    for (const m of text.matchAll(re)) {
+      const code = m[1].replace(/\s+/g, "").toUpperCase();
+      // labels match words too ("Code: valid"); real codes carry a digit
+      if (!/\d/.test(code) || [...hits.values()].some((h) => h.code === code)) continue;
+      if (re === GENERIC_CODE) {
+        const around = surroundings(text, m.index!, m.index! + m[0].length);
+        if (NOT_VOUCHER.test(around)) continue;
+        // later codes in a list ("2. Code: …") ride on the first one's context
+        if (!hits.size && !VOUCHER_CONTEXT.test(around)) continue;
+      }
+      const index = m.index! + m[0].lastIndexOf(m[1]);
+      if ([...hits.values()].some((h) => index < h.end && index + m[1].length > h.index)) continue;
+      hits.set(code, { code, index, end: index + m[1].length });
+    }
+  }
+  return [...hits.values()].sort((a, b) => a.index - b.index);
+}
+
+// One voucher per code. A block runs from the lines just above its code (up
+// to a blank line or the previous voucher's details) to the next block.
+function blocks(text: string, hits: CodeHit[]) {
+  const starts = hits.map((h, i) => {
+    if (i === 0) return 0;
+    let start = text.lastIndexOf("\n", h.index) + 1;
+    while (start > hits[i - 1].end) {
+      const prev = text.lastIndexOf("\n", start - 2) + 1;
+      const line = text.slice(prev, start - 1);
+      if (!line.trim() || PIN.test(line) || prev <= hits[i - 1].end) break;
+      start = prev;
+    }
+    return start;
+  });
+  return hits.map((hit, i) => ({
+    hit,
+    before: text.slice(starts[i], hit.index),
+    after: text.slice(hit.end, starts[i + 1] ?? text.length),
+  }));
+}
+
+// Every voucher in a pasted message; empty when it has no recognisable code.
+// A mail's sender names the brand more reliably than its text, which may
+// mention other shops ("use it on Amazon, Flipkart and more").
+export function parseMessage(raw: string, sender = ""): ParsedVoucher[] {
+  const text = raw.replace(/\r\n?/g, "\n").replace(/[ \t\u00a0]+/g, " ");
+  const parser =
+    (sender && brands.find((b) => b.detect.test(sender))) || brands.find((b) => b.detect.test(text));
+  const hits = codesIn(text, parser);
+
+  // message-wide values apply to every block that lacks its own
+  // ("3 gift cards of ₹500 each, valid till …")
+  const allAmounts = amountsIn(text);
+  const sharedAmount = new Set(allAmounts).size === 1 ? allAmounts[0] : null;
+  const sharedExpiry = expiryIn(text);
+
+  return blocks(text, hits).map(({ hit, before, after }) => {
+    const block = before + hit.code + after;
+    const value = amountsIn(block)[0] ?? sharedAmount;
+    // a PIN printed after the code belongs to it, even if the block starts with another
+    const pin = after.match(PIN)?.[1] ?? before.match(PIN)?.[1];
+    const expires_on = expiryIn(block) ?? sharedExpiry;
+    const missing: ParsedVoucher["missing"] = [];
+    if (!value) missing.push("value");
+    if (!expires_on) missing.push("expires_on");
+    return {
+      input: {
+        name: parser?.name ?? "Gift Card",
+        value: value ?? 0,
+        category: parser?.category ?? "General",
+        code: hit.code,
+        pin: pin && pin !== hit.code ? pin : null,
+        expires_on,
+      },
+      source: parser?.brand ?? "Generic",
+      missing,
+    };
+  });
+}
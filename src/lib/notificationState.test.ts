@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { notificationState } from "./notificationState";
+
+const DAY = 86_400_000;
+const start = new Date("2026-06-01T00:00:00.000Z").getTime();
+
+afterEach(() => {
+  vi.useRealTimers();
+  notificationState.forget(["v1", "v2"]);
+});
+
+describe("notificationState", () => {
+  it("keeps marks while a rule is off, and forgets them with their voucher", () => {
+    notificationState.dismiss("expiring:v1:2026-06-10");
+    notificationState.snooze("lowBalance:v2", start + DAY);
+    notificationState.setSettings({
+      rules: { ...notificationState.get().settings.rules, expiring: false },
+    });
+    notificationState.prune(start);
+    expect(notificationState.get().dismissed["expiring:v1:2026-06-10"]).toBeDefined();
+
+    notificationState.forget(["v1"]);
+    expect(notificationState.get().dismissed).toEqual({});
+    expect(notificationState.get().read["expiring:v1:2026-06-10"]).toBeUndefined();
+    expect(notificationState.get().snoozed["lowBalance:v2"]).toBe(start + DAY);
+  });
+
+  it("drops marks once they are a year old", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(start);
+    notificationState.dismiss("expiring:v1:2026-06-10");
+    vi.setSystemTime(start + 200 * DAY);
+    notificationState.markRead(["lowBalance:v2"]);
+
+    notificationState.prune(start + 400 * DAY);
+    expect(notificationState.get().dismissed["expiring:v1:2026-06-10"]).toBeUndefined();
+    expect(Object.keys(notificationState.get().read)).toEqual(["lowBalance:v2"]);
+  });
+});
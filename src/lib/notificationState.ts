@@ -0,0 +1,133 @@
+import type { NotificationSettings } from "./notifications";
+import { defaultNotificationSettings, notificationVoucherId } from "./notifications";
+
+// Per-notification read / dismiss / snooze marks and the rule settings.
+// Persisted per browser, like privacy mode.
+const KEY = "vw:notifications";
+// marks this old are dropped even if their voucher is still around
+const MARK_MAX_AGE_MS = 365 * 86_400_000;
+
+export type NotificationState = {
+  settings: NotificationSettings;
+  // id -> epoch ms the mark was made
+  read: Record<string, number>;
+  dismissed: Record<string, number>;
+  // id -> epoch ms the snooze ends
+  snoozed: Record<string, number>;
+  // already shown as a browser notification
+  alerted: Record<string, number>;
+};
+
+const empty: NotificationState = {
+  settings: defaultNotificationSettings,
+  read: {},
+  dismissed: {},
+  snoozed: {},
+  alerted: {},
+};
+
+const listeners = new Set<() => void>();
+
+// Marks saved before they carried a time (`true`) start their age today
+const dated = (map: Record<string, number | true> | undefined, now: number) =>
+  Object.fromEntries(Object.entries(map ?? {}).map(([id, at]) => [id, at === true ? now : at]));
+
+let state: NotificationState = (() => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(KEY) ?? "null") as Partial<NotificationState> | null;
+    if (!saved) return empty;
+    const now = Date.now();
+    return {
+      ...empty,
+      ...saved,
+      read: dated(saved.read, now),
+      dismissed: dated(saved.dismissed, now),
+      alerted: dated(saved.alerted, now),
+      settings: {
+        ...defaultNotificationSettings,
+        ...saved.settings,
+        rules: { ...defaultNotificationSettings.rules, ...saved.settings?.rules },
+      },
+    };
+  } catch {
+    return empty;
+  }
+})();
+
+function set(next: NotificationState) {
+  state = next;
+  try {
+    localStorage.setItem(KEY, JSON.stringify(next));
+  } catch {
+    // storage unavailable: keep it for this session only
+  }
+  listeners.forEach((l) => l());
+}
+
+const mark = (map: Record<string, number>, ids: string[]) => {
+  const now = Date.now();
+  return { ...map, ...Object.fromEntries(ids.map((id) => [id, now])) };
+};
+
+// Drops marks for which `keep` is false
+const only = (map: Record<string, number>, keep: (id: string, at: number) => boolean) =>
+  Object.fromEntries(Object.entries(map).filter(([id, at]) => keep(id, at)));
+
+function drop(keep: (id: string, at: number) => boolean) {
+  const maps = [state.read, state.dismissed, state.snoozed, state.alerted];
+  if (maps.every((m) => Object.entries(m).every(([id, at]) => keep(id, at)))) return;
+  set({
+    ...state,
+    read: only(state.read, keep),
+    dismissed: only(state.dismissed, keep),
+    snoozed: only(state.snoozed, keep),
+    alerted: only(state.alerted, keep),
+  });
+}
+
+export const notificationState = {
+  get: () => state,
+
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  setSettings(patch: Partial<NotificationSettings>) {
+    set({ ...state, settings: { ...state.settings, ...patch } });
+  },
+
+  markRead(ids: string[]) {
+    const unread = ids.filter((id) => !state.read[id]);
+    if (!unread.length) return;
+    set({ ...state, read: mark(state.read, unread) });
+  },
+
+  dismiss(id: string) {
+    set({ ...state, dismissed: mark(state.dismissed, [id]), read: mark(state.read, [id]) });
+  },
+
+  snooze(id: string, until: number) {
+    set({ ...state, snoozed: { ...state.snoozed, [id]: until }, read: mark(state.read, [id]) });
+  },
+
+  markAlerted(ids: string[]) {
+    set({ ...state, alerted: mark(state.alerted, ids) });
+  },
+
+  // Forgets every mark about vouchers that no longer exist. Marks are kept
+  // while a rule is off or its condition lapses, so they still apply if it
+  // comes back.
+  forget(voucherIds: string[]) {
+    const gone = new Set(voucherIds);
+    drop((id) => !gone.has(notificationVoucherId(id)));
+  },
+
+  // Keeps the stored state from growing forever: drops marks made (or
+  // snoozes that ended) over a year before `now`
+  prune(now: number) {
+    drop((_id, at) => at > now - MARK_MAX_AGE_MS);
+  },
+};
@@ -0,0 +1,129 @@
+import type { Voucher } from "../types";
+import { inr } from "./format";
+import { daysUntilExpiry, deriveStatus, remaining } from "./voucher";
+
+export type NotificationRule = "expiring" | "expired" | "lowBalance" | "stale";
+
+export const ruleLabels: Record<NotificationRule, string> = {
+  expiring: "Expiring soon",
+  expired: "Newly expired",
+  lowBalance: "Low balance",
+  stale: "Unused for a long time",
+};
+
+export type NotificationSettings = {
+  rules: Record<NotificationRule, boolean>;
+  expiringDays: number;
+  lowBalance: number;
+  staleMonths: number;
+  // also raise browser notifications while the app is open
+  browser: boolean;
+};
+
+export const defaultNotificationSettings: NotificationSettings = {
+  rules: { expiring: true, expired: true, lowBalance: true, stale: true },
+  expiringDays: 14,
+  lowBalance: 100,
+  staleMonths: 6,
+  browser: false,
+};
+
+export type AppNotification = {
+  // stable while the underlying condition holds, so read / dismiss / snooze stick
+  id: string;
+  rule: NotificationRule;
+  voucherId: string;
+  title: string;
+  body: string;
+  // when the condition started; newest first in the list
+  at: string;
+};
+
+// Ids are "<rule>:<voucher id>[:<detail>]"
+export const notificationVoucherId = (id: string) => id.split(":")[1] ?? "";
+
+const DAY = 86_400_000;
+// expired vouchers stay "new" for a week
+const NEWLY_EXPIRED_DAYS = 7;
+
+const endOfDay = (date: string) => {
+  const d = new Date(date);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+};
+
+// Evaluates every enabled rule over the wallet; `money` lets callers mask amounts
+export function evaluateRules(
+  list: Voucher[],
+  settings: NotificationSettings,
+  now = Date.now(),
+  money: (n: number) => string = inr
+): AppNotification[] {
+  const { rules } = settings;
+  const out: AppNotification[] = [];
+
+  for (const v of list) {
+    const left = remaining(v);
+    if (left <= 0) continue;
+    const status = deriveStatus(v);
+
+    if (status === "expired") {
+      const ended = endOfDay(v.expires_on!);
+      if (rules.expired && now - ended < NEWLY_EXPIRED_DAYS * DAY)
+        out.push({
+          id: `expired:${v.id}:${v.expires_on}`,
+          rule: "expired",
+          voucherId: v.id,
+          title: `${v.name} has expired`,
+          body: `${money(left)} was left on it.`,
+          at: new Date(ended).toISOString(),
+        });
+      continue;
+    }
+    if (status !== "unused") continue;
+
+    if (rules.expiring && v.expires_on) {
+      const days = daysUntilExpiry(v, now)!;
+      if (days <= settings.expiringDays)
+        out.push({
+          id: `expiring:${v.id}:${v.expires_on}`,
+          rule: "expiring",
+          voucherId: v.id,
+          title: `${v.name} expires ${days === 0 ? "today" : days === 1 ? "tomorrow" : `in ${days} days`}`,
+          body: `${money(left)} left to use by ${v.expires_on.slice(0, 10)}.`,
+          at: new Date(
+            Math.max(new Date(v.created_at).getTime(), endOfDay(v.expires_on) - settings.expiringDays * DAY)
+          ).toISOString(),
+        });
+    }
+
+    // only once something has been spent: a small voucher isn't "low"
+    if (rules.lowBalance && v.spent > 0 && left < settings.lowBalance)
+      out.push({
+        id: `lowBalance:${v.id}`,
+        rule: "lowBalance",
+        voucherId: v.id,
+        title: `${v.name} is running low`,
+        body: `${money(left)} of ${money(v.value)} left.`,
+        at: v.updated_at,
+      });
+
+    if (rules.stale) {
+      const since = new Date(v.updated_at);
+      const due = new Date(since);
+      due.setMonth(due.getMonth() + settings.staleMonths);
+      if (due.getTime() <= now)
+        out.push({
+          // a new write restarts the clock and produces a fresh notification
+          id: `stale:${v.id}:${v.updated_at}`,
+          rule: "stale",
+          voucherId: v.id,
+          title: `${v.name} hasn't been used in a while`,
+          body: `No activity since ${since.toLocaleDateString()}. ${money(left)} left.`,
+          at: due.toISOString(),
+        });
+    }
+  }
+
+  return out.sort((a, b) => b.at.localeCompare(a.at));
+}
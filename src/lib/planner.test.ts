@@ -0,0 +1,63 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { makeVoucher } from "../test/fixtures";
+import { matchesMerchant, paymentCandidates, planPayment } from "./planner";
+
+const now = new Date("2026-06-01T12:00:00Z").getTime();
+
+// expiry status is derived from the clock
+beforeAll(() => vi.useFakeTimers({ now, toFake: ["Date"] }));
+afterAll(() => vi.useRealTimers());
+
+describe("matchesMerchant", () => {
+  it("matches either way round, ignoring case and punctuation", () => {
+    expect(matchesMerchant(makeVoucher({ name: "Amazon Pay" }), "amazon")).toBe(true);
+    expect(matchesMerchant(makeVoucher({ name: "Amazon" }), "Amazon.in")).toBe(true);
+    expect(matchesMerchant(makeVoucher({ name: "Flipkart" }), "Amazon")).toBe(false);
+  });
+});
+
+describe("paymentCandidates", () => {
+  it("leaves out used, empty, excluded and other-category vouchers", () => {
+    const list = [
+      makeVoucher({ id: "ok" }),
+      makeVoucher({ id: "used", status: "used" }),
+      makeVoucher({ id: "empty", spent: 1000 }),
+      makeVoucher({ id: "excluded" }),
+      makeVoucher({ id: "food", category: "Food" }),
+    ];
+    const ids = paymentCandidates(list, { amount: 100, category: "Shopping", exclude: ["excluded"] }, now).map(
+      (v) => v.id
+    );
+    expect(ids).toEqual(["ok"]);
+  });
+
+  it("draws the soonest expiry first, then the smallest balance", () => {
+    const list = [
+      makeVoucher({ id: "big", value: 2000 }),
+      makeVoucher({ id: "small", value: 200 }),
+      makeVoucher({ id: "expiring", value: 5000, expires_on: "2026-06-05" }),
+    ];
+    expect(paymentCandidates(list, { amount: 100 }, now).map((v) => v.id)).toEqual([
+      "expiring",
+      "small",
+      "big",
+    ]);
+  });
+});
+
+describe("planPayment", () => {
+  it("splits the amount and only draws the last voucher partially", () => {
+    const list = [makeVoucher({ id: "a", value: 300 }), makeVoucher({ id: "b", value: 500 })];
+    const plan = planPayment(list, { amount: 450 }, now);
+    expect(plan.lines.map((l) => [l.voucher.id, l.amount])).toEqual([
+      ["a", 300],
+      ["b", 150],
+    ]);
+    expect(plan).toMatchObject({ covered: 450, shortfall: 0 });
+  });
+
+  it("reports what the vouchers can't cover", () => {
+    const plan = planPayment([makeVoucher({ value: 100, spent: 40 })], { amount: 100 }, now);
+    expect(plan).toMatchObject({ covered: 60, shortfall: 40 });
+  });
+});
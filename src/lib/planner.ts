@@ -0,0 +1,67 @@
+import type { Voucher } from "../types";
+import { expiryWindow, expiryWindows } from "./risk";
+import { deriveStatus, remaining } from "./voucher";
+
+export type PaymentRequest = {
+  amount: number;
+  // matched against voucher names, either way round ("Amazon" ~ "Amazon Pay")
+  merchant?: string;
+  category?: string;
+  // vouchers the user took out of the suggestion
+  exclude?: string[];
+};
+
+export type PlanLine = { voucher: Voucher; amount: number };
+
+export type PaymentPlan = {
+  lines: PlanLine[];
+  covered: number;
+  // what is left to pay another way
+  shortfall: number;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function matchesMerchant(v: Voucher, merchant: string) {
+  const a = norm(v.name);
+  const b = norm(merchant);
+  return !b || a.includes(b) || b.includes(a);
+}
+
+// Vouchers that can pay for the request, in the order they should be drawn:
+// soonest expiry window first, then small balances (so stubs get cleared),
+// then the exact expiry date
+export function paymentCandidates(list: Voucher[], req: PaymentRequest, now = Date.now()) {
+  const rank = (v: Voucher) => expiryWindows.findIndex((w) => w.key === expiryWindow(v, now));
+  return list
+    .filter(
+      (v) =>
+        deriveStatus(v) === "unused" &&
+        remaining(v) > 0 &&
+        !req.exclude?.includes(v.id) &&
+        (!req.category || v.category === req.category) &&
+        (!req.merchant || matchesMerchant(v, req.merchant))
+    )
+    .sort(
+      (a, b) =>
+        rank(a) - rank(b) ||
+        remaining(a) - remaining(b) ||
+        (a.expires_on ?? "9999").localeCompare(b.expires_on ?? "9999")
+    );
+}
+
+// Splits `amount` across the candidates in order; only the last voucher is
+// drawn partially, and none is asked for more than it has left
+export function planPayment(list: Voucher[], req: PaymentRequest, now = Date.now()): PaymentPlan {
+  const lines: PlanLine[] = [];
+  let left = round2(req.amount);
+  for (const v of paymentCandidates(list, req, now)) {
+    if (left <= 0) break;
+    const amount = round2(Math.min(remaining(v), left));
+    lines.push({ voucher: v, amount });
+    left = round2(left - amount);
+  }
+  const covered = round2(lines.reduce((a, l) => a + l.amount, 0));
+  return { lines, covered, shortfall: Math.max(0, left) };
+}
@@ -0,0 +1,37 @@
+// Global "privacy mode": hides balances and amounts across the app.
+// Persisted per browser so it survives reloads.
+const KEY = "vw:privacy-mode";
+const listeners = new Set<() => void>();
+
+let enabled = (() => {
+  try {
+    return localStorage.getItem(KEY) === "1";
+  } catch {
+    return false;
+  }
+})();
+
+export const privacyMode = {
+  get: () => enabled,
+
+  set(next: boolean) {
+    enabled = next;
+    try {
+      localStorage.setItem(KEY, next ? "1" : "0");
+    } catch {
+      // storage unavailable: keep it for this session only
+    }
+    listeners.forEach((l) => l());
+  },
+
+  toggle() {
+    privacyMode.set(!enabled);
+  },
+
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
@@ -0,0 +1,71 @@
+import type { Voucher } from "../types";
+import { daysUntilExpiry, deriveStatus, remaining } from "./voucher";
+
+export type ExpiryWindow = "lapsed" | "week" | "month" | "quarter" | "later";
+
+export const expiryWindows: { key: ExpiryWindow; label: string }[] = [
+  { key: "lapsed", label: "Already lapsed" },
+  { key: "week", label: "This week" },
+  { key: "month", label: "Within 30 days" },
+  { key: "quarter", label: "Within 90 days" },
+  { key: "later", label: "Later / no expiry" },
+];
+
+// Window for a voucher with money left on it; used-up vouchers have none
+export function expiryWindow(v: Voucher, now = Date.now()): ExpiryWindow | null {
+  if (remaining(v) <= 0 || deriveStatus(v) === "used") return null;
+  const days = daysUntilExpiry(v, now);
+  if (days === null) return "later";
+  if (days < 0) return "lapsed";
+  if (days < 7) return "week";
+  if (days < 30) return "month";
+  if (days < 90) return "quarter";
+  return "later";
+}
+
+export type WindowTotal = { key: ExpiryWindow; label: string; amount: number; count: number };
+
+// Remaining balance grouped by how soon it expires
+export function balanceByWindow(list: Voucher[], now = Date.now()): WindowTotal[] {
+  const totals = expiryWindows.map((w) => ({ ...w, amount: 0, count: 0 }));
+  for (const v of list) {
+    const w = expiryWindow(v, now);
+    if (!w) continue;
+    const t = totals.find((x) => x.key === w)!;
+    t.amount += remaining(v);
+    t.count++;
+  }
+  return totals;
+}
+
+// Still-usable vouchers in the order they should be spent: soonest expiry
+// first, bigger balances first within the same day
+export function spendFirst(list: Voucher[], now = Date.now(), limit = 5) {
+  return list
+    .map((v) => ({ voucher: v, days: daysUntilExpiry(v, now) }))
+    .filter(
+      (x): x is { voucher: Voucher; days: number } =>
+        x.days !== null &&
+        x.days >= 0 &&
+        remaining(x.voucher) > 0 &&
+        deriveStatus(x.voucher) === "unused"
+    )
+    .sort((a, b) => a.days - b.days || remaining(b.voucher) - remaining(a.voucher))
+    .slice(0, limit);
+}
+
+export type LostPoint = { month: string; lost: number; cumulative: number };
+
+// Balances left on lapsed vouchers, by the month they expired (yyyy-mm)
+export function lostValueByMonth(list: Voucher[], now = Date.now()): LostPoint[] {
+  const byMonth = new Map<string, number>();
+  for (const v of list) {
+    if (expiryWindow(v, now) !== "lapsed") continue;
+    const month = v.expires_on!.slice(0, 7);
+    byMonth.set(month, (byMonth.get(month) ?? 0) + remaining(v));
+  }
+  let cumulative = 0;
+  return [...byMonth.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, lost]) => ({ month, lost, cumulative: (cumulative += lost) }));
+}
@@ -0,0 +1,52 @@
+import { messageSubject } from "./shareTemplates";
+
+export type ShareChannel = "whatsapp" | "telegram" | "email" | "native" | "clipboard";
+
+export const SHARE_CHANNELS: { key: ShareChannel; label: string }[] = [
+  { key: "whatsapp", label: "WhatsApp" },
+  { key: "telegram", label: "Telegram" },
+  { key: "email", label: "Email" },
+  { key: "native", label: "Share…" },
+  { key: "clipboard", label: "Copy" },
+];
+
+// The Web Share API is mostly mobile; desktop browsers may not have it
+export const canShareNatively = () => typeof navigator !== "undefined" && !!navigator.share;
+
+// Link that opens the channel with the message filled in; null for channels
+// that go through a browser API instead
+export function channelUrl(channel: ShareChannel, text: string): string | null {
+  const enc = encodeURIComponent;
+  switch (channel) {
+    case "whatsapp":
+      return `https://wa.me/?text=${enc(text)}`;
+    case "telegram":
+      // t.me requires `url`; given the whole message it sends it as is
+      return `https://t.me/share/url?url=${enc(text)}`;
+    case "email":
+      return `mailto:?subject=${enc(messageSubject(text))}&body=${enc(text)}`;
+    default:
+      return null;
+  }
+}
+
+// Resolves false when the user dismissed the native share sheet
+export async function sendTo(channel: ShareChannel, text: string) {
+  if (channel === "native") {
+    try {
+      await navigator.share({ title: messageSubject(text), text });
+      return true;
+    } catch (e) {
+      if ((e as Error).name === "AbortError") return false;
+      throw e;
+    }
+  }
+  if (channel === "clipboard") {
+    await navigator.clipboard.writeText(text);
+    return true;
+  }
+  const url = channelUrl(channel, text)!;
+  if (channel === "email") window.location.href = url;
+  else window.open(url, "_blank", "noopener");
+  return true;
+}
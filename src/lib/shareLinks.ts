@@ -0,0 +1,37 @@
+import type { VoucherShare } from "../types";
+
+export const SHARE_EXPIRY_CHOICES = [
+  { hours: 1, label: "1 hour" },
+  { hours: 24, label: "1 day" },
+  { hours: 24 * 7, label: "7 days" },
+  { hours: 24 * 30, label: "30 days" },
+];
+
+export const DEFAULT_SHARE_HOURS = 24;
+
+// share_passcode_attempts() in the migration
+export const SHARE_PASSCODE_ATTEMPTS = 5;
+
+// What the link key unlocks
+export type ShareSecret = { code: string | null; pin: string | null };
+
+export type ShareState = "active" | "revoked" | "locked" | "expired" | "used_up";
+
+export const SHARE_STATE_LABELS: Record<ShareState, string> = {
+  active: "Active",
+  revoked: "Revoked",
+  locked: "Locked (wrong passcodes)",
+  expired: "Expired",
+  used_up: "View limit reached",
+};
+
+// Mirrors the checks in open_voucher_share
+export function shareState(s: VoucherShare, now = Date.now()): ShareState {
+  if (s.revoked_at) return s.failed_attempts >= SHARE_PASSCODE_ATTEMPTS ? "locked" : "revoked";
+  if (new Date(s.expires_at).getTime() <= now) return "expired";
+  if (s.max_views !== null && s.views >= s.max_views) return "used_up";
+  return "active";
+}
+
+export const shareUrl = (origin: string, shareId: string, key: string) =>
+  `${origin}/s/${shareId}#${key}`;
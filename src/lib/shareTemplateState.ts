@@ -0,0 +1,86 @@
+import type { ShareTemplate } from "./shareTemplates";
+import { DEFAULT_TEMPLATES } from "./shareTemplates";
+
+// The user's share templates and the one picked last. Persisted per browser,
+// like privacy mode.
+const KEY = "vw:share-templates";
+
+export type ShareTemplateState = { templates: ShareTemplate[]; lastUsed: string };
+
+const initial: ShareTemplateState = { templates: DEFAULT_TEMPLATES, lastUsed: DEFAULT_TEMPLATES[0].id };
+
+// The first "Full details" built-in put the code and PIN in plain text. Saved
+// copies the user never edited are swapped for the link-based version.
+const LEGACY_FULL_BODY = [
+  "🎁 *{name}*",
+  "💰 Value: {value}",
+  "✅ Used: {spent}",
+  "💵 Remaining: {remaining}",
+  "📅 Expiry: {expiry} {days_left}",
+  "🏷️ Category: {category}",
+  "📌 Code: {code}",
+  "🔐 PIN: {pin}",
+  "📈 Status: {status}",
+].join("\n");
+
+const upgrade = (t: ShareTemplate) =>
+  t.id === "full" && t.body === LEGACY_FULL_BODY
+    ? (DEFAULT_TEMPLATES.find((d) => d.id === "full") ?? t)
+    : t;
+
+const listeners = new Set<() => void>();
+
+let state: ShareTemplateState = (() => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(KEY) ?? "null") as ShareTemplateState | null;
+    return saved?.templates?.length
+      ? { ...initial, ...saved, templates: saved.templates.map(upgrade) }
+      : initial;
+  } catch {
+    return initial;
+  }
+})();
+
+function set(next: ShareTemplateState) {
+  state = next;
+  try {
+    localStorage.setItem(KEY, JSON.stringify(next));
+  } catch {
+    // storage unavailable: keep it for this session only
+  }
+  listeners.forEach((l) => l());
+}
+
+export const shareTemplateState = {
+  get: () => state,
+
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // Adds the template, or replaces the one with the same id
+  save(t: ShareTemplate) {
+    const exists = state.templates.some((x) => x.id === t.id);
+    set({
+      ...state,
+      templates: exists ? state.templates.map((x) => (x.id === t.id ? t : x)) : [...state.templates, t],
+    });
+  },
+
+  remove(id: string) {
+    if (state.templates.length <= 1) return;
+    const templates = state.templates.filter((t) => t.id !== id);
+    set({ templates, lastUsed: state.lastUsed === id ? templates[0].id : state.lastUsed });
+  },
+
+  use(id: string) {
+    if (id !== state.lastUsed) set({ ...state, lastUsed: id });
+  },
+
+  reset() {
+    set(initial);
+  },
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { makeVoucher } from "../test/fixtures";
+import type { ShareTemplate } from "./shareTemplates";
+import { DEFAULT_TEMPLATES, messageSubject, renderTemplate, usesLink } from "./shareTemplates";
+
+const template = (body: string, include = false): ShareTemplate => ({
+  id: "t",
+  name: "Test",
+  body,
+  includeCode: include,
+  includePin: include,
+});
+
+const voucher = makeVoucher({ name: "Amazon", value: 1000, spent: 250, code: "CODE-1", pin: "4321" });
+const link = { url: "https://example.com/s/abc#key", expiresAt: "2026-06-02T10:00:00Z", passcode: true };
+
+describe("renderTemplate", () => {
+  it("fills placeholders from the voucher", () => {
+    expect(renderTemplate(template("{name}: {remaining} of {value}"), voucher, null)).toBe(
+      "Amazon: ₹750 of ₹1,000"
+    );
+  });
+
+  it("leaves the code and PIN out unless the template includes them", () => {
+    const body = "{name}\nCode: {code}\nPIN: {pin}";
+    expect(renderTemplate(template(body), voucher, null)).toBe("Amazon");
+    expect(renderTemplate(template(body, true), voucher, null)).toBe("Amazon\nCode: CODE-1\nPIN: 4321");
+  });
+
+  it("never sends ciphertext", () => {
+    const locked = { ...voucher, code: "enc:v1:abc:def" };
+    expect(renderTemplate(template("{name}\nCode: {code}", true), locked, null)).toBe("Amazon");
+  });
+
+  it("adds the link lines only once a link exists", () => {
+    const t = template("{name}\nOpen: {link}\n{passcode_note}");
+    expect(renderTemplate(t, voucher, null)).toBe("Amazon");
+    expect(renderTemplate(t, voucher, link)).toBe(
+      "Amazon\nOpen: https://example.com/s/abc#key\nAsk me for the passcode"
+    );
+  });
+
+  it("keeps unknown placeholders as written", () => {
+    expect(renderTemplate(template("{name} {nope}"), voucher, null)).toBe("Amazon {nope}");
+  });
+});
+
+describe("DEFAULT_TEMPLATES", () => {
+  it("keep the code and PIN out of the message", () => {
+    for (const t of DEFAULT_TEMPLATES) {
+      expect(t.includeCode || t.includePin).toBe(false);
+      expect(renderTemplate(t, voucher, link)).not.toMatch(/CODE-1|4321/);
+    }
+  });
+
+  it("hand secrets over through a link", () => {
+    expect(DEFAULT_TEMPLATES.filter(usesLink).map((t) => t.id)).toEqual(["link", "full"]);
+  });
+});
+
+describe("messageSubject", () => {
+  it("uses the first line without formatting", () => {
+    expect(messageSubject("🎁 *Amazon*\nmore")).toBe("🎁 Amazon");
+    expect(messageSubject("")).toBe("Voucher");
+  });
+});
@@ -0,0 +1,146 @@
+import type { Voucher } from "../types";
+import { isEncrypted } from "./crypto";
+import { inr } from "./format";
+import { daysUntilExpiry, deriveStatus, remaining } from "./voucher";
+
+// A user-editable share message. `{field}` placeholders are filled from the
+// voucher; a line whose placeholders all come out empty is left out, so
+// "🔐 PIN: {pin}" disappears when there is no PIN or it isn't included.
+export type ShareTemplate = {
+  id: string;
+  name: string;
+  body: string;
+  includeCode: boolean;
+  includePin: boolean;
+};
+
+export const TEMPLATE_FIELDS = [
+  { key: "name", label: "Voucher name" },
+  { key: "category", label: "Category" },
+  { key: "value", label: "Face value" },
+  { key: "spent", label: "Amount used" },
+  { key: "remaining", label: "Remaining balance" },
+  { key: "expiry", label: "Expiry date" },
+  { key: "days_left", label: "Days left, e.g. \"(12 days left)\"" },
+  { key: "status", label: "unused / used / expired" },
+  { key: "code", label: "Code (when included)" },
+  { key: "pin", label: "PIN (when included)" },
+  { key: "link", label: "Share link" },
+  { key: "link_expires", label: "When the share link stops working" },
+  { key: "passcode_note", label: "\"Ask me for the passcode\" when the link has one" },
+] as const;
+
+export type TemplateField = (typeof TEMPLATE_FIELDS)[number]["key"];
+
+// None of the built-in templates put the code or PIN in the message; that is
+// an opt-in per template in the editor
+export const DEFAULT_TEMPLATES: ShareTemplate[] = [
+  {
+    id: "link",
+    name: "Secure link",
+    body: [
+      "🎁 *{name}*",
+      "💵 Remaining: {remaining}",
+      "📅 Expiry: {expiry} {days_left}",
+      "🔗 Code and PIN: {link}",
+      "⏳ Link works until {link_expires}",
+      "🔑 {passcode_note}",
+    ].join("\n"),
+    includeCode: false,
+    includePin: false,
+  },
+  {
+    id: "summary",
+    name: "Balance only",
+    body: [
+      "🎁 *{name}*",
+      "💵 Remaining: {remaining}",
+      "📅 Expiry: {expiry}",
+      "🏷️ Category: {category}",
+    ].join("\n"),
+    includeCode: false,
+    includePin: false,
+  },
+  {
+    id: "full",
+    name: "Full details",
+    body: [
+      "🎁 *{name}*",
+      "💰 Value: {value}",
+      "✅ Used: {spent}",
+      "💵 Remaining: {remaining}",
+      "📅 Expiry: {expiry} {days_left}",
+      "🏷️ Category: {category}",
+      "📈 Status: {status}",
+      "🔗 Code and PIN: {link}",
+      "⏳ Link works until {link_expires}",
+      "🔑 {passcode_note}",
+    ].join("\n"),
+    includeCode: false,
+    includePin: false,
+  },
+];
+
+export type ShareLinkInfo = { url: string; expiresAt: string; passcode: boolean };
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+export const usesLink = (t: ShareTemplate) => /\{link\}/.test(t.body);
+
+function daysLeft(v: Voucher, now: number) {
+  const days = daysUntilExpiry(v, now);
+  if (days === null) return "";
+  if (days < 0) return "(expired)";
+  if (days === 0) return "(expires today)";
+  return `(${days} day${days === 1 ? "" : "s"} left)`;
+}
+
+export function templateValues(
+  t: ShareTemplate,
+  v: Voucher,
+  link: ShareLinkInfo | null,
+  now = Date.now()
+): Record<TemplateField, string> {
+  return {
+    name: v.name,
+    category: v.category,
+    value: inr(v.value),
+    spent: inr(v.spent),
+    remaining: inr(remaining(v)),
+    expiry: v.expires_on ? new Date(v.expires_on).toLocaleDateString() : "-",
+    days_left: daysLeft(v, now),
+    status: deriveStatus(v),
+    // ciphertext (vault locked) is never worth sending
+    code: t.includeCode && !isEncrypted(v.code) ? (v.code ?? "") : "",
+    pin: t.includePin && !isEncrypted(v.pin) ? (v.pin ?? "") : "",
+    link: link?.url ?? "",
+    link_expires: link
+      ? new Date(link.expiresAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+      : "",
+    passcode_note: link?.passcode ? "Ask me for the passcode" : "",
+  };
+}
+
+export function renderTemplate(
+  t: ShareTemplate,
+  v: Voucher,
+  link: ShareLinkInfo | null,
+  now = Date.now()
+) {
+  const values: Record<string, string> = templateValues(t, v, link, now);
+  return t.body
+    .split("\n")
+    .filter((line) => {
+      const fields = [...line.matchAll(PLACEHOLDER)].map((m) => m[1]).filter((f) => f in values);
+      return !fields.length || fields.some((f) => values[f]);
+    })
+    .map((line) =>
+      line.replace(PLACEHOLDER, (whole, f: string) => (f in values ? values[f] : whole)).trimEnd()
+    )
+    .join("\n")
+    .trim();
+}
+
+// First line of the message without formatting, used as an email subject
+export const messageSubject = (text: string) =>
+  text.split("\n")[0].replace(/[*_~]/g, "").trim() || "Voucher";
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { TRASH_RETENTION_DAYS, daysUntilPurge, isTrashed, purgeDue } from "./trash";
+
+const DAY = 86_400_000;
+const deletedAt = "2026-06-01T00:00:00.000Z";
+const deleted = new Date(deletedAt).getTime();
+
+describe("trash", () => {
+  it("only counts vouchers with a deletion time as trashed", () => {
+    expect(isTrashed({ deleted_at: null })).toBe(false);
+    expect(isTrashed({ deleted_at: deletedAt })).toBe(true);
+    expect(daysUntilPurge({ deleted_at: null })).toBeNull();
+  });
+
+  it("counts down the retention period in whole days", () => {
+    expect(daysUntilPurge({ deleted_at: deletedAt }, deleted)).toBe(TRASH_RETENTION_DAYS);
+    expect(daysUntilPurge({ deleted_at: deletedAt }, deleted + 1.5 * DAY)).toBe(TRASH_RETENTION_DAYS - 1);
+  });
+
+  it("is due for purging once the retention period has passed", () => {
+    expect(purgeDue({ deleted_at: deletedAt }, deleted + (TRASH_RETENTION_DAYS - 1) * DAY)).toBe(false);
+    expect(purgeDue({ deleted_at: deletedAt }, deleted + TRASH_RETENTION_DAYS * DAY)).toBe(true);
+  });
+});
@@ -0,0 +1,18 @@
+import type { Voucher } from "../types";
+
+// trash_retention_days() in the trash migration
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY = 86_400_000;
+
+export const isTrashed = (v: Pick<Voucher, "deleted_at">) => !!v.deleted_at;
+
+// Whole days until the voucher is purged; 0 once it is due
+export function daysUntilPurge(v: Pick<Voucher, "deleted_at">, now = Date.now()) {
+  if (!v.deleted_at) return null;
+  const due = new Date(v.deleted_at).getTime() + TRASH_RETENTION_DAYS * DAY;
+  return Math.max(0, Math.ceil((due - now) / DAY));
+}
+
+export const purgeDue = (v: Pick<Voucher, "deleted_at">, now = Date.now()) =>
+  daysUntilPurge(v, now) === 0;
@@ -0,0 +1,41 @@
+import type { Voucher, VoucherStatus } from "../types";
+import type { VoucherChange } from "../data/repository";
+
+export const categories = [
+  "General",
+  "Shopping",
+  "Food",
+  "Travel",
+  "Recharge",
+  "Subscription",
+] as const;
+
+// Expiry overrides stored status to expired (display-only)
+export function deriveStatus(v: Voucher): VoucherStatus {
+  if (v.expires_on) {
+    const end = new Date(v.expires_on);
+    end.setHours(23, 59, 59, 999);
+    if (end.getTime() < Date.now()) return "expired";
+  }
+  return v.status || "unused";
+}
+
+// Whole days until the end of the expiry date: 0 = expires today, negative = lapsed
+export function daysUntilExpiry(v: Pick<Voucher, "expires_on">, now = Date.now()): number | null {
+  if (!v.expires_on) return null;
+  const end = new Date(v.expires_on);
+  end.setHours(23, 59, 59, 999);
+  return Math.ceil((end.getTime() - now) / 86_400_000) - 1;
+}
+
+export const remaining = (v: Pick<Voucher, "value" | "spent">) =>
+  Math.max(0, (v.value || 0) - (v.spent || 0));
+
+// Merges a realtime change into a list ordered newest first
+export function applyChange(list: Voucher[], change: VoucherChange): Voucher[] {
+  if (change.type === "delete") return list.filter((v) => v.id !== change.id);
+  const { voucher } = change;
+  if (list.some((v) => v.id === voucher.id))
+    return list.map((v) => (v.id === voucher.id ? voucher : v));
+  return [voucher, ...list].sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
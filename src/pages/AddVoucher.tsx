@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { supabase } from "../supabase";
+import { vouchersRepo } from "../data";
 import { useNavigate } from "react-router-dom";
 
 export default function AddVoucher() {
@@ -18,34 +18,23 @@ export default function AddVoucher() {
     setError("");
     setLoading(true);
 
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      setError("Not logged in");
+    try {
+      await vouchersRepo.create({
+        name,
+        value: Number(value),
+        category: "General",
+        code: code || null,
+        pin: pin || null,
+        expires_on: expiry || null,
+      });
+    } catch (e) {
+      setError((e as Error).message);
       setLoading(false);
       return;
     }
 
-    const { error } = await supabase.from("vouchers").insert({
-      user_id: user.id,
-      name,
-      value: Number(value),
-      code,
-      pin,
-      expiry,
-      status: "unused",
-      spent: 0,
-    });
-
     setLoading(false);
-
-    if (error) {
-      setError(error.message);
-    } else {
-      navigate("/dashboard");
-    }
+    navigate("/dashboard");
   }
 
   return (
@@ -1,43 +1,46 @@
 import { useEffect, useMemo, useState } from "react";
-import { supabase } from "../supabase";
 import type { Voucher } from "../types";
+import { applyChange, deriveStatus, remaining as remainingOf } from "../lib/voucher";
+import { vouchersRepo } from "../data";
+import { usePrivacyMode } from "../hooks/usePrivacyMode";
+import { useWallets } from "../hooks/useWallets";
+import { MASKED } from "../lib/format";
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from "recharts";
 import { Link } from "react-router-dom";
+import ValueAtRisk from "../components/ValueAtRisk";
+import SpendingAnalytics from "../components/SpendingAnalytics";
 
 export default function Dashboard() {
   const [vouchers, setVouchers] = useState<Voucher[]>([]);
   const [loading, setLoading] = useState(true);
-
-  // ✅ Expiry-aware status (same logic as Vouchers.tsx)
-  function deriveStatus(v: Voucher): "unused" | "used" | "expired" {
-    if (v.expires_on) {
-      const end = new Date(v.expires_on);
-      end.setHours(23, 59, 59, 999);
-      if (end.getTime() < Date.now()) return "expired";
-    }
-    return v.status as "unused" | "used" | "expired";
-  }
+  const privacy = usePrivacyMode();
+  const money = (n: number | undefined) => `₹ ${privacy ? MASKED : (n ?? 0).toFixed(2)}`;
+  const { activeId: walletId } = useWallets();
 
   useEffect(() => {
     let mounted = true;
-
-    (async () => {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data, error } = await supabase
-        .from("vouchers")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false });
-
-      if (!mounted) return;
-      if (!error && data) setVouchers(data as Voucher[]);
-      setLoading(false);
-    })();
-
-    return () => { mounted = false; };
-  }, []);
+    setLoading(true);
+
+    vouchersRepo
+      .list()
+      .then((data) => {
+        if (mounted) setVouchers(data);
+      })
+      .catch(() => {})
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    // merge changes made on other devices
+    const unsubscribe = vouchersRepo.subscribe((change) => {
+      if (mounted) setVouchers((list) => applyChange(list, change));
+    });
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [walletId]);
 
   // ✅ Correct status counts using deriveStatus
   const totals = useMemo(() => {
@@ -67,11 +70,17 @@ export default function Dashboard() {
     <div className="space-y-6">
       {/* Top Stats */}
       <div className="grid gap-4 md:grid-cols-3">
-        <StatCard title="Total Value" value={`₹ ${totals.totalValue.toFixed(2)}`} />
-        <StatCard title="Total Spent" value={`₹ ${totals.totalSpent.toFixed(2)}`} />
-        <StatCard title="Remaining" value={`₹ ${totals.totalRem.toFixed(2)}`} />
+        <StatCard title="Total Value" value={money(totals.totalValue)} />
+        <StatCard title="Total Spent" value={money(totals.totalSpent)} />
+        <StatCard title="Remaining" value={money(totals.totalRem)} />
       </div>
 
+      {/* Expiry windows, what to use first, lost value */}
+      {!loading && <ValueAtRisk vouchers={vouchers} money={money} />}
+
+      {/* Spend over time, remaining by category / voucher, velocity */}
+      {!loading && <SpendingAnalytics vouchers={vouchers} money={money} />}
+
       {/* Middle row */}
       <div className="grid gap-4 md:grid-cols-2">
         {/* Chart */}
@@ -142,14 +151,14 @@ export default function Dashboard() {
               <tbody>
                 {vouchers.slice(0, 8).map(v => {
                   const status = deriveStatus(v);
-                  const remaining = (v.value || 0) - (v.spent || 0);
+                  const remaining = remainingOf(v);
 
                   return (
                     <tr key={v.id} className="border-t border-neutral-800">
                       <td className="py-2">{v.name}</td>
-                      <td className="py-2">₹ {v.value?.toFixed(2)}</td>
-                      <td className="py-2">₹ {v.spent?.toFixed(2)}</td>
-                      <td className="py-2">₹ {remaining.toFixed(2)}</td>
+                      <td className="py-2">{money(v.value)}</td>
+                      <td className="py-2">{money(v.spent)}</td>
+                      <td className="py-2">{money(remaining)}</td>
 
                       <td className="py-2">
                         <span className={`px-2 py-1 rounded-lg text-xs ${badge(status)}`}>
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useLocation, useParams } from "react-router-dom";
+import type { ShareOpenResult } from "../data";
+import { voucherShares } from "../data";
+import { inr } from "../lib/format";
+import { SHARE_PASSCODE_ATTEMPTS } from "../lib/shareLinks";
+
+const REFUSALS: Partial<Record<ShareOpenResult["status"], string>> = {
+  not_found: "This link doesn't exist.",
+  revoked: "This link was revoked by the person who shared it.",
+  locked: `This link was locked after ${SHARE_PASSCODE_ATTEMPTS} wrong passcodes.`,
+  expired: "This link has expired.",
+  used_up: "This link has reached its view limit.",
+  bad_key: "This link is incomplete. Ask for it again and open it exactly as sent.",
+};
+
+// Public, read-only view behind a share link (/s/<id>#<key>). Opening is a
+// click rather than on load so chat link previews don't use up a view.
+export default function SharedVoucher() {
+  const { shareId = "" } = useParams();
+  const key = useLocation().hash.slice(1);
+  const [result, setResult] = useState<ShareOpenResult | null>(null);
+  const [passcode, setPasscode] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  async function open() {
+    if (!voucherShares) return;
+    setBusy(true);
+    try {
+      setResult(await voucherShares.open(shareId, key, passcode));
+    } catch (e) {
+      alert((e as Error).message);
+    }
+    setBusy(false);
+  }
+
+  const card = "mx-auto max-w-md rounded-2xl border border-neutral-800 bg-neutral-950/60 p-6 space-y-4";
+
+  if (!voucherShares)
+    return <div className={card}>Share links aren't available in this version of the app.</div>;
+
+  if (result?.status === "ok") {
+    const { voucher: v, secret } = result;
+    return (
+      <div className={card}>
+        <div>
+          <h1 className="text-2xl font-semibold">{v.name}</h1>
+          <div className="text-sm text-neutral-400">{v.category}</div>
+        </div>
+        <div className="text-3xl font-semibold">{inr(v.value - v.spent)}</div>
+        <div className="text-sm text-neutral-400">
+          of {inr(v.value)} · expires {v.expires_on ? new Date(v.expires_on).toLocaleDateString() : "-"}
+          {v.status === "used" && " · already used"}
+        </div>
+        {[
+          ["Code", secret.code],
+          ["PIN", secret.pin],
+        ].map(([label, value]) => (
+          <div key={label} className="rounded-lg bg-neutral-900 border border-neutral-800 px-3 py-2">
+            <div className="text-xs text-neutral-500">{label}</div>
+            <div className="font-mono text-xl tracking-wider break-all select-all">{value || "-"}</div>
+          </div>
+        ))}
+        <p className="text-xs text-neutral-500">
+          Link valid until {new Date(result.expires_at).toLocaleString()}
+          {result.views_left !== null && ` · ${result.views_left} view(s) left`}. Don't forward it.
+        </p>
+      </div>
+    );
+  }
+
+  const refusal = result && REFUSALS[result.status];
+  if (refusal) return <div className={card}>{refusal}</div>;
+
+  const needsPasscode = result?.status === "passcode_required" || result?.status === "wrong_passcode";
+
+  return (
+    <div className={card}>
+      <h1 className="text-xl font-semibold">A voucher was shared with you</h1>
+      <p className="text-sm text-neutral-400">
+        Opening it shows the code and PIN and may count towards a view limit.
+      </p>
+      {needsPasscode && (
+        <div className="space-y-1">
+          <input
+            autoFocus
+            className="w-full rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
+            placeholder="Passcode"
+            value={passcode}
+            onChange={(e) => setPasscode(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && open()}
+          />
+          {result?.status === "wrong_passcode" && (
+            <div className="text-sm text-amber-300">
+              Wrong passcode · {result.attempts_left} attempt(s) left
+            </div>
+          )}
+        </div>
+      )}
+      <button
+        disabled={busy || (needsPasscode && !passcode)}
+        onClick={open}
+        className="w-full bg-sky-600 hover:bg-sky-500 disabled:opacity-50 py-2 rounded-lg"
+      >
+        {busy ? "Opening…" : "Show voucher"}
+      </button>
+    </div>
+  );
+}
@@ -1,25 +1,54 @@
-import { useEffect, useMemo, useState } from "react";
-import { supabase } from "../supabase";
-import type { Voucher } from "../types";
+import type { ClipboardEvent } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import type { BarcodeFormat, Voucher, VoucherTransaction, VoucherTransfer } from "../types";
+import type { NewTransaction } from "../lib/ledger";
+import { markEntry, reversalOf } from "../lib/ledger";
+import { MASKED, cleanNumString, inr } from "../lib/format";
+import { applyChange, categories, deriveStatus, remaining } from "../lib/voucher";
+import { activeInMonth, monthLabel, spendEntries } from "../lib/analytics";
+import type { DecodedCode } from "../lib/imageCodes";
+import { decodeImageCodes } from "../lib/imageCodes";
+import { offlineSync, transfers, vouchersRepo, wallets } from "../data";
+import type { VoucherInput } from "../data";
+import { overwriteVoucher } from "../data/dedupe";
+import { createBackup } from "../data/backup";
+import { backupFileName } from "../lib/backup";
+import { ConflictError } from "../data/errors";
+import { useSyncStatus } from "../hooks/useSyncStatus";
+import { useVaultStatus } from "../hooks/useVaultStatus";
+import { useWalletRole, useWallets } from "../hooks/useWallets";
+import { isEncrypted } from "../lib/crypto";
+import LedgerModal from "../components/LedgerModal";
+import ImportWizard from "../components/ImportWizard";
+import SecretField from "../components/SecretField";
+import { usePrivacyMode } from "../hooks/usePrivacyMode";
+import type { DuplicateChoice } from "../lib/duplicates";
+import { duplicateKey, findDuplicate } from "../lib/duplicates";
+import DuplicateModal from "../components/DuplicateModal";
+import DuplicatesModal from "../components/DuplicatesModal";
+import RestoreModal from "../components/RestoreModal";
+import CalendarModal from "../components/CalendarModal";
+import PayPlannerModal from "../components/PayPlannerModal";
+import RedeemView from "../components/RedeemView";
+import PasteMessageModal from "../components/PasteMessageModal";
+import MailImportModal from "../components/MailImportModal";
+import ShareModal from "../components/ShareModal";
+import TransferModal from "../components/TransferModal";
+import IncomingTransfers from "../components/IncomingTransfers";
+import GiftedVouchers from "../components/GiftedVouchers";
+import BulkActionsBar from "../components/BulkActionsBar";
+import TrashModal from "../components/TrashModal";
+import UndoToast from "../components/UndoToast";
+import type { BulkAction, BulkResult } from "../data/bulk";
 
 // ---------- Helpers ----------
-const inr = (n: number) =>
-  new Intl.NumberFormat("en-IN", {
-    style: "currency",
-    currency: "INR",
-    maximumFractionDigits: 0,
-  }).format(Number.isFinite(n) ? n : 0);
-
-const categories = [
-  "General",
-  "Shopping",
-  "Food",
-  "Travel",
-  "Recharge",
-  "Subscription",
-] as const;
+
 type Category = (typeof categories)[number] | "All";
 
+// how long the undo toast stays up after a delete
+const UNDO_MS = 8000;
+
 type SortKey =
   | "created_desc"
   | "value_desc"
@@ -29,20 +58,6 @@ type SortKey =
   | "status_used_first"
   | "status_unused_first";
 
-// Expiry overrides stored status to expired (display-only)
-function deriveStatus(v: Voucher): "unused" | "used" | "expired" {
-  if (v.expires_on) {
-    const end = new Date(v.expires_on);
-    end.setHours(23, 59, 59, 999);
-    if (end.getTime() < Date.now()) return "expired";
-  }
-  return (v.status as "unused" | "used" | "expired") || "unused";
-}
-
-// sanitize number-like strings, strip non-digits (keep dot) & leading zeros
-const cleanNumString = (s: string) =>
-  s === "" ? "" : s.replace(/[^\d.]/g, "").replace(/^0+(?=\d)/, "");
-
 export default function Vouchers() {
   const [list, setList] = useState<Voucher[]>([]);
   const [loading, setLoading] = useState(true);
@@ -55,15 +70,59 @@ export default function Vouchers() {
   const [pin, setPin] = useState("");
   const [expires, setExpires] = useState<string>("");
   const [category, setCategory] = useState<string>("General");
+  // symbology of a code read from an image, kept for the redeem view
+  const [codeFormat, setCodeFormat] = useState<BarcodeFormat | null>(null);
+  const [scanResults, setScanResults] = useState<DecodedCode[]>([]);
+  const [scanning, setScanning] = useState(false);
 
   // -------- UI state --------
   const [filterCategory, setFilterCategory] = useState<Category>("All");
   const [search, setSearch] = useState("");
   const [sort, setSort] = useState<SortKey>("created_desc");
+  // ids ticked for bulk actions; only the ones the filters show are acted on
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Deep links: ?focus=<id> scrolls to a card; ?category= and ?q= preset the
+  // filters; ?active=yyyy-mm keeps vouchers with ledger activity that month
+  const [searchParams, setSearchParams] = useSearchParams();
+  const focusId = searchParams.get("focus");
+  const activeMonth = searchParams.get("active");
+  const [activeIds, setActiveIds] = useState<Set<string> | null>(null);
 
   // -------- Modals --------
   const [useItem, setUseItem] = useState<Voucher | null>(null);
   const [useAmount, setUseAmount] = useState<string>(""); // Partial Usage amount
+  const [useMerchant, setUseMerchant] = useState("");
+  const [useNote, setUseNote] = useState("");
+
+  const [historyItem, setHistoryItem] = useState<Voucher | null>(null);
+  const [historyEntries, setHistoryEntries] = useState<VoucherTransaction[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+
+  const [importFile, setImportFile] = useState<File | null>(null);
+
+  // An add / edit that matches a voucher already in the wallet, awaiting a choice
+  const [duplicate, setDuplicate] = useState<{
+    from: "add" | "edit";
+    existing: Voucher;
+    input: VoucherInput;
+  } | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [showCalendar, setShowCalendar] = useState(false);
+  const [showPlanner, setShowPlanner] = useState(false);
+  const [redeemItem, setRedeemItem] = useState<Voucher | null>(null);
+  const [shareItem, setShareItem] = useState<Voucher | null>(null);
+  const [transferItem, setTransferItem] = useState<Voucher | null>(null);
+  // offers to the user, and pending / accepted transfers out of this wallet
+  const [incoming, setIncoming] = useState<VoucherTransfer[]>([]);
+  const [outgoing, setOutgoing] = useState<VoucherTransfer[]>([]);
+  const [showPaste, setShowPaste] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  // vouchers just moved to the trash, offered back by the undo toast
+  const [undo, setUndo] = useState<{ message: string; ids: string[] } | null>(null);
+  const [mailFile, setMailFile] = useState<File | null>(null);
 
   const [editItem, setEditItem] = useState<Voucher | null>(null);
   const [editForm, setEditForm] = useState({
@@ -75,31 +134,147 @@ export default function Vouchers() {
     expires_on: "",
   });
 
+  // When the open edit / partial-usage modal was opened, and when each voucher
+  // last changed on another device (drives the "updated elsewhere" hint)
+  const [modalOpenedAt, setModalOpenedAt] = useState(0);
+  const [changedElsewhere, setChangedElsewhere] = useState<Record<string, number>>({});
+
   // -------- Data fetch --------
   async function fetchAll() {
     setLoading(true);
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (!user) {
-      setList([]);
-      setLoading(false);
-      return;
+    try {
+      setList(await vouchersRepo.list());
+    } catch {
+      // keep the last list on a failed refresh
     }
-
-    const { data, error } = await supabase
-      .from("vouchers")
-      .select("*")
-      .eq("user_id", user.id)
-      .order("created_at", { ascending: false });
-
-    if (!error && data) setList(data as Voucher[]);
     setLoading(false);
   }
 
+  // -------- Offline sync --------
+  const syncStatus = useSyncStatus();
+  // codes / PINs come back decrypted only while the vault is unlocked
+  const vaultStatus = useVaultStatus();
+  const privacy = usePrivacyMode();
+  const money = (n: number) => (privacy ? MASKED : inr(n));
+  // the repository reads the open wallet; refetch and resubscribe when it changes
+  const { activeId: walletId } = useWallets();
+  const canEdit = useWalletRole() !== "viewer";
+
+  useEffect(() => {
+    fetchAll();
+  }, [syncStatus.lastSyncedAt, vaultStatus, walletId]);
+
+  // -------- Transfers --------
+  const fetchTransfers = useCallback(async () => {
+    if (!transfers) return;
+    try {
+      const [offers, sent] = await Promise.all([
+        transfers.incoming(),
+        walletId ? transfers.outgoing(walletId) : Promise.resolve([]),
+      ]);
+      setIncoming(offers);
+      setOutgoing(sent);
+    } catch {
+      // offline: keep the last ones
+    }
+  }, [walletId]);
+
   useEffect(() => {
+    fetchTransfers();
+  }, [fetchTransfers, syncStatus.lastSyncedAt]);
+
+  const pendingOffers = useMemo(
+    () => new Map(outgoing.filter((t) => t.status === "pending").map((t) => [t.voucher_id, t])),
+    [outgoing]
+  );
+
+  async function cancelOffer(t: VoucherTransfer) {
+    if (!transfers || !confirm(`Take back the offer to ${t.to_email}?`)) return;
+    try {
+      await transfers.close(t.id);
+    } catch (e) {
+      alert((e as Error).message);
+    }
+    fetchTransfers();
+  }
+
+  // an accepted voucher lands in the wallet the user picked; open it there
+  function transfersChanged(acceptedInto?: string) {
+    if (acceptedInto) wallets?.switchTo(acceptedInto);
+    fetchAll();
+    fetchTransfers();
+  }
+
+  // -------- Live updates --------
+  useEffect(
+    () =>
+      vouchersRepo.subscribe((change) => {
+        setList((l) => applyChange(l, change));
+        // this device's own writes come back too; only others' mark a voucher stale
+        if (vouchersRepo.isOwnEcho(change)) return;
+        const id = change.type === "delete" ? change.id : change.voucher.id;
+        setChangedElsewhere((m) => ({ ...m, [id]: Date.now() }));
+      }),
+    [walletId]
+  );
+
+  // A write lost a race: show the fresh row as if it had arrived live,
+  // so open modals surface the "updated elsewhere" hint with the new balance
+  function takeLatest(e: unknown) {
+    if (!(e instanceof ConflictError)) return false;
+    const { latest } = e;
+    if (latest) {
+      setList((l) => applyChange(l, { type: "upsert", voucher: latest }));
+      setChangedElsewhere((m) => ({ ...m, [latest.id]: Date.now() }));
+    }
+    return true;
+  }
+
+  const useItemChanged = useItem ? (changedElsewhere[useItem.id] ?? 0) > modalOpenedAt : false;
+  const editItemChanged = editItem ? (changedElsewhere[editItem.id] ?? 0) > modalOpenedAt : false;
+
+  async function retrySync(id: string) {
+    await offlineSync?.retry(id);
     fetchAll();
-  }, []);
+  }
+
+  async function discardSync(id: string) {
+    if (!confirm("Discard the unsynced changes for this voucher?")) return;
+    await offlineSync?.discard(id);
+    fetchAll();
+  }
+
+  // -------- Ledger --------
+  async function openHistory(v: Voucher) {
+    setHistoryItem(v);
+    setHistoryEntries([]);
+    setHistoryLoading(true);
+    try {
+      setHistoryEntries(await vouchersRepo.transactions(v.id));
+    } catch (e) {
+      alert((e as Error).message);
+    }
+    setHistoryLoading(false);
+  }
+
+  async function recordInHistory(entry: NewTransaction) {
+    if (!historyItem) return false;
+    try {
+      const { voucher, entries } = await vouchersRepo.record(historyItem.id, [entry]);
+      setHistoryEntries(entries);
+      setHistoryItem(voucher);
+      fetchAll();
+      return true;
+    } catch (e) {
+      alert((e as Error).message);
+      return false;
+    }
+  }
+
+  async function reverseEntry(t: VoucherTransaction) {
+    if (!confirm("Reverse this entry?")) return;
+    await recordInHistory(reversalOf(t));
+  }
 
   // -------- Derived: filter + search + sort --------
   const filtered = useMemo(() => {
@@ -112,10 +287,10 @@ export default function Vouchers() {
         v.name?.toLowerCase().includes(term) ||
         v.code?.toLowerCase().includes(term) ||
         v.category?.toLowerCase().includes(term);
-      return inCategory && inSearch;
+      const inMonth = !activeIds || activeIds.has(v.id);
+      return inCategory && inSearch && inMonth;
     });
 
-    const remaining = (v: Voucher) => Math.max(0, (v.value || 0) - (v.spent || 0));
     const expMs = (v: Voucher) =>
       v.expires_on ? new Date(v.expires_on).getTime() : Number.POSITIVE_INFINITY;
 
@@ -156,15 +331,79 @@ export default function Vouchers() {
         break;
     }
     return arr;
-  }, [list, filterCategory, search, sort]);
+  }, [list, filterCategory, search, sort, activeIds]);
+
+  // -------- Selection --------
+  const selectedVouchers = useMemo(() => filtered.filter((v) => selected.has(v.id)), [filtered, selected]);
+
+  function toggleSelected(id: string) {
+    setSelected((s) => {
+      const next = new Set(s);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  }
+
+  function toggleAllShown() {
+    const all = selectedVouchers.length === filtered.length;
+    setSelected((s) => {
+      const next = new Set(s);
+      filtered.forEach((v) => (all ? next.delete(v.id) : next.add(v.id)));
+      return next;
+    });
+  }
+
+  // -------- Deep links --------
+  const dropParams = useCallback(
+    (...keys: string[]) =>
+      setSearchParams(
+        (p) => {
+          keys.forEach((k) => p.delete(k));
+          return p;
+        },
+        { replace: true }
+      ),
+    [setSearchParams]
+  );
+
+  // category / q become the page's own filters; focus clears any that could hide the card
+  useEffect(() => {
+    const cat = searchParams.get("category");
+    const q = searchParams.get("q");
+    if (!focusId && cat === null && q === null) return;
+    setFilterCategory(categories.find((c) => c === cat) ?? "All");
+    setSearch(q ?? "");
+    if (cat !== null || q !== null) dropParams("category", "q");
+  }, [searchParams, focusId, dropParams]);
+
+  useEffect(() => {
+    if (!activeMonth) return setActiveIds(null);
+    let alive = true;
+    vouchersRepo
+      .allTransactions()
+      .then((entries) => alive && setActiveIds(activeInMonth(spendEntries(list, entries), activeMonth)))
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [activeMonth, list]);
+
+  useEffect(() => {
+    if (loading || !focusId) return;
+    const frame = requestAnimationFrame(() =>
+      document
+        .getElementById(`voucher-${focusId}`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" })
+    );
+    const t = window.setTimeout(() => dropParams("focus"), 4000);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.clearTimeout(t);
+    };
+  }, [loading, focusId, dropParams]);
 
   // -------- Add voucher --------
   async function addVoucher() {
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (!user) return;
-
     const numericValue = Number(value.replace(/^0+(?=\d)/, ""));
     const numericInitialUsed = initialUsed
       ? Number(initialUsed.replace(/^0+(?=\d)/, ""))
@@ -178,8 +417,7 @@ export default function Vouchers() {
     if (numericInitialUsed > numericValue)
       return alert("Initial used amount cannot exceed total value");
 
-    const insert = {
-      user_id: user.id,
+    const input: VoucherInput = {
       name: name.trim(),
       value: numericValue,
       spent: numericInitialUsed,
@@ -187,13 +425,24 @@ export default function Vouchers() {
       code: code.trim() || null,
       pin: pin.trim() || null,
       expires_on: expires || null,
-      status: numericInitialUsed >= numericValue ? ("used" as const) : ("unused" as const),
+      barcode_format: codeFormat,
     };
+    const existing = findDuplicate(list, input);
+    if (existing) return setDuplicate({ from: "add", existing, input });
+    await createVoucher(input);
+  }
 
-    const { error } = await supabase.from("vouchers").insert(insert);
-    if (error) return alert(error.message);
+  async function createVoucher(input: VoucherInput) {
+    try {
+      await vouchersRepo.create(input);
+    } catch (e) {
+      return alert((e as Error).message);
+    }
+    resetAddForm();
+    fetchAll();
+  }
 
-    // reset form
+  function resetAddForm() {
     setName("");
     setValue("");
     setInitialUsed("");
@@ -201,38 +450,106 @@ export default function Vouchers() {
     setPin("");
     setExpires("");
     setCategory("General");
+    setCodeFormat(null);
+    setScanResults([]);
+  }
+
+  // -------- Code from image --------
+  async function scanImage(image: Blob) {
+    setScanning(true);
+    setScanResults([]);
+    try {
+      const found = await decodeImageCodes(image);
+      if (!found.length) alert("No barcode or QR code found in this image");
+      else if (found.length === 1) pickScanned(found[0]);
+      else setScanResults(found);
+    } catch (e) {
+      alert((e as Error).message);
+    }
+    setScanning(false);
+  }
+
+  function pickScanned(c: DecodedCode) {
+    setCode(c.text);
+    setCodeFormat(c.format);
+    setScanResults([]);
+  }
+
+  function pasteImage(e: ClipboardEvent) {
+    const file = [...e.clipboardData.files].find((f) => f.type.startsWith("image/"));
+    if (!file) return;
+    e.preventDefault();
+    scanImage(file);
+  }
+
+  // -------- Delete (to the trash) --------
+  async function remove(v: Voucher) {
+    try {
+      await vouchersRepo.delete(v.id);
+    } catch (e) {
+      return alert((e as Error).message);
+    }
+    setUndo({ message: `Moved "${v.name}" to the trash`, ids: [v.id] });
     fetchAll();
   }
 
-  // -------- Delete --------
-  async function remove(id: string) {
-    if (!confirm("Delete this voucher?")) return;
-    const { error } = await supabase.from("vouchers").delete().eq("id", id);
-    if (!error) fetchAll();
+  async function undoDelete() {
+    if (!undo) return;
+    setUndo(null);
+    const failed: string[] = [];
+    for (const id of undo.ids) {
+      try {
+        await vouchersRepo.restore(id);
+      } catch (e) {
+        failed.push((e as Error).message);
+      }
+    }
+    if (failed.length) alert(`Couldn't restore ${failed.length} voucher(s): ${failed[0]}`);
+    fetchAll();
+  }
+
+  useEffect(() => {
+    if (!undo) return;
+    const t = window.setTimeout(() => setUndo(null), UNDO_MS);
+    return () => window.clearTimeout(t);
+  }, [undo]);
+
+  // failures stay selected so they can be retried
+  function bulkDone(action: BulkAction, result: BulkResult) {
+    setSelected(new Set(result.failed.map((f) => f.voucher.id)));
+    if (action.type === "delete" && result.done.length)
+      setUndo({
+        message: `Moved ${result.done.length} voucher${result.done.length === 1 ? "" : "s"} to the trash`,
+        ids: result.done.map((v) => v.id),
+      });
+    fetchAll();
   }
 
   // -------- Partial Usage Modal --------
   function openPartialUsage(v: Voucher) {
     setUseItem(v);
+    setModalOpenedAt(Date.now());
     setUseAmount("");
+    setUseMerchant("");
+    setUseNote("");
   }
 
   async function savePartialUsage() {
     if (!useItem) return;
     const amt = Number(useAmount.replace(/^0+(?=\d)/, ""));
     if (!Number.isFinite(amt) || amt <= 0) return alert("Amount must be > 0");
-    const remaining = (useItem.value || 0) - (useItem.spent || 0);
-    if (amt > remaining) return alert("Amount exceeds remaining balance");
-
-    const newSpent = (useItem.spent || 0) + amt;
-    const newStatus = newSpent >= (useItem.value || 0) ? "used" : "unused";
+    if (amt > remaining(useItem)) return alert("Amount exceeds remaining balance");
 
-    const { error } = await supabase
-      .from("vouchers")
-      .update({ spent: newSpent, status: newStatus })
-      .eq("id", useItem.id);
-
-    if (error) return alert(error.message);
+    try {
+      await vouchersRepo.redeem(useItem.id, amt, {
+        merchant: useMerchant.trim() || null,
+        note: useNote.trim() || null,
+      });
+    } catch (e) {
+      // keep the modal open with the fresh balance so the amount can be retried
+      if (takeLatest(e)) return;
+      return alert((e as Error).message);
+    }
     setUseItem(null);
     fetchAll();
   }
@@ -240,6 +557,7 @@ export default function Vouchers() {
   // -------- Edit Modal --------
   function openEdit(v: Voucher) {
     setEditItem(v);
+    setModalOpenedAt(Date.now());
     setEditForm({
       name: v.name || "",
       value: String(v.value ?? ""),
@@ -257,9 +575,7 @@ export default function Vouchers() {
     if (!Number.isFinite(numericValue) || numericValue <= 0)
       return alert("Enter a valid amount > 0");
 
-    // If value reduced below spent, clamp spent (business rule: keep spent as is, but can't exceed value)
-    const current = list.find((x) => x.id === editItem.id);
-    let payload: any = {
+    const input: VoucherInput = {
       name: editForm.name.trim(),
       value: numericValue,
       category: editForm.category,
@@ -267,65 +583,95 @@ export default function Vouchers() {
       pin: editForm.pin.trim() || null,
       expires_on: editForm.expires_on || null,
     };
+    // only ask when this edit is what makes it match another voucher
+    if (duplicateKey(input) !== duplicateKey(editItem)) {
+      const existing = findDuplicate(list, input, editItem.id);
+      if (existing) return setDuplicate({ from: "edit", existing, input });
+    }
+    if (await writeEdit(editItem, input)) {
+      setEditItem(null);
+      fetchAll();
+    }
+  }
 
-    if (current) {
-      const clampedSpent = Math.min(current.spent || 0, numericValue);
-      const newStatus = clampedSpent >= numericValue ? "used" : current.status || "unused";
-      payload = { ...payload, spent: clampedSpent, status: newStatus };
+  // If value reduced below spent, the repository clamps spent with an adjustment entry
+  async function writeEdit(v: Voucher, input: VoucherInput) {
+    try {
+      await vouchersRepo.update(v.id, input, { expectedVersion: v.version });
+      return true;
+    } catch (e) {
+      if (!takeLatest(e)) alert((e as Error).message);
+      return false;
     }
+  }
 
-    const { error } = await supabase.from("vouchers").update(payload).eq("id", editItem.id);
-    if (error) return alert(error.message);
+  // -------- Duplicates --------
+  // add:  overwrite replaces the existing voucher's details with the new ones
+  // edit: overwrite saves the edit and deletes the other voucher
+  async function resolveDuplicate(choice: DuplicateChoice) {
+    if (!duplicate) return;
+    const { from, existing, input } = duplicate;
+    setDuplicate(null);
+
+    if (from === "add") {
+      if (choice === "keep") return createVoucher(input);
+      if (choice === "skip") return;
+      try {
+        await overwriteVoucher(vouchersRepo, existing, input);
+      } catch (e) {
+        takeLatest(e);
+        return alert((e as Error).message);
+      }
+      resetAddForm();
+      return fetchAll();
+    }
+
+    if (!editItem) return;
+    if (choice === "skip") return setEditItem(null);
+    if (!(await writeEdit(editItem, input))) return;
     setEditItem(null);
+    if (choice === "overwrite") {
+      try {
+        await vouchersRepo.delete(existing.id);
+      } catch (e) {
+        alert((e as Error).message);
+      }
+    }
     fetchAll();
   }
 
   // -------- Toggle Used/Unused (with amount rules) --------
-  // Mark as Used  -> spent = value, status = "used"
-  // Mark as Unused -> spent = 0, status = "unused"
+  // Mark as Used  -> debit the remaining balance, status = "used"
+  // Mark as Unused -> adjust spent back to 0, status = "unused"
   async function toggleStatus(v: Voucher) {
-    const makeUsed = v.status === "unused";
-    const payload = makeUsed
-      ? { spent: v.value, status: "used" as const }
-      : { spent: 0, status: "unused" as const };
+    const entry = markEntry(v, v.status === "unused");
 
-    const { error } = await supabase.from("vouchers").update(payload).eq("id", v.id);
-    if (!error) fetchAll();
-  }
-
-  // -------- WhatsApp share --------
-  function shareWhatsApp(v: Voucher) {
-    const rem = Math.max(0, (v.value || 0) - (v.spent || 0));
-    const daysLeft =
-      v.expires_on
-        ? Math.ceil(
-            (new Date(v.expires_on).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
-          )
-        : null;
-
-    const msg =
-      `🎁 *${v.name}*\n` +
-      `💰 Value: ${inr(v.value)}\n` +
-      `✅ Used: ${inr(v.spent)}\n` +
-      `💵 Remaining: ${inr(rem)}\n` +
-      `📅 Expiry: ${v.expires_on ? new Date(v.expires_on).toLocaleDateString() : "-"}${
-        daysLeft !== null ? ` (${daysLeft} day${daysLeft === 1 ? "" : "s"} left)` : ""
-      }\n` +
-      `🏷️ Category: ${v.category}\n` +
-      `📌 Code: ${v.code || "-"}\n` +
-      `🔐 PIN: ${v.pin || "-"}\n` +
-      `📈 Status: ${deriveStatus(v)}`;
-
-    window.open(`https://wa.me/?text=${encodeURIComponent(msg)}`, "_blank");
+    try {
+      // the amount comes from this card's copy, so refuse if it is stale
+      await vouchersRepo.record(v.id, entry ? [entry] : [], { expectedVersion: v.version });
+    } catch (e) {
+      takeLatest(e);
+      return alert((e as Error).message);
+    }
+    fetchAll();
   }
 
   // -------- Excel export --------
-  async function exportExcel() {
-    const rows = list.map((v) => ({
+  async function exportExcel(vouchers: Voucher[], fileName = "vouchers.xlsx") {
+    if (
+      vouchers.some((v) => isEncrypted(v.code) || isEncrypted(v.pin)) &&
+      !confirm(
+        "Encryption is locked, so codes and PINs will be exported encrypted. " +
+          "They can only be read again by importing into a wallet with the same passphrase. Continue?"
+      )
+    )
+      return;
+
+    const rows = vouchers.map((v) => ({
       name: v.name,
       value: v.value,
       spent: v.spent,
-      remaining: Math.max(0, (v.value || 0) - (v.spent || 0)),
+      remaining: remaining(v),
       category: v.category,
       code: v.code ?? "",
       pin: v.pin ?? "",
@@ -353,7 +699,7 @@ export default function Vouchers() {
     book_append_sheet(wb, ws, "vouchers");
 
     try {
-      await writeFile(wb as any, "vouchers.xlsx");
+      await writeFile(wb as any, fileName);
     } catch {
       const XLSX = await import("xlsx");
       const blob = new Blob(
@@ -361,51 +707,31 @@ export default function Vouchers() {
         { type: "application/octet-stream" }
       );
       const { saveAs } = await import("file-saver");
-      saveAs(blob, "vouchers.xlsx");
+      saveAs(blob, fileName);
     }
   }
 
-  // -------- Excel import --------
-  // headers: name,value,spent,category,code,pin,expires_on,status
-  async function importExcel(file: File) {
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (!user) return alert("Not logged in");
-
-    const XLSX = await import("xlsx");
-    const buf = await file.arrayBuffer();
-    const wb = XLSX.read(buf, { type: "array" });
-    const ws = wb.Sheets[wb.SheetNames[0]];
-    const rows = XLSX.utils.sheet_to_json<any>(ws, { defval: "" });
-
-    const toNum = (s: any) => {
-      const n = Number(String(s).replace(/^0+(?=\d)/, ""));
-      return Number.isFinite(n) ? n : 0;
-    };
-
-    const payload = rows
-      .map((r) => {
-        const value = toNum(r.value);
-        const spent = Math.max(0, toNum(r.spent || 0));
-        return {
-          user_id: user.id,
-          name: String(r.name || "").trim(),
-          value,
-          spent: Math.min(spent, value),
-          category: String(r.category || "General"),
-          code: r.code ? String(r.code) : null,
-          pin: r.pin ? String(r.pin) : null,
-          expires_on: r.expires_on ? String(r.expires_on) : null,
-          status: (spent >= value ? "used" : "unused") as "used" | "unused" | "expired",
-        };
-      })
-      .filter((r) => r.name && r.value > 0);
-
-    if (!payload.length) return alert("No valid rows found.");
-    const { error } = await supabase.from("vouchers").insert(payload);
-    if (error) return alert(error.message);
-    fetchAll();
+  // -------- JSON backup --------
+  // Lossless, unlike the Excel export: ids, timestamps and the full ledger
+  async function downloadBackup() {
+    try {
+      const backup = await createBackup(vouchersRepo);
+      if (
+        backup.vouchers.some((v) => isEncrypted(v.code) || isEncrypted(v.pin)) &&
+        !confirm(
+          "Encryption is locked, so codes and PINs will be backed up encrypted. " +
+            "They can only be read again in a wallet with the same passphrase. Continue?"
+        )
+      )
+        return;
+      const { saveAs } = await import("file-saver");
+      saveAs(
+        new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" }),
+        backupFileName(backup)
+      );
+    } catch (e) {
+      alert((e as Error).message);
+    }
   }
 
   // ---------- UI ----------
@@ -413,7 +739,16 @@ export default function Vouchers() {
     <div className="mx-auto max-w-6xl p-4 md:p-8 text-neutral-100">
       {/* Header / Controls */}
       <div className="mb-6 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
-        <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">Voucher Wallet</h1>
+        <div>
+          <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">Voucher Wallet</h1>
+          {!syncStatus.online ? (
+            <div className="mt-1 text-sm text-amber-300">
+              Offline — showing saved vouchers. Changes will sync when you reconnect.
+            </div>
+          ) : syncStatus.syncing ? (
+            <div className="mt-1 text-sm text-neutral-400 animate-pulse">Syncing changes…</div>
+          ) : null}
+        </div>
         <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
           <div className="flex items-center gap-2">
             <input
@@ -438,103 +773,235 @@ export default function Vouchers() {
               <option value="status_unused_first">Status: Unused first</option>
             </select>
 
+            {canEdit && (
+              <button
+                onClick={() => setShowPlanner(true)}
+                className="rounded-xl bg-sky-600 hover:bg-sky-500 px-3 py-2 text-sm"
+                title="Combine vouchers for a purchase"
+              >
+                Pay
+              </button>
+            )}
+
             <button
-              onClick={exportExcel}
+              onClick={() => exportExcel(list)}
               className="rounded-xl bg-emerald-600 hover:bg-emerald-500 px-3 py-2 text-sm"
             >
               Export
             </button>
 
-            <label className="rounded-xl bg-neutral-800 hover:bg-neutral-700 px-3 py-2 text-sm cursor-pointer">
-              Import
-              <input
-                type="file"
-                accept=".xlsx,.csv"
-                className="hidden"
-                onChange={(e) => {
-                  const f = e.target.files?.[0];
-                  if (f) importExcel(f);
-                  e.currentTarget.value = "";
-                }}
-              />
-            </label>
+            <button
+              onClick={downloadBackup}
+              className="rounded-xl bg-neutral-800 hover:bg-neutral-700 px-3 py-2 text-sm"
+              title="Download a JSON backup of every wallet you can edit"
+            >
+              Backup
+            </button>
+
+            {canEdit && (
+              <label className="rounded-xl bg-neutral-800 hover:bg-neutral-700 px-3 py-2 text-sm cursor-pointer">
+                Restore
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const f = e.target.files?.[0];
+                    if (f) setRestoreFile(f);
+                    e.currentTarget.value = "";
+                  }}
+                />
+              </label>
+            )}
+
+            <button
+              onClick={() => setShowCalendar(true)}
+              className="rounded-xl bg-neutral-800 hover:bg-neutral-700 px-3 py-2 text-sm"
+              title="Expiry calendar"
+            >
+              Calendar
+            </button>
+
+            {canEdit && (
+              <>
+                <button
+                  onClick={() => setShowTrash(true)}
+                  className="rounded-xl bg-neutral-800 hover:bg-neutral-700 px-3 py-2 text-sm"
+                  title="Restore deleted vouchers"
+                >
+                  Trash
+                </button>
+
+                <button
+                  onClick={() => setShowDuplicates(true)}
+                  className="rounded-xl bg-neutral-800 hover:bg-neutral-700 px-3 py-2 text-sm"
+                >
+                  Duplicates
+                </button>
+
+                <label className="rounded-xl bg-neutral-800 hover:bg-neutral-700 px-3 py-2 text-sm cursor-pointer">
+                  Import
+                  <input
+                    type="file"
+                    accept=".xlsx,.csv"
+                    className="hidden"
+                    onChange={(e) => {
+                      const f = e.target.files?.[0];
+                      if (f) setImportFile(f);
+                      e.currentTarget.value = "";
+                    }}
+                  />
+                </label>
+
+                <label
+                  className="rounded-xl bg-neutral-800 hover:bg-neutral-700 px-3 py-2 text-sm cursor-pointer"
+                  title="Find vouchers in an .eml or .mbox mail export"
+                >
+                  From mail
+                  <input
+                    type="file"
+                    accept=".eml,.mbox,message/rfc822,application/mbox"
+                    className="hidden"
+                    onChange={(e) => {
+                      const f = e.target.files?.[0];
+                      if (f) setMailFile(f);
+                      e.currentTarget.value = "";
+                    }}
+                  />
+                </label>
+              </>
+            )}
           </div>
         </div>
       </div>
 
-      {/* Content grid */}
-      <div className="grid gap-6 md:grid-cols-2">
-        {/* Add Voucher Card */}
-        <div className="rounded-2xl border border-neutral-800 bg-neutral-950/60 backdrop-blur p-5 shadow-[0_0_0_1px_rgba(255,255,255,0.02)]">
-          <h2 className="font-semibold mb-4 text-lg">Add Voucher</h2>
-          <div className="grid gap-3">
-            <input
-              className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
-              placeholder="Name"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-            />
+      <IncomingTransfers offers={incoming} money={money} onChanged={transfersChanged} />
 
-            <input
-              className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
-              type="text"
-              inputMode="decimal"
-              placeholder="Value"
-              value={value}
-              onChange={(e) => setValue(cleanNumString(e.target.value))}
-            />
+      {/* Content grid */}
+      <div className={`grid gap-6 ${canEdit ? "md:grid-cols-2" : ""}`}>
+        {/* Add Voucher Card (hidden from viewers) */}
+        {canEdit && (
+          <div
+            onPaste={pasteImage}
+            className="rounded-2xl border border-neutral-800 bg-neutral-950/60 backdrop-blur p-5 shadow-[0_0_0_1px_rgba(255,255,255,0.02)]"
+          >
+            <div className="mb-4 flex items-center justify-between gap-3">
+              <h2 className="font-semibold text-lg">Add Voucher</h2>
+              <button
+                onClick={() => setShowPaste(true)}
+                className="rounded-xl bg-neutral-800 hover:bg-neutral-700 px-3 py-1.5 text-sm"
+                title="Fill from a gift card email or SMS"
+              >
+                Paste message
+              </button>
+            </div>
+            <div className="grid gap-3">
+              <input
+                className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
+                placeholder="Name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
 
-            {/* NEW: Initial used amount (optional) */}
-            <input
-              className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
-              type="text"
-              inputMode="decimal"
-              placeholder="Initial used amount (optional)"
-              value={initialUsed}
-              onChange={(e) => setInitialUsed(cleanNumString(e.target.value))}
-            />
+              <input
+                className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
+                type="text"
+                inputMode="decimal"
+                placeholder="Value"
+                value={value}
+                onChange={(e) => setValue(cleanNumString(e.target.value))}
+              />
 
-            <select
-              className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
-              value={category}
-              onChange={(e) => setCategory(e.target.value)}
-            >
-              {categories.map((c) => (
-                <option key={c} value={c}>
-                  {c}
-                </option>
-              ))}
-            </select>
+              {/* NEW: Initial used amount (optional) */}
+              <input
+                className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
+                type="text"
+                inputMode="decimal"
+                placeholder="Initial used amount (optional)"
+                value={initialUsed}
+                onChange={(e) => setInitialUsed(cleanNumString(e.target.value))}
+              />
 
-            <input
-              className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
-              placeholder="Code (optional)"
-              value={code}
-              onChange={(e) => setCode(e.target.value)}
-            />
+              <select
+                className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+              >
+                {categories.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+
+              <div className="flex gap-2">
+                <input
+                  className="flex-1 min-w-0 rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
+                  placeholder="Code (optional)"
+                  value={code}
+                  onChange={(e) => {
+                    setCode(e.target.value);
+                    setCodeFormat(null);
+                  }}
+                />
+                <label
+                  className="rounded-xl bg-neutral-800 hover:bg-neutral-700 px-3 py-2 text-sm cursor-pointer whitespace-nowrap"
+                  title="Read the code from a screenshot or photo (or paste an image here)"
+                >
+                  {scanning ? "Reading…" : "From image"}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    disabled={scanning}
+                    onChange={(e) => {
+                      const f = e.target.files?.[0];
+                      if (f) scanImage(f);
+                      e.currentTarget.value = "";
+                    }}
+                  />
+                </label>
+              </div>
+
+              {scanResults.length > 1 && (
+                <div className="rounded-xl border border-neutral-800 p-3 space-y-2 text-sm">
+                  <div className="text-neutral-400">Found {scanResults.length} codes — pick one:</div>
+                  {scanResults.map((c) => (
+                    <button
+                      key={c.text}
+                      onClick={() => pickScanned(c)}
+                      className="w-full flex items-center gap-2 rounded-lg bg-neutral-900 hover:bg-neutral-800 px-3 py-2 text-left"
+                    >
+                      <span className="font-mono truncate flex-1">{c.text}</span>
+                      <span className="text-xs text-neutral-500">{c.symbology.replace(/_/g, " ")}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
 
-            <input
-              className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
-              placeholder="PIN (optional)"
-              value={pin}
-              onChange={(e) => setPin(e.target.value)}
-            />
+              <input
+                className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
+                placeholder="PIN (optional)"
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+              />
 
-            <input
-              className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
-              type="date"
-              value={expires}
-              onChange={(e) => setExpires(e.target.value)}
-            />
+              <input
+                className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
+                type="date"
+                value={expires}
+                onChange={(e) => setExpires(e.target.value)}
+              />
 
-            <button
-              onClick={addVoucher}
-              className="px-4 py-2 rounded-xl bg-sky-600 hover:bg-sky-500 transition-colors"
-            >
-              Save
-            </button>
+              <button
+                onClick={addVoucher}
+                className="px-4 py-2 rounded-xl bg-sky-600 hover:bg-sky-500 transition-colors"
+              >
+                Save
+              </button>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* List Card */}
         <div className="rounded-2xl border border-neutral-800 bg-neutral-950/60 backdrop-blur p-5 shadow-[0_0_0_1px_rgba(255,255,255,0.02)]">
@@ -556,6 +1023,29 @@ export default function Vouchers() {
 
           <h2 className="font-semibold mb-3 text-lg">Your Vouchers</h2>
 
+          {activeMonth && (
+            <div className="mb-3 flex items-center gap-2 text-sm">
+              <span className="px-2 py-1 rounded-lg bg-sky-600/20 text-sky-300 border border-sky-600/30">
+                Used in {monthLabel(activeMonth)}
+              </span>
+              <button onClick={() => dropParams("active")} className="text-neutral-400 hover:text-neutral-200">
+                ✕ Clear
+              </button>
+            </div>
+          )}
+
+          {!loading && filtered.length > 0 && (
+            <BulkActionsBar
+              selected={selectedVouchers}
+              shown={filtered.length}
+              canEdit={canEdit}
+              onToggleAll={toggleAllShown}
+              onClear={() => setSelected(new Set())}
+              onExport={(vs) => exportExcel(vs, "vouchers-selection.xlsx")}
+              onDone={bulkDone}
+            />
+          )}
+
           {loading ? (
             <div className="animate-pulse text-neutral-400">Loading…</div>
           ) : filtered.length === 0 ? (
@@ -563,20 +1053,30 @@ export default function Vouchers() {
           ) : (
             <div className="space-y-3">
               {filtered.map((v) => {
-                const rem = Math.max(0, (v.value || 0) - (v.spent || 0));
+                const rem = remaining(v);
                 const percent = v.value
                   ? Math.min(100, Math.round(((v.spent || 0) / v.value) * 100))
                   : 0;
                 const status = deriveStatus(v);
+                const sync = syncStatus.vouchers[v.id];
 
                 return (
                   <div
                     key={v.id}
-                    className="p-4 border border-neutral-800 rounded-2xl bg-gradient-to-b from-neutral-950 to-neutral-900"
+                    id={`voucher-${v.id}`}
+                    className={`p-4 border border-neutral-800 rounded-2xl bg-gradient-to-b from-neutral-950 to-neutral-900 transition-shadow ${
+                      v.id === focusId ? "ring-2 ring-sky-500" : ""
+                    }`}
                   >
                     <div className="flex items-start justify-between gap-4">
                       <div>
                         <div className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={selected.has(v.id)}
+                            onChange={() => toggleSelected(v.id)}
+                            aria-label={`Select ${v.name}`}
+                          />
                           <span className="font-semibold text-lg">{v.name}</span>
                           <span
                             className={`text-xs px-2 py-0.5 rounded-full ${
@@ -592,53 +1092,124 @@ export default function Vouchers() {
                           <span className="text-xs px-2 py-0.5 rounded-full bg-neutral-800 border border-neutral-700 text-neutral-300">
                             {v.category}
                           </span>
+                          {sync?.state === "pending" && (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-amber-500/15 text-amber-300 border border-amber-500/30">
+                              PENDING SYNC
+                            </span>
+                          )}
+                          {sync?.state === "failed" && (
+                            <span
+                              title={sync.error}
+                              className="text-xs px-2 py-0.5 rounded-full bg-red-600/20 text-red-400 border border-red-600/30"
+                            >
+                              SYNC FAILED
+                            </span>
+                          )}
                         </div>
 
+                        {sync?.state === "failed" && (
+                          <div className="mt-1 flex items-center gap-2 text-xs text-red-300">
+                            <span>{sync.error}</span>
+                            <button onClick={() => retrySync(v.id)} className="underline">
+                              Retry
+                            </button>
+                            <button onClick={() => discardSync(v.id)} className="underline">
+                              Discard
+                            </button>
+                          </div>
+                        )}
+
                         <div className="mt-1 text-sm text-neutral-400">
-                          {inr(v.value)} • Used {inr(v.spent)} • Remaining {inr(rem)}
+                          {money(v.value)} • Used {money(v.spent)} • Remaining {money(rem)}
                         </div>
                         <div className="text-sm text-neutral-400">
                           Expiry: {v.expires_on ? new Date(v.expires_on).toLocaleDateString() : "-"}
                         </div>
+                        {pendingOffers.has(v.id) && (
+                          <div className="mt-1 text-xs text-amber-300">
+                            Offered to {pendingOffers.get(v.id)!.to_email} ·{" "}
+                            <button
+                              onClick={() => cancelOffer(pendingOffers.get(v.id)!)}
+                              className="underline"
+                            >
+                              Cancel offer
+                            </button>
+                          </div>
+                        )}
                       </div>
 
                       <div className="flex flex-col gap-2 shrink-0">
                         {/* Toggle used/unused with required behavior */}
-                        <button
-                          onClick={() => toggleStatus(v)}
-                          className="px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-sm"
-                        >
-                          {v.status === "unused" ? "Mark as Used" : "Mark as Unused"}
-                        </button>
+                        {canEdit && (
+                          <button
+                            onClick={() => toggleStatus(v)}
+                            className="px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-sm"
+                          >
+                            {v.status === "unused" ? "Mark as Used" : "Mark as Unused"}
+                          </button>
+                        )}
 
-                        {/* Partial Usage */}
                         <button
-                          onClick={() => openPartialUsage(v)}
-                          className="px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm"
+                          onClick={() => setRedeemItem(v)}
+                          className="px-3 py-1.5 rounded-lg bg-white text-black hover:bg-neutral-200 text-sm"
                         >
-                          Partial Usage
+                          Redeem
                         </button>
 
-                        <button
-                          onClick={() => openEdit(v)}
-                          className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-sm"
-                        >
-                          Edit
-                        </button>
+                        {/* Partial Usage */}
+                        {canEdit && (
+                          <button
+                            onClick={() => openPartialUsage(v)}
+                            className="px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm"
+                          >
+                            Partial Usage
+                          </button>
+                        )}
 
                         <button
-                          onClick={() => shareWhatsApp(v)}
-                          className="px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-500 text-sm"
+                          onClick={() => openHistory(v)}
+                          className="px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-sm"
                         >
-                          Share
+                          History
                         </button>
 
-                        <button
-                          onClick={() => remove(v.id)}
-                          className="px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-500 text-sm"
-                        >
-                          Delete
-                        </button>
+                        {canEdit && (
+                          <button
+                            onClick={() => openEdit(v)}
+                            className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-sm"
+                          >
+                            Edit
+                          </button>
+                        )}
+
+                        {canEdit && (
+                          <button
+                            onClick={() => setShareItem(v)}
+                            className="px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-500 text-sm"
+                          >
+                            Share
+                          </button>
+                        )}
+
+                        {canEdit && transfers && (
+                          <button
+                            disabled={pendingOffers.has(v.id)}
+                            onClick={() => setTransferItem(v)}
+                            className="px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50 text-sm"
+                            title="Give this voucher to another account"
+                          >
+                            Transfer
+                          </button>
+                        )}
+
+                        {canEdit && (
+                          <button
+                            onClick={() => remove(v)}
+                            className="px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-500 text-sm"
+                          >
+                            Delete
+                          </button>
+                        )}
                       </div>
                     </div>
 
@@ -652,14 +1223,8 @@ export default function Vouchers() {
 
                     {/* Code / PIN */}
                     <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm text-neutral-300">
-                      <div className="rounded-lg bg-neutral-900 border border-neutral-800 px-3 py-2">
-                        <span className="text-neutral-500 mr-1">Code:</span>
-                        {v.code || "-"}
-                      </div>
-                      <div className="rounded-lg bg-neutral-900 border border-neutral-800 px-3 py-2">
-                        <span className="text-neutral-500 mr-1">PIN:</span>
-                        {v.pin || "-"}
-                      </div>
+                      <SecretField label="Code" value={v.code} keepLast={4} />
+                      <SecretField label="PIN" value={v.pin} />
                     </div>
                   </div>
                 );
@@ -669,6 +1234,8 @@ export default function Vouchers() {
         </div>
       </div>
 
+      <GiftedVouchers gifts={outgoing.filter((t) => t.status === "accepted")} money={money} />
+
       {/* Modal: Partial Usage */}
       {useItem && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
@@ -676,8 +1243,18 @@ export default function Vouchers() {
             <h3 className="text-lg font-semibold">Partial Usage — {useItem.name}</h3>
             <div className="text-sm text-neutral-400">
               Remaining:{" "}
-              {inr(Math.max(0, (useItem.value || 0) - (useItem.spent || 0)))}
+              {money(remaining(useItem))}
             </div>
+            {useItemChanged && (
+              <StaleHint
+                latest={list.find((x) => x.id === useItem.id)}
+                money={money}
+                onReload={(latest) => {
+                  setUseItem(latest);
+                  setModalOpenedAt(Date.now());
+                }}
+              />
+            )}
             <input
               className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
               placeholder="Amount used"
@@ -686,6 +1263,18 @@ export default function Vouchers() {
               value={useAmount}
               onChange={(e) => setUseAmount(cleanNumString(e.target.value))}
             />
+            <input
+              className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
+              placeholder="Merchant (optional)"
+              value={useMerchant}
+              onChange={(e) => setUseMerchant(e.target.value)}
+            />
+            <input
+              className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
+              placeholder="Note (optional)"
+              value={useNote}
+              onChange={(e) => setUseNote(e.target.value)}
+            />
             <div className="flex gap-3">
               <button
                 onClick={savePartialUsage}
@@ -704,11 +1293,108 @@ export default function Vouchers() {
         </div>
       )}
 
+      {/* Modal: Transaction history */}
+      {historyItem && (
+        <LedgerModal
+          voucher={historyItem}
+          entries={historyEntries}
+          loading={historyLoading}
+          onRecord={recordInHistory}
+          onReverse={reverseEntry}
+          onClose={() => setHistoryItem(null)}
+        />
+      )}
+
+      {/* Modal: Import wizard */}
+      {importFile && (
+        <ImportWizard
+          file={importFile}
+          existing={list}
+          onClose={() => setImportFile(null)}
+          onImported={fetchAll}
+        />
+      )}
+
+      {/* Modal: Restore from backup */}
+      {restoreFile && (
+        <RestoreModal
+          file={restoreFile}
+          onClose={() => setRestoreFile(null)}
+          onRestored={fetchAll}
+        />
+      )}
+
+      {/* Modal: Expiry calendar */}
+      {showCalendar && <CalendarModal list={list} onClose={() => setShowCalendar(false)} />}
+
+      {/* Full screen: show the code at the till */}
+      {redeemItem && (
+        <RedeemView
+          voucher={redeemItem}
+          onChanged={(v) => {
+            setRedeemItem(v);
+            setList((l) => applyChange(l, { type: "upsert", voucher: v }));
+          }}
+          onClose={() => setRedeemItem(null)}
+        />
+      )}
+
+      {/* Modal: Transfer to another account */}
+      {transferItem && (
+        <TransferModal
+          voucher={transferItem}
+          onClose={() => setTransferItem(null)}
+          onOffered={(t) => setOutgoing((o) => [t, ...o])}
+        />
+      )}
+
+      {/* Modal: Share links */}
+      {shareItem && <ShareModal voucher={shareItem} onClose={() => setShareItem(null)} />}
+
+      {/* Modal: Vouchers from a pasted email / SMS */}
+      {showPaste && (
+        <PasteMessageModal existing={list} onClose={() => setShowPaste(false)} onAdded={fetchAll} />
+      )}
+
+      {/* Modal: Vouchers from a mail export */}
+      {mailFile && (
+        <MailImportModal
+          file={mailFile}
+          existing={list}
+          onClose={() => setMailFile(null)}
+          onImported={fetchAll}
+        />
+      )}
+
+      {/* Modal: Pay with vouchers */}
+      {showPlanner && (
+        <PayPlannerModal list={list} onApplied={fetchAll} onClose={() => setShowPlanner(false)} />
+      )}
+
+      {/* Modal: Duplicate cleanup */}
+      {showDuplicates && (
+        <DuplicatesModal list={list} onMerged={fetchAll} onClose={() => setShowDuplicates(false)} />
+      )}
+
+      {/* Modal: Trash */}
+      {showTrash && (
+        <TrashModal money={money} onChanged={fetchAll} onClose={() => setShowTrash(false)} />
+      )}
+
+      {undo && <UndoToast message={undo.message} onUndo={undoDelete} onDismiss={() => setUndo(null)} />}
+
       {/* Modal: Edit Voucher */}
       {editItem && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
           <div className="bg-neutral-950 border border-neutral-800 p-6 rounded-2xl w-[90%] max-w-md space-y-4">
             <h3 className="text-lg font-semibold">Edit — {editItem.name}</h3>
+            {editItemChanged && (
+              <StaleHint
+                latest={list.find((x) => x.id === editItem.id)}
+                money={money}
+                onReload={(latest) => openEdit(latest)}
+              />
+            )}
 
             <input
               className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
@@ -749,6 +1435,7 @@ export default function Vouchers() {
               className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
               placeholder="Code (optional)"
               value={editForm.code}
+              readOnly={isEncrypted(editForm.code)}
               onChange={(e) =>
                 setEditForm((f) => ({ ...f, code: e.target.value }))
               }
@@ -758,6 +1445,7 @@ export default function Vouchers() {
               className="rounded-xl bg-neutral-900 border border-neutral-700 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-600"
               placeholder="PIN (optional)"
               value={editForm.pin}
+              readOnly={isEncrypted(editForm.pin)}
               onChange={(e) =>
                 setEditForm((f) => ({ ...f, pin: e.target.value }))
               }
@@ -789,6 +1477,50 @@ export default function Vouchers() {
           </div>
         </div>
       )}
+
+      {/* Modal: Duplicate found on add / edit (stacks above the edit modal) */}
+      {duplicate && (
+        <DuplicateModal
+          existing={duplicate.existing}
+          incoming={
+            duplicate.from === "edit" && editItem
+              ? { ...duplicate.input, spent: editItem.spent }
+              : duplicate.input
+          }
+          overwriteHint={
+            duplicate.from === "add"
+              ? "replace the existing voucher's details with these."
+              : "save this edit and move the other voucher to the trash."
+          }
+          onChoose={resolveDuplicate}
+        />
+      )}
+    </div>
+  );
+}
+
+// Shown inside a modal when its voucher changed on another device meanwhile
+function StaleHint({
+  latest,
+  money,
+  onReload,
+}: {
+  latest: Voucher | undefined;
+  money: (n: number) => string;
+  onReload: (v: Voucher) => void;
+}) {
+  return (
+    <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
+      {latest ? (
+        <>
+          Updated elsewhere — remaining is now {money(remaining(latest))}.{" "}
+          <button onClick={() => onReload(latest)} className="underline">
+            Load latest
+          </button>
+        </>
+      ) : (
+        "This voucher was deleted elsewhere."
+      )}
     </div>
   );
 }
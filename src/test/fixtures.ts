@@ -0,0 +1,41 @@
+import type { Voucher, VoucherTransaction } from "../types";
+
+// Minimal rows for unit tests; override only what the test is about
+
+export function makeVoucher(overrides: Partial<Voucher> = {}): Voucher {
+  return {
+    id: "v1",
+    user_id: "u1",
+    wallet_id: "w1",
+    name: "Amazon",
+    value: 1000,
+    spent: 0,
+    category: "Shopping",
+    code: null,
+    pin: null,
+    expires_on: null,
+    barcode_format: null,
+    status: "unused",
+    created_at: "2026-01-01T00:00:00.000Z",
+    version: 1,
+    updated_at: "2026-01-01T00:00:00.000Z",
+    deleted_at: null,
+    ...overrides,
+  };
+}
+
+export function makeEntry(overrides: Partial<VoucherTransaction> = {}): VoucherTransaction {
+  return {
+    id: "t1",
+    voucher_id: "v1",
+    user_id: "u1",
+    kind: "debit",
+    amount: 100,
+    merchant: null,
+    note: null,
+    occurred_at: "2026-02-01T00:00:00.000Z",
+    reverses: null,
+    created_at: "2026-02-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
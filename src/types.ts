@@ -1,8 +1,13 @@
 export type VoucherStatus = "unused" | "used" | "expired";
 
+// How the code is drawn in the redeem view; null = pick from the code's shape
+export type BarcodeFormat = "qr" | "code128" | "ean13";
+
 export interface Voucher {
   id: string;
+  // who added it; access comes from the wallet
   user_id: string | null;
+  wallet_id: string | null;
   name: string;
   value: number;
   spent: number;
@@ -10,6 +15,92 @@ export interface Voucher {
   code: string | null;
   pin: string | null;
   expires_on: string | null;
+  barcode_format: BarcodeFormat | null;
   status: VoucherStatus;
   created_at: string;
+  // bumped by the backend on every write; sent back with edits to detect conflicts
+  version: number;
+  updated_at: string;
+  // set while the voucher is in the trash
+  deleted_at: string | null;
+}
+
+// debit = money spent from the voucher, credit = refund back onto it,
+// adjustment = signed correction to spent (opening balances, resets, clamps)
+export type TransactionKind = "debit" | "credit" | "adjustment";
+
+export interface VoucherTransaction {
+  id: string;
+  voucher_id: string;
+  user_id: string | null;
+  kind: TransactionKind;
+  amount: number;
+  merchant: string | null;
+  note: string | null;
+  occurred_at: string;
+  reverses: string | null;
+  created_at: string;
+}
+
+// owner: everything incl. members; editor: vouchers and ledger; viewer: read-only
+export type WalletRole = "owner" | "editor" | "viewer";
+
+export interface Wallet {
+  id: string;
+  name: string;
+  owner_id: string;
+  viewers_see_pins: boolean;
+  created_at: string;
+}
+
+export interface WalletMember {
+  wallet_id: string;
+  user_id: string;
+  email: string | null;
+  role: WalletRole;
+  created_at: string;
+}
+
+export interface WalletInvite {
+  id: string;
+  wallet_id: string;
+  email: string;
+  role: Exclude<WalletRole, "owner">;
+  invited_by: string | null;
+  created_at: string;
+}
+
+// A public read-only link to one voucher; the code / PIN it reveals are only
+// readable with the key in the link itself
+export interface VoucherShare {
+  id: string;
+  voucher_id: string;
+  has_passcode: boolean;
+  expires_at: string;
+  max_views: number | null;
+  views: number;
+  failed_attempts: number;
+  revoked_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type TransferStatus = "pending" | "accepted" | "declined" | "cancelled";
+
+// A voucher offered to another account. Once accepted it is the sender's
+// read-only record of the gift.
+export interface VoucherTransfer {
+  id: string;
+  voucher_id: string | null;
+  from_wallet: string | null;
+  from_user: string | null;
+  from_email: string | null;
+  to_email: string;
+  to_user: string | null;
+  to_wallet: string | null;
+  status: TransferStatus;
+  // as offered; refreshed to the balance handed over on acceptance
+  snapshot: Pick<Voucher, "name" | "value" | "spent" | "category" | "expires_on">;
+  created_at: string;
+  responded_at: string | null;
 }
@@ -0,0 +1,26 @@
+-- Per-voucher ledger. vouchers.spent / vouchers.status are kept as a cache of
+-- the ledger total so list queries stay cheap.
+create table if not exists public.voucher_transactions (
+  id uuid primary key default gen_random_uuid(),
+  voucher_id uuid not null references public.vouchers (id) on delete cascade,
+  user_id uuid references auth.users (id) on delete cascade default auth.uid(),
+  kind text not null check (kind in ('debit', 'credit', 'adjustment')),
+  amount numeric not null,
+  merchant text,
+  note text,
+  occurred_at timestamptz not null default now(),
+  reverses uuid references public.voucher_transactions (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists voucher_transactions_voucher_idx
+  on public.voucher_transactions (voucher_id, occurred_at);
+
+-- one reversal per entry
+create unique index if not exists voucher_transactions_reverses_key
+  on public.voucher_transactions (reverses) where reverses is not null;
+
+alter table public.voucher_transactions enable row level security;
+
+create policy "own transactions" on public.voucher_transactions
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
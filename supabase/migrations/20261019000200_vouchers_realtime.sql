@@ -0,0 +1,4 @@
+-- Broadcast voucher changes to other devices. Full replica identity lets
+-- DELETE events carry user_id so the per-user realtime filter matches them.
+alter table public.vouchers replica identity full;
+alter publication supabase_realtime add table public.vouchers;
@@ -0,0 +1,18 @@
+-- Public bucket for per-user expiry calendars (.ics). Objects live under
+-- <user_id>/<token>.ics; the random token keeps the URL unguessable, and
+-- without a select policy the bucket can't be listed.
+insert into storage.buckets (id, name, public)
+values ('calendar-feeds', 'calendar-feeds', true)
+on conflict (id) do nothing;
+
+create policy "calendar feeds: owner inserts"
+  on storage.objects for insert to authenticated
+  with check (bucket_id = 'calendar-feeds' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "calendar feeds: owner updates"
+  on storage.objects for update to authenticated
+  using (bucket_id = 'calendar-feeds' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "calendar feeds: owner deletes"
+  on storage.objects for delete to authenticated
+  using (bucket_id = 'calendar-feeds' and (storage.foldername(name))[1] = auth.uid()::text);
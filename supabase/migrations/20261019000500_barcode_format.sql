@@ -0,0 +1,5 @@
+-- Symbology used to draw a voucher's code in the redeem view.
+-- null = chosen from the code itself (EAN-13 when it is one, Code 128 otherwise).
+alter table public.vouchers
+  add column if not exists barcode_format text
+  check (barcode_format in ('qr', 'code128', 'ean13'));
@@ -0,0 +1,246 @@
+-- Household wallets: vouchers belong to a wallet, and users reach them through
+-- a membership with a role (owner / editor / viewer). Invitations are keyed by
+-- email and accepted by the invitee once they sign in with that address.
+create table if not exists public.wallets (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  owner_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  -- viewers only get PINs when an owner allows it
+  viewers_see_pins boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.wallet_members (
+  wallet_id uuid not null references public.wallets (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  email text,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  created_at timestamptz not null default now(),
+  primary key (wallet_id, user_id)
+);
+
+create index if not exists wallet_members_user_idx on public.wallet_members (user_id);
+
+create table if not exists public.wallet_invites (
+  id uuid primary key default gen_random_uuid(),
+  wallet_id uuid not null references public.wallets (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('editor', 'viewer')),
+  invited_by uuid references auth.users (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists wallet_invites_email_key
+  on public.wallet_invites (wallet_id, lower(email));
+
+-- -------- Helpers (security definer so policies can call them without recursing) --------
+
+-- Current user's role in a wallet; null when not a member
+create or replace function public.wallet_role(p_wallet uuid) returns text
+language sql stable security definer set search_path = public as $$
+  select role from public.wallet_members where wallet_id = p_wallet and user_id = auth.uid();
+$$;
+
+create or replace function public.wallet_invited(p_wallet uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from public.wallet_invites
+    where wallet_id = p_wallet and lower(email) = lower(auth.jwt() ->> 'email')
+  );
+$$;
+
+create or replace function public.can_see_pins(p_wallet uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select coalesce((
+    select m.role in ('owner', 'editor') or w.viewers_see_pins
+    from public.wallet_members m
+    join public.wallets w on w.id = m.wallet_id
+    where m.wallet_id = p_wallet and m.user_id = auth.uid()
+  ), false);
+$$;
+
+-- The creator of a wallet is its first owner
+create or replace function public.add_wallet_owner() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  insert into public.wallet_members (wallet_id, user_id, email, role)
+  values (new.id, new.owner_id, (select email from auth.users where id = new.owner_id), 'owner');
+  return new;
+end;
+$$;
+
+drop trigger if exists wallets_add_owner on public.wallets;
+create trigger wallets_add_owner
+  after insert on public.wallets
+  for each row execute function public.add_wallet_owner();
+
+-- A wallet always keeps an owner (unless the wallet itself is being deleted)
+create or replace function public.keep_wallet_owner() returns trigger
+language plpgsql as $$
+begin
+  if old.role = 'owner'
+    and (tg_op = 'DELETE' or new.role <> 'owner')
+    and exists (select 1 from public.wallets where id = old.wallet_id)
+    and not exists (
+      select 1 from public.wallet_members
+      where wallet_id = old.wallet_id and role = 'owner' and user_id <> old.user_id
+    )
+  then
+    raise exception 'last_owner' using errcode = '23514';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists wallet_members_keep_owner on public.wallet_members;
+create trigger wallet_members_keep_owner
+  before update or delete on public.wallet_members
+  for each row execute function public.keep_wallet_owner();
+
+-- Turns the caller's invitation into a membership; returns the wallet id
+create or replace function public.accept_wallet_invite(p_invite uuid) returns uuid
+language plpgsql security definer set search_path = public as $$
+declare
+  i public.wallet_invites;
+begin
+  select * into i from public.wallet_invites
+  where id = p_invite and lower(email) = lower(auth.jwt() ->> 'email');
+  if not found then
+    raise exception 'invite_not_found' using errcode = 'P0002';
+  end if;
+
+  insert into public.wallet_members (wallet_id, user_id, email, role)
+  values (i.wallet_id, auth.uid(), auth.jwt() ->> 'email', i.role)
+  on conflict (wallet_id, user_id) do nothing;
+  delete from public.wallet_invites where id = i.id;
+  return i.wallet_id;
+end;
+$$;
+
+-- -------- Policies --------
+alter table public.wallets enable row level security;
+
+create policy "members read wallets" on public.wallets
+  for select using (
+    public.wallet_role(id) is not null or owner_id = auth.uid() or public.wallet_invited(id)
+  );
+create policy "users create wallets" on public.wallets
+  for insert with check (owner_id = auth.uid());
+create policy "owners update wallets" on public.wallets
+  for update using (public.wallet_role(id) = 'owner');
+create policy "owners delete wallets" on public.wallets
+  for delete using (public.wallet_role(id) = 'owner');
+
+-- members are only added by the owner trigger and accept_wallet_invite
+alter table public.wallet_members enable row level security;
+
+create policy "members see members" on public.wallet_members
+  for select using (public.wallet_role(wallet_id) is not null);
+create policy "owners change roles" on public.wallet_members
+  for update using (public.wallet_role(wallet_id) = 'owner');
+create policy "owners remove members, members leave" on public.wallet_members
+  for delete using (public.wallet_role(wallet_id) = 'owner' or user_id = auth.uid());
+
+alter table public.wallet_invites enable row level security;
+
+create policy "owners and invitees see invites" on public.wallet_invites
+  for select using (
+    public.wallet_role(wallet_id) = 'owner' or lower(email) = lower(auth.jwt() ->> 'email')
+  );
+create policy "owners invite" on public.wallet_invites
+  for insert with check (public.wallet_role(wallet_id) = 'owner');
+create policy "owners revoke, invitees decline" on public.wallet_invites
+  for delete using (
+    public.wallet_role(wallet_id) = 'owner' or lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+-- -------- Vouchers move into wallets --------
+alter table public.vouchers
+  add column if not exists wallet_id uuid references public.wallets (id) on delete cascade;
+
+create index if not exists vouchers_wallet_idx on public.vouchers (wallet_id, created_at desc);
+
+-- every existing user gets a personal wallet holding their vouchers
+insert into public.wallets (name, owner_id)
+select 'My wallet', u.user_id
+from (select distinct user_id from public.vouchers where user_id is not null) u
+where not exists (select 1 from public.wallets w where w.owner_id = u.user_id);
+
+update public.vouchers v
+set wallet_id = w.id
+from public.wallets w
+where w.owner_id = v.user_id and v.wallet_id is null;
+
+-- user_id now records who added the voucher; access goes through the wallet
+do $$
+declare
+  p record;
+begin
+  for p in select policyname from pg_policies where schemaname = 'public' and tablename = 'vouchers' loop
+    execute format('drop policy %I on public.vouchers', p.policyname);
+  end loop;
+end;
+$$;
+
+alter table public.vouchers enable row level security;
+
+create policy "members read vouchers" on public.vouchers
+  for select using (public.wallet_role(wallet_id) is not null);
+create policy "editors add vouchers" on public.vouchers
+  for insert with check (public.wallet_role(wallet_id) in ('owner', 'editor'));
+create policy "editors change vouchers" on public.vouchers
+  for update using (public.wallet_role(wallet_id) in ('owner', 'editor'))
+  with check (public.wallet_role(wallet_id) in ('owner', 'editor'));
+create policy "editors delete vouchers" on public.vouchers
+  for delete using (public.wallet_role(wallet_id) in ('owner', 'editor'));
+
+-- the ledger follows its voucher
+drop policy if exists "own transactions" on public.voucher_transactions;
+
+create policy "members read transactions" on public.voucher_transactions
+  for select using (exists (select 1 from public.vouchers v where v.id = voucher_id));
+create policy "editors write transactions" on public.voucher_transactions
+  for all using (
+    exists (
+      select 1 from public.vouchers v
+      where v.id = voucher_id and public.wallet_role(v.wallet_id) in ('owner', 'editor')
+    )
+  ) with check (
+    exists (
+      select 1 from public.vouchers v
+      where v.id = voucher_id and public.wallet_role(v.wallet_id) in ('owner', 'editor')
+    )
+  );
+
+-- -------- PINs --------
+-- Row-level security can't hide one column, and realtime broadcasts whole
+-- rows, so PINs move to their own table with a stricter read policy.
+create table if not exists public.voucher_pins (
+  voucher_id uuid primary key references public.vouchers (id) on delete cascade,
+  pin text not null
+);
+
+insert into public.voucher_pins (voucher_id, pin)
+select id, pin from public.vouchers where pin is not null
+on conflict (voucher_id) do nothing;
+
+alter table public.vouchers drop column if exists pin;
+
+alter table public.voucher_pins enable row level security;
+
+create policy "pin readers" on public.voucher_pins
+  for select using (
+    exists (select 1 from public.vouchers v where v.id = voucher_id and public.can_see_pins(v.wallet_id))
+  );
+create policy "editors write pins" on public.voucher_pins
+  for all using (
+    exists (
+      select 1 from public.vouchers v
+      where v.id = voucher_id and public.wallet_role(v.wallet_id) in ('owner', 'editor')
+    )
+  ) with check (
+    exists (
+      select 1 from public.vouchers v
+      where v.id = voucher_id and public.wallet_role(v.wallet_id) in ('owner', 'editor')
+    )
+  );
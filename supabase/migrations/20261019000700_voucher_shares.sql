@@ -0,0 +1,174 @@
+-- Share links: a read-only public view of one voucher, replacing code + PIN
+-- pasted into chat. The code and PIN are encrypted in the browser with a key
+-- that only travels in the link's #fragment, so this table never holds them
+-- in readable form. Expiry, view limit, passcode and revocation are enforced
+-- here by open_voucher_share.
+create extension if not exists pgcrypto;
+
+create table if not exists public.voucher_shares (
+  id uuid primary key default gen_random_uuid(),
+  voucher_id uuid not null references public.vouchers (id) on delete cascade,
+  -- "enc:v1:" ciphertext of {"code","pin"} under the link key
+  secret text not null,
+  passcode_hash text,
+  has_passcode boolean generated always as (passcode_hash is not null) stored,
+  expires_at timestamptz not null,
+  max_views int check (max_views > 0),
+  views int not null default 0,
+  failed_attempts int not null default 0,
+  revoked_at timestamptz,
+  created_by uuid references auth.users (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists voucher_shares_voucher_idx on public.voucher_shares (voucher_id, created_at desc);
+
+create table if not exists public.voucher_share_opens (
+  id bigint generated always as identity primary key,
+  share_id uuid not null references public.voucher_shares (id) on delete cascade,
+  opened_at timestamptz not null default now()
+);
+
+create index if not exists voucher_share_opens_share_idx on public.voucher_share_opens (share_id, opened_at desc);
+
+-- wrong passcodes allowed before the link locks itself
+create or replace function public.share_passcode_attempts() returns int
+language sql immutable as $$ select 5 $$;
+
+-- Editors and owners share; the passcode is hashed before it is stored
+create or replace function public.create_voucher_share(
+  p_voucher uuid,
+  p_secret text,
+  p_expires_at timestamptz,
+  p_max_views int default null,
+  p_passcode text default null
+) returns uuid
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  share_id uuid;
+begin
+  if not exists (
+    select 1 from public.vouchers v
+    where v.id = p_voucher and public.wallet_role(v.wallet_id) in ('owner', 'editor')
+  ) then
+    raise exception 'Voucher not found' using errcode = 'P0002';
+  end if;
+  if p_expires_at <= now() then
+    raise exception 'expiry_in_past' using errcode = '22023';
+  end if;
+
+  insert into public.voucher_shares (voucher_id, secret, passcode_hash, expires_at, max_views)
+  values (
+    p_voucher,
+    p_secret,
+    case when coalesce(p_passcode, '') = '' then null else crypt(p_passcode, gen_salt('bf')) end,
+    p_expires_at,
+    p_max_views
+  )
+  returning id into share_id;
+  return share_id;
+end;
+$$;
+
+-- Public entry point behind /s/<id>. Returns a status instead of raising so
+-- view counts and failed attempts are kept:
+--   ok | not_found | revoked | expired | used_up | passcode_required | wrong_passcode | locked
+create or replace function public.open_voucher_share(p_share uuid, p_passcode text default null)
+returns jsonb
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  s public.voucher_shares;
+  v public.vouchers;
+begin
+  select * into s from public.voucher_shares where id = p_share for update;
+  if not found then
+    return jsonb_build_object('status', 'not_found');
+  end if;
+  if s.revoked_at is not null then
+    return jsonb_build_object(
+      'status', case when s.failed_attempts >= public.share_passcode_attempts() then 'locked' else 'revoked' end
+    );
+  end if;
+  if s.expires_at <= now() then
+    return jsonb_build_object('status', 'expired');
+  end if;
+  if s.max_views is not null and s.views >= s.max_views then
+    return jsonb_build_object('status', 'used_up');
+  end if;
+
+  if s.passcode_hash is not null then
+    if coalesce(p_passcode, '') = '' then
+      return jsonb_build_object('status', 'passcode_required');
+    end if;
+    if crypt(p_passcode, s.passcode_hash) <> s.passcode_hash then
+      update public.voucher_shares
+      set failed_attempts = failed_attempts + 1,
+          revoked_at = case
+            when failed_attempts + 1 >= public.share_passcode_attempts() then now()
+          end
+      where id = s.id
+      returning * into s;
+      return jsonb_build_object(
+        'status', case when s.revoked_at is not null then 'locked' else 'wrong_passcode' end,
+        'attempts_left', greatest(public.share_passcode_attempts() - s.failed_attempts, 0)
+      );
+    end if;
+  end if;
+
+  update public.voucher_shares set views = views + 1 where id = s.id returning * into s;
+  insert into public.voucher_share_opens (share_id) values (s.id);
+
+  select * into v from public.vouchers where id = s.voucher_id;
+  return jsonb_build_object(
+    'status', 'ok',
+    'secret', s.secret,
+    'expires_at', s.expires_at,
+    'views_left', case when s.max_views is null then null else s.max_views - s.views end,
+    'voucher', jsonb_build_object(
+      'name', v.name,
+      'category', v.category,
+      'value', v.value,
+      'spent', v.spent,
+      'status', v.status,
+      'expires_on', v.expires_on,
+      'barcode_format', v.barcode_format
+    )
+  );
+end;
+$$;
+
+grant execute on function public.open_voucher_share(uuid, text) to anon, authenticated;
+revoke execute on function public.create_voucher_share(uuid, text, timestamptz, int, text) from anon;
+
+-- -------- Policies --------
+-- Links are managed by whoever may edit the voucher; rows are only created
+-- through create_voucher_share and only ever revoked, never edited otherwise
+alter table public.voucher_shares enable row level security;
+
+create policy "editors see shares" on public.voucher_shares
+  for select using (
+    exists (
+      select 1 from public.vouchers v
+      where v.id = voucher_id and public.wallet_role(v.wallet_id) in ('owner', 'editor')
+    )
+  );
+create policy "editors revoke shares" on public.voucher_shares
+  for update using (
+    exists (
+      select 1 from public.vouchers v
+      where v.id = voucher_id and public.wallet_role(v.wallet_id) in ('owner', 'editor')
+    )
+  );
+
+-- the hash and the ciphertext stay server-side
+revoke select, update on public.voucher_shares from anon, authenticated;
+grant select (
+  id, voucher_id, has_passcode, expires_at, max_views, views, failed_attempts,
+  revoked_at, created_by, created_at
+) on public.voucher_shares to authenticated;
+grant update (revoked_at) on public.voucher_shares to authenticated;
+
+alter table public.voucher_share_opens enable row level security;
+
+create policy "editors see opens" on public.voucher_share_opens
+  for select using (exists (select 1 from public.voucher_shares s where s.id = share_id));
@@ -0,0 +1,143 @@
+-- Giving a voucher away: the sender offers it to an email address, and on
+-- acceptance the voucher (ledger and PIN included) moves into one of the
+-- recipient's wallets. The transfer row stays as the record of who gave
+-- what and when, and is the sender's read-only "gifted" entry.
+create table if not exists public.voucher_transfers (
+  id uuid primary key default gen_random_uuid(),
+  voucher_id uuid references public.vouchers (id) on delete set null,
+  from_wallet uuid references public.wallets (id) on delete set null,
+  from_user uuid references auth.users (id) on delete set null default auth.uid(),
+  from_email text,
+  to_email text not null,
+  to_user uuid references auth.users (id) on delete set null,
+  to_wallet uuid references public.wallets (id) on delete set null,
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'declined', 'cancelled')),
+  -- name / value / spent / category / expires_on when offered, refreshed on acceptance
+  snapshot jsonb not null,
+  created_at timestamptz not null default now(),
+  responded_at timestamptz
+);
+
+create unique index if not exists voucher_transfers_one_pending
+  on public.voucher_transfers (voucher_id) where status = 'pending';
+create index if not exists voucher_transfers_to_idx on public.voucher_transfers (lower(to_email), status);
+create index if not exists voucher_transfers_from_idx on public.voucher_transfers (from_wallet, created_at desc);
+
+create or replace function public.voucher_snapshot(v public.vouchers) returns jsonb
+language sql immutable as $$
+  select jsonb_build_object(
+    'name', v.name,
+    'value', v.value,
+    'spent', v.spent,
+    'category', v.category,
+    'expires_on', v.expires_on
+  );
+$$;
+
+create or replace function public.offer_voucher_transfer(p_voucher uuid, p_email text)
+returns public.voucher_transfers
+language plpgsql security definer set search_path = public as $$
+declare
+  v public.vouchers;
+  t public.voucher_transfers;
+begin
+  select * into v from public.vouchers where id = p_voucher;
+  if not found or coalesce(public.wallet_role(v.wallet_id), '') not in ('owner', 'editor') then
+    raise exception 'Voucher not found' using errcode = 'P0002';
+  end if;
+  if lower(p_email) = lower(auth.jwt() ->> 'email') then
+    raise exception 'transfer_to_self' using errcode = '22023';
+  end if;
+  if exists (select 1 from public.voucher_transfers where voucher_id = v.id and status = 'pending') then
+    raise exception 'transfer_pending' using errcode = '23505';
+  end if;
+
+  insert into public.voucher_transfers (voucher_id, from_wallet, from_email, to_email, snapshot)
+  values (v.id, v.wallet_id, auth.jwt() ->> 'email', lower(trim(p_email)), public.voucher_snapshot(v))
+  returning * into t;
+  return t;
+end;
+$$;
+
+-- Moves the voucher into p_wallet, which the recipient must be able to edit
+create or replace function public.accept_voucher_transfer(p_transfer uuid, p_wallet uuid)
+returns public.voucher_transfers
+language plpgsql security definer set search_path = public as $$
+declare
+  t public.voucher_transfers;
+  v public.vouchers;
+begin
+  select * into t from public.voucher_transfers
+  where id = p_transfer and status = 'pending' and lower(to_email) = lower(auth.jwt() ->> 'email')
+  for update;
+  if not found then
+    raise exception 'transfer_not_found' using errcode = 'P0002';
+  end if;
+  if coalesce(public.wallet_role(p_wallet), '') not in ('owner', 'editor') then
+    raise exception 'wallet_not_writable' using errcode = '42501';
+  end if;
+
+  update public.vouchers set wallet_id = p_wallet, user_id = auth.uid()
+  where id = t.voucher_id
+  returning * into v;
+  if not found then
+    -- deleted by the sender in the meantime; returned as cancelled (raising would undo this)
+    update public.voucher_transfers set status = 'cancelled', responded_at = now()
+    where id = t.id returning * into t;
+    return t;
+  end if;
+
+  -- links the sender made stop working once the voucher is gone
+  update public.voucher_shares set revoked_at = now() where voucher_id = v.id and revoked_at is null;
+
+  update public.voucher_transfers
+  set status = 'accepted',
+      to_user = auth.uid(),
+      to_wallet = p_wallet,
+      snapshot = public.voucher_snapshot(v),
+      responded_at = now()
+  where id = t.id
+  returning * into t;
+  return t;
+end;
+$$;
+
+-- The recipient declines, or the sender takes the offer back
+create or replace function public.close_voucher_transfer(p_transfer uuid)
+returns public.voucher_transfers
+language plpgsql security definer set search_path = public as $$
+declare
+  t public.voucher_transfers;
+begin
+  select * into t from public.voucher_transfers where id = p_transfer and status = 'pending' for update;
+  if not found then
+    raise exception 'transfer_not_found' using errcode = 'P0002';
+  end if;
+
+  if lower(t.to_email) = lower(auth.jwt() ->> 'email') then
+    update public.voucher_transfers set status = 'declined', responded_at = now()
+    where id = t.id returning * into t;
+  elsif public.wallet_role(t.from_wallet) in ('owner', 'editor') then
+    update public.voucher_transfers set status = 'cancelled', responded_at = now()
+    where id = t.id returning * into t;
+  else
+    raise exception 'transfer_not_found' using errcode = 'P0002';
+  end if;
+  return t;
+end;
+$$;
+
+revoke execute on function public.offer_voucher_transfer(uuid, text) from anon;
+revoke execute on function public.accept_voucher_transfer(uuid, uuid) from anon;
+revoke execute on function public.close_voucher_transfer(uuid) from anon;
+
+-- Readable by the sending wallet and the recipient; written only by the functions above
+alter table public.voucher_transfers enable row level security;
+
+create policy "senders and recipients read transfers" on public.voucher_transfers
+  for select using (
+    public.wallet_role(from_wallet) is not null
+    or to_user = auth.uid()
+    or lower(to_email) = lower(auth.jwt() ->> 'email')
+  );
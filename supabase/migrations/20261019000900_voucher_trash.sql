@@ -0,0 +1,52 @@
+-- Soft delete: the app moves vouchers to the trash by setting deleted_at,
+-- and they can be restored until a daily job purges them for good after
+-- trash_retention_days(). Trashed rows keep their ledger and PIN.
+alter table public.vouchers add column if not exists deleted_at timestamptz;
+
+create index if not exists vouchers_trash_idx
+  on public.vouchers (wallet_id, deleted_at) where deleted_at is not null;
+
+-- Mirrored by TRASH_RETENTION_DAYS in src/lib/trash.ts
+create or replace function public.trash_retention_days() returns int
+language sql immutable as $$ select 30 $$;
+
+-- A trashed voucher stops being reachable from outside the wallet: its share
+-- links are revoked and a pending transfer is cancelled. Restoring it does
+-- not bring either back.
+create or replace function public.voucher_trashed() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  update public.voucher_shares set revoked_at = now()
+  where voucher_id = new.id and revoked_at is null;
+  update public.voucher_transfers set status = 'cancelled', responded_at = now()
+  where voucher_id = new.id and status = 'pending';
+  return new;
+end;
+$$;
+
+drop trigger if exists vouchers_trashed on public.vouchers;
+create trigger vouchers_trashed
+  after update of deleted_at on public.vouchers
+  for each row
+  when (old.deleted_at is null and new.deleted_at is not null)
+  execute function public.voucher_trashed();
+
+-- Ledger, PIN and share rows go with the voucher (on delete cascade)
+create or replace function public.purge_voucher_trash() returns integer
+language plpgsql security definer set search_path = public as $$
+declare
+  purged integer;
+begin
+  delete from public.vouchers
+  where deleted_at < now() - make_interval(days => public.trash_retention_days());
+  get diagnostics purged = row_count;
+  return purged;
+end;
+$$;
+
+revoke execute on function public.purge_voucher_trash() from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.unschedule(jobid) from cron.job where jobname = 'purge-voucher-trash';
+select cron.schedule('purge-voucher-trash', '17 3 * * *', 'select public.purge_voucher_trash()');
@@ -0,0 +1,124 @@
+-- A voucher on offer keeps its code and PIN as stored, which may be
+-- encrypted with the sender's passphrase. The sender's app hands the
+-- decrypted secrets over with the offer; they wait here, out of reach of
+-- every client, and are only written onto the voucher when the recipient
+-- accepts. Any other outcome simply drops them, so nothing needs re-sealing.
+create table if not exists public.voucher_transfer_secrets (
+  transfer_id uuid primary key references public.voucher_transfers (id) on delete cascade,
+  code text,
+  pin text
+);
+
+-- No policies: only the functions below read or write it
+alter table public.voucher_transfer_secrets enable row level security;
+revoke all on public.voucher_transfer_secrets from anon, authenticated;
+
+-- Replaces the two-argument version, which left the secrets to the client
+drop function if exists public.offer_voucher_transfer(uuid, text);
+
+create or replace function public.offer_voucher_transfer(
+  p_voucher uuid,
+  p_email text,
+  p_code text default null,
+  p_pin text default null
+)
+returns public.voucher_transfers
+language plpgsql security definer set search_path = public as $$
+declare
+  v public.vouchers;
+  t public.voucher_transfers;
+begin
+  select * into v from public.vouchers where id = p_voucher;
+  if not found or coalesce(public.wallet_role(v.wallet_id), '') not in ('owner', 'editor') then
+    raise exception 'Voucher not found' using errcode = 'P0002';
+  end if;
+  if lower(p_email) = lower(auth.jwt() ->> 'email') then
+    raise exception 'transfer_to_self' using errcode = '22023';
+  end if;
+  if exists (select 1 from public.voucher_transfers where voucher_id = v.id and status = 'pending') then
+    raise exception 'transfer_pending' using errcode = '23505';
+  end if;
+
+  insert into public.voucher_transfers (voucher_id, from_wallet, from_email, to_email, snapshot)
+  values (v.id, v.wallet_id, auth.jwt() ->> 'email', lower(trim(p_email)), public.voucher_snapshot(v))
+  returning * into t;
+  insert into public.voucher_transfer_secrets (transfer_id, code, pin)
+  values (t.id, p_code, p_pin);
+  return t;
+end;
+$$;
+
+-- As before, plus the handed-over secrets replace whatever the voucher stored
+create or replace function public.accept_voucher_transfer(p_transfer uuid, p_wallet uuid)
+returns public.voucher_transfers
+language plpgsql security definer set search_path = public as $$
+declare
+  t public.voucher_transfers;
+  v public.vouchers;
+  s public.voucher_transfer_secrets;
+begin
+  select * into t from public.voucher_transfers
+  where id = p_transfer and status = 'pending' and lower(to_email) = lower(auth.jwt() ->> 'email')
+  for update;
+  if not found then
+    raise exception 'transfer_not_found' using errcode = 'P0002';
+  end if;
+  if coalesce(public.wallet_role(p_wallet), '') not in ('owner', 'editor') then
+    raise exception 'wallet_not_writable' using errcode = '42501';
+  end if;
+
+  update public.vouchers set wallet_id = p_wallet, user_id = auth.uid()
+  where id = t.voucher_id
+  returning * into v;
+  if not found then
+    -- deleted by the sender in the meantime; returned as cancelled (raising would undo this)
+    update public.voucher_transfers set status = 'cancelled', responded_at = now()
+    where id = t.id returning * into t;
+    return t;
+  end if;
+
+  -- offers made before this migration have no row; their secrets are already plaintext
+  select * into s from public.voucher_transfer_secrets where transfer_id = t.id;
+  if found then
+    update public.vouchers set code = s.code where id = v.id returning * into v;
+    if s.pin is null then
+      delete from public.voucher_pins where voucher_id = v.id;
+    else
+      insert into public.voucher_pins (voucher_id, pin) values (v.id, s.pin)
+      on conflict (voucher_id) do update set pin = excluded.pin;
+    end if;
+  end if;
+
+  -- links the sender made stop working once the voucher is gone
+  update public.voucher_shares set revoked_at = now() where voucher_id = v.id and revoked_at is null;
+
+  update public.voucher_transfers
+  set status = 'accepted',
+      to_user = auth.uid(),
+      to_wallet = p_wallet,
+      snapshot = public.voucher_snapshot(v),
+      responded_at = now()
+  where id = t.id
+  returning * into t;
+  return t;
+end;
+$$;
+
+-- Whatever ends an offer (accepted, declined, cancelled, or the voucher
+-- going to the trash), the handed-over secrets go with it
+create or replace function public.voucher_transfer_closed() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  delete from public.voucher_transfer_secrets where transfer_id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists voucher_transfers_closed on public.voucher_transfers;
+create trigger voucher_transfers_closed
+  after update of status on public.voucher_transfers
+  for each row
+  when (old.status = 'pending' and new.status <> 'pending')
+  execute function public.voucher_transfer_closed();
+
+revoke execute on function public.offer_voucher_transfer(uuid, text, text, text) from anon;
@@ -0,0 +1,6 @@
+-- Uploading with upsert reads the existing object first, which needs a select
+-- policy. Owners may only see their own folder, so the bucket still can't be
+-- listed by anyone else; the public feed URLs don't go through policies.
+create policy "calendar feeds: owner reads"
+  on storage.objects for select to authenticated
+  using (bucket_id = 'calendar-feeds' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,24 @@
+-- Revoking a link goes through revoke_voucher_share, which only ever sets
+-- revoked_at once. The direct column grant let editors write any value,
+-- including null, which brought a revoked link back to life.
+revoke update on public.voucher_shares from authenticated;
+drop policy if exists "editors revoke shares" on public.voucher_shares;
+
+create or replace function public.revoke_voucher_share(p_share uuid)
+returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if not exists (
+    select 1 from public.voucher_shares s
+    join public.vouchers v on v.id = s.voucher_id
+    where s.id = p_share and public.wallet_role(v.wallet_id) in ('owner', 'editor')
+  ) then
+    raise exception 'Share not found' using errcode = 'P0002';
+  end if;
+
+  update public.voucher_shares set revoked_at = now()
+  where id = p_share and revoked_at is null;
+end;
+$$;
+
+revoke execute on function public.revoke_voucher_share(uuid) from anon;
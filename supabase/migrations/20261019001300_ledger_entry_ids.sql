@@ -0,0 +1,63 @@
+-- Entries may now arrive with an id chosen by the client. The offline queue
+-- replays a write whose response was lost, so an entry that is already in
+-- the ledger is skipped instead of being recorded (and debited) again.
+create or replace function public.record_voucher_transactions(
+  p_voucher_id uuid,
+  p_entries jsonb,
+  p_expected_version integer default null
+) returns public.vouchers
+language plpgsql security invoker as $$
+declare
+  v public.vouchers;
+  new_spent numeric;
+begin
+  select * into v from public.vouchers where id = p_voucher_id for update;
+  if not found then
+    raise exception 'Voucher not found' using errcode = 'P0002';
+  end if;
+
+  if p_expected_version is not null and v.version <> p_expected_version then
+    raise exception 'version_conflict' using errcode = '40001';
+  end if;
+
+  -- vouchers from before the ledger: their spent total becomes the opening entry
+  if v.spent > 0 and not exists (
+    select 1 from public.voucher_transactions where voucher_id = v.id
+  ) then
+    insert into public.voucher_transactions (voucher_id, user_id, kind, amount, note, occurred_at)
+    values (v.id, v.user_id, 'adjustment', v.spent, 'Opening balance', v.created_at);
+  end if;
+
+  insert into public.voucher_transactions
+    (id, voucher_id, user_id, kind, amount, merchant, note, occurred_at, reverses)
+  select coalesce(e.id, gen_random_uuid()), v.id, v.user_id, e.kind, e.amount, e.merchant, e.note,
+         coalesce(e.occurred_at, now()), e.reverses
+  from jsonb_to_recordset(coalesce(p_entries, '[]'::jsonb)) as e(
+    id uuid, kind text, amount numeric, merchant text, note text,
+    occurred_at timestamptz, reverses uuid
+  )
+  on conflict (id) do nothing;
+
+  select greatest(0, coalesce(sum(
+    case kind
+      when 'debit' then abs(amount)
+      when 'credit' then -abs(amount)
+      else amount
+    end), 0))
+  into new_spent
+  from public.voucher_transactions
+  where voucher_id = v.id;
+
+  if new_spent > v.value then
+    raise exception 'insufficient_balance' using errcode = '23514';
+  end if;
+
+  update public.vouchers
+  set spent = new_spent,
+      status = case when new_spent >= v.value then 'used' else 'unused' end
+  where id = v.id
+  returning * into v;
+
+  return v;
+end;
+$$;